@@ -0,0 +1,430 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { useWeb3ModalProvider, useWeb3ModalAccount } from '@web3modal/ethers/react';
+import { CampaignSummary } from '../../lib/campaigns';
+import { AirdropDeployment, getExplorerTxUrl, getReadProvider, resolveDeployments, switchWalletChain } from '../../lib/chains';
+import { DecodedClaimError, decodeClaimError } from '../../lib/claimErrors';
+import {
+  AIRDROP_ADMIN_ABI,
+  AdminActionReview,
+  AirdropState,
+  formatTokens,
+  getOutstanding,
+  readAirdropState,
+  reviewAirdropUpdate,
+  reviewExtension,
+  reviewWithdrawal,
+  suggestTotalClaimable
+} from '../../lib/airdropAdmin';
+import '../walletModal';
+import '../animations.css';
+
+// Types
+type AdminAction = 'update' | 'extend' | 'withdraw';
+
+// Has to be typed out before a withdrawal is sent
+const WITHDRAW_CONFIRMATION = 'WITHDRAW';
+
+const AIRDROP_ROUND = process.env.NEXT_PUBLIC_AIRDROP_ROUND || '';
+
+// datetime-local inputs work in the browser's time zone
+const toInputDate = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const fromInputDate = (value: string) => (value ? Math.floor(new Date(value).getTime() / 1000) : 0);
+
+const parseTokenInput = (value: string, decimals: number): bigint | null => {
+  try {
+    return ethers.parseUnits(value.trim(), decimals);
+  } catch {
+    return null;
+  }
+};
+
+function ReviewList({ review }: { review: AdminActionReview }) {
+  return (
+    <div className="space-y-2 text-sm mt-4">
+      {review.problems.map(problem => (
+        <p key={problem} className="text-red-300">✕ {problem}</p>
+      ))}
+      {review.warnings.map(warning => (
+        <p key={warning} className="text-yellow-200">⚠ {warning}</p>
+      ))}
+      {review.problems.length === 0 && review.effects.length > 0 && (
+        <ul className="bg-black/30 rounded-lg p-3 text-gray-200 font-mono text-xs space-y-1 break-all">
+          {review.effects.map(effect => <li key={effect}>{effect}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function AirdropAdminPage() {
+  const { address, chainId, isConnected } = useWeb3ModalAccount();
+  const { walletProvider } = useWeb3ModalProvider();
+
+  // State
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [deployments, setDeployments] = useState<AirdropDeployment[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [airdrop, setAirdrop] = useState<AirdropState | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [pendingAction, setPendingAction] = useState<AdminAction | null>(null);
+  const [txHash, setTxHash] = useState('');
+  const [txConfirmed, setTxConfirmed] = useState(false);
+  const [error, setError] = useState<DecodedClaimError | null>(null);
+
+  // Forms
+  const [newRoot, setNewRoot] = useState('');
+  const [newEnd, setNewEnd] = useState('');
+  const [newTotal, setNewTotal] = useState('');
+  const [extendTo, setExtendTo] = useState('');
+  const [withdrawConfirmation, setWithdrawConfirmation] = useState('');
+
+  const deployment = deployments?.[selected];
+  const isOwner = !!airdrop && !!address && airdrop.owner.toLowerCase() === address.toLowerCase();
+  const onDeploymentChain = !!deployment && chainId === deployment.chain.chainId;
+  const canAct = isOwner && onDeploymentChain && !pendingAction;
+
+  // Load the contract state through the chain's RPC, so it shows without a wallet
+  const loadAirdrop = async () => {
+    if (!deployment) return;
+    setLoadError('');
+
+    try {
+      setAirdrop(await readAirdropState(getReadProvider(deployment.chain), deployment.contractAddress));
+    } catch (err) {
+      console.error('Error loading airdrop state:', err);
+      setAirdrop(null);
+      setLoadError(`Could not read the airdrop contract on ${deployment.chain.name}`);
+    }
+  };
+
+  // Fill the update form from a generated campaign
+  const pickCampaign = (id: string) => {
+    const campaign = campaigns.find(candidate => candidate.id === id);
+    if (!campaign || !airdrop) return;
+
+    setNewRoot(campaign.merkleRoot);
+    setNewTotal(ethers.formatUnits(suggestTotalClaimable(airdrop, campaign), airdrop.decimals));
+    const claimEnd = campaign.claimEnd ? Math.floor(new Date(campaign.claimEnd).getTime() / 1000) : 0;
+    if (claimEnd > Date.now() / 1000) setNewEnd(toInputDate(claimEnd));
+  };
+
+  // Simulate an owner call so a revert never reaches the wallet, then send it
+  const runAction = async (action: AdminAction, method: string, args: unknown[]) => {
+    if (!walletProvider || !deployment) return;
+
+    setPendingAction(action);
+    setError(null);
+    setTxHash('');
+    setTxConfirmed(false);
+
+    try {
+      const signer = await new ethers.BrowserProvider(walletProvider).getSigner();
+      const contract = new ethers.Contract(deployment.contractAddress, AIRDROP_ADMIN_ABI, signer);
+      const fn = contract.getFunction(method);
+
+      await fn.staticCall(...args);
+      const tx = await fn(...args);
+      setTxHash(tx.hash);
+      await tx.wait();
+      setTxConfirmed(true);
+
+      if (action === 'withdraw') setWithdrawConfirmation('');
+      await loadAirdrop();
+    } catch (err) {
+      console.error(`Error calling ${method}:`, err);
+      setError(decodeClaimError(err));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const switchNetwork = async () => {
+    if (!walletProvider || !deployment) return;
+    try {
+      await switchWalletChain(walletProvider, deployment.chain);
+    } catch (err) {
+      console.error('Error switching network:', err);
+      setError(decodeClaimError(err));
+    }
+  };
+
+  // Effects
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await fetch('/api/campaigns');
+        if (!response.ok) throw new Error(`Campaign lookup failed with status ${response.status}`);
+        const { campaigns: index } = await response.json();
+        setCampaigns(index);
+        setDeployments(resolveDeployments(index, AIRDROP_ROUND));
+      } catch (err) {
+        console.error('Error loading campaigns:', err);
+        setDeployments(resolveDeployments([], AIRDROP_ROUND));
+      }
+    })();
+  }, []);
+
+  // Start on the deployment of the wallet's chain
+  useEffect(() => {
+    const index = deployments?.findIndex(candidate => candidate.chain.chainId === chainId) ?? -1;
+    if (index >= 0) setSelected(index);
+  }, [deployments, chainId]);
+
+  useEffect(() => {
+    setAirdrop(null);
+    loadAirdrop();
+  }, [deployments, selected]);
+
+  // Prefill the forms once per contract, not on every refresh
+  useEffect(() => {
+    if (!airdrop) return;
+    setNewRoot(airdrop.merkleRoot);
+    setNewEnd(toInputDate(airdrop.claimPeriodEnd));
+    setNewTotal(ethers.formatUnits(airdrop.totalClaimable, airdrop.decimals));
+    setExtendTo(toInputDate(airdrop.claimPeriodEnd + 7 * 86400));
+  }, [airdrop?.contractAddress]);
+
+  // Reviews
+  const updateTotal = airdrop ? parseTokenInput(newTotal, airdrop.decimals) : null;
+  const updateReview: AdminActionReview | null = !airdrop || !deployment
+    ? null
+    : updateTotal === null
+      ? { problems: ['Total claimable is not a valid amount'], warnings: [], effects: [] }
+      : reviewAirdropUpdate(
+          airdrop,
+          { merkleRoot: newRoot.trim(), claimPeriodEnd: fromInputDate(newEnd), totalClaimable: updateTotal },
+          campaigns,
+          deployment.chain.chainId
+        );
+  const extendReview = airdrop ? reviewExtension(airdrop, fromInputDate(extendTo)) : null;
+  const withdrawReview = airdrop ? reviewWithdrawal(airdrop) : null;
+
+  const outstanding = airdrop ? getOutstanding(airdrop) : 0n;
+  const claimOpen = !!airdrop && airdrop.claimPeriodEnd >= Date.now() / 1000;
+  const explorerUrl = deployment && txHash ? getExplorerTxUrl(deployment.chain.chainId, txHash) : null;
+
+  const panelClass = 'backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl shadow-2xl p-8 mb-8';
+  const inputClass = 'w-full px-4 py-3 rounded-lg bg-black/30 border border-white/20 text-white font-mono text-sm placeholder-gray-500 focus:outline-none focus:border-purple-400 disabled:opacity-60';
+  const buttonClass = 'mt-4 px-6 py-3 rounded-lg font-semibold text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-800 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-10 animate-fade-in">
+          <h1 className="text-5xl font-extrabold mb-3 text-white tracking-tight">Airdrop Admin</h1>
+          <p className="text-gray-200">Owner operations for the PayCrypt airdrop contract</p>
+          <div className="mt-6 flex justify-center">
+            <w3m-button />
+          </div>
+        </div>
+
+        {/* Deployment */}
+        <div className={panelClass}>
+          {deployments && deployments.length === 0 && (
+            <p className="text-gray-200">No deployment found. Deploy a campaign or pin a contract in the chain config.</p>
+          )}
+          {deployments && deployments.length > 1 && (
+            <select
+              value={selected}
+              onChange={(e) => setSelected(Number(e.target.value))}
+              className={`${inputClass} mb-6`}
+            >
+              {deployments.map((candidate, index) => (
+                <option key={candidate.chain.chainId} value={index}>
+                  {candidate.chain.name}: {candidate.contractAddress}{candidate.round ? ` (${candidate.round})` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          {loadError && <p className="text-red-300">{loadError}</p>}
+
+          {airdrop && deployment && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between flex-wrap gap-2">
+                <h2 className="text-2xl font-bold text-white">{deployment.chain.name} Airdrop</h2>
+                {isConnected && (
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                    isOwner
+                      ? 'bg-green-500/20 text-green-300 border-green-400/30'
+                      : 'bg-yellow-500/20 text-yellow-200 border-yellow-400/30'
+                  }`}>
+                    {isOwner ? 'Connected as owner' : 'Read only: not the owner'}
+                  </span>
+                )}
+              </div>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-300">Contract</dt>
+                  <dd className="font-mono text-white break-all">{airdrop.contractAddress}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-300">Owner</dt>
+                  <dd className="font-mono text-white break-all">{airdrop.owner}</dd>
+                </div>
+                <div className="md:col-span-2">
+                  <dt className="text-gray-300">Merkle root</dt>
+                  <dd className="font-mono text-white break-all">{airdrop.merkleRoot}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-300">Claim end</dt>
+                  <dd className="text-white">
+                    {new Date(airdrop.claimPeriodEnd * 1000).toLocaleString()} ({claimOpen ? 'open' : 'closed'})
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-300">Claimed</dt>
+                  <dd className="text-white">
+                    {formatTokens(airdrop, airdrop.totalClaimed)} of {formatTokens(airdrop, airdrop.totalClaimable)}
+                  </dd>
+                </div>
+                <div className="md:col-span-2">
+                  <dt className="text-gray-300">Balance vs still to be claimed</dt>
+                  <dd className={airdrop.balance >= outstanding ? 'text-green-300' : 'text-red-300'}>
+                    {formatTokens(airdrop, airdrop.balance)} held, {formatTokens(airdrop, outstanding)} outstanding
+                    {airdrop.balance >= outstanding
+                      ? ` (${formatTokens(airdrop, airdrop.balance - outstanding)} surplus)`
+                      : ` (${formatTokens(airdrop, outstanding - airdrop.balance)} short)`}
+                  </dd>
+                </div>
+              </dl>
+
+              {isConnected && isOwner && !onDeploymentChain && (
+                <button onClick={switchNetwork} className={buttonClass}>
+                  Switch to {deployment.chain.name} to make changes
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className={`bg-gradient-to-r from-red-500/20 to-orange-500/20 border border-red-400/40 rounded-xl p-5 mb-8 ${error.kind === 'rejected' ? '' : 'animate-shake'}`}>
+            <h3 className="text-lg font-bold text-red-300 mb-1">{error.title}</h3>
+            <p className="text-red-200 text-sm">{error.message}</p>
+            {error.action && <p className="text-red-100 text-sm font-medium mt-2">{error.action}</p>}
+          </div>
+        )}
+
+        {/* Transaction Hash */}
+        {txHash && (
+          <div className="bg-gradient-to-r from-green-500/20 to-teal-500/20 border border-green-400/40 rounded-xl p-5 mb-8 animate-slide-up">
+            <h3 className="text-lg font-bold text-green-300 mb-1">
+              {txConfirmed ? 'Transaction Confirmed' : pendingAction ? 'Transaction Submitted' : 'Transaction Failed'}
+            </h3>
+            <p className="font-mono text-sm text-green-200 break-all">{txHash}</p>
+            {explorerUrl && (
+              <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-green-300 hover:text-green-100">
+                View on {deployment?.chain.explorerName}
+              </a>
+            )}
+          </div>
+        )}
+
+        {airdrop && (
+          <>
+            {/* Update Airdrop */}
+            <div className={panelClass}>
+              <h2 className="text-2xl font-bold mb-2 text-white">Update Airdrop</h2>
+              <p className="text-gray-300 text-sm mb-6">
+                Point the contract at a new Merkle root. The root has to match a generated campaign.
+              </p>
+              <div className="space-y-4">
+                {campaigns.length > 0 && (
+                  <select defaultValue="" onChange={(e) => pickCampaign(e.target.value)} disabled={!canAct} className={inputClass}>
+                    <option value="" disabled>Fill in from a campaign…</option>
+                    {campaigns.map(campaign => (
+                      <option key={campaign.id} value={campaign.id}>
+                        {campaign.name} ({campaign.id}, v{campaign.version})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <label className="block text-sm text-gray-300">
+                  Merkle root
+                  <input type="text" value={newRoot} onChange={(e) => setNewRoot(e.target.value)} disabled={!canAct} spellCheck={false} className={`${inputClass} mt-1`} />
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <label className="block text-sm text-gray-300">
+                    Claim end
+                    <input type="datetime-local" value={newEnd} onChange={(e) => setNewEnd(e.target.value)} disabled={!canAct} className={`${inputClass} mt-1`} />
+                  </label>
+                  <label className="block text-sm text-gray-300">
+                    Total claimable ({airdrop.tokenSymbol})
+                    <input type="text" value={newTotal} onChange={(e) => setNewTotal(e.target.value)} disabled={!canAct} className={`${inputClass} mt-1`} />
+                  </label>
+                </div>
+              </div>
+              {updateReview && <ReviewList review={updateReview} />}
+              <button
+                onClick={() => runAction('update', 'updateAirdrop', [newRoot.trim(), fromInputDate(newEnd), updateTotal])}
+                disabled={!canAct || !updateReview || updateReview.problems.length > 0}
+                className={buttonClass}
+              >
+                {pendingAction === 'update' ? 'Updating...' : 'Update Airdrop'}
+              </button>
+            </div>
+
+            {/* Extend Claim Period */}
+            <div className={panelClass}>
+              <h2 className="text-2xl font-bold mb-2 text-white">Extend Claim Period</h2>
+              <p className="text-gray-300 text-sm mb-6">Move the claim end later. It cannot be moved earlier.</p>
+              <label className="block text-sm text-gray-300">
+                New claim end
+                <input type="datetime-local" value={extendTo} onChange={(e) => setExtendTo(e.target.value)} disabled={!canAct} className={`${inputClass} mt-1`} />
+              </label>
+              {extendReview && <ReviewList review={extendReview} />}
+              <button
+                onClick={() => runAction('extend', 'extendClaimPeriod', [fromInputDate(extendTo)])}
+                disabled={!canAct || !extendReview || extendReview.problems.length > 0}
+                className={buttonClass}
+              >
+                {pendingAction === 'extend' ? 'Extending...' : 'Extend Claim Period'}
+              </button>
+            </div>
+
+            {/* Emergency Withdraw */}
+            <div className={`${panelClass} border-red-400/40`}>
+              <h2 className="text-2xl font-bold mb-2 text-red-300">Emergency Withdraw</h2>
+              <p className="text-gray-300 text-sm mb-6">
+                Send every token the contract holds to the owner. Only possible after the claim window closes.
+              </p>
+              {withdrawReview && <ReviewList review={withdrawReview} />}
+              <label className="block text-sm text-gray-300 mt-4">
+                Type <span className="font-mono text-white">{WITHDRAW_CONFIRMATION}</span> to confirm
+                <input
+                  type="text"
+                  value={withdrawConfirmation}
+                  onChange={(e) => setWithdrawConfirmation(e.target.value)}
+                  disabled={!canAct || !withdrawReview || withdrawReview.problems.length > 0}
+                  autoComplete="off"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <button
+                onClick={() => runAction('withdraw', 'emergencyWithdraw', [])}
+                disabled={
+                  !canAct ||
+                  !withdrawReview ||
+                  withdrawReview.problems.length > 0 ||
+                  withdrawConfirmation !== WITHDRAW_CONFIRMATION
+                }
+                className="mt-4 px-6 py-3 rounded-lg font-semibold text-white bg-red-600/80 hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {pendingAction === 'withdraw' ? 'Withdrawing...' : 'Withdraw Tokens'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
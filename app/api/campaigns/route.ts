@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_ROUND, listCampaigns } from '../../../lib/proofStore';
+
+// Reads generated data from disk
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CACHE_CONTROL = 'public, max-age=60, s-maxage=300';
+
+/**
+ * GET /api/campaigns
+ * Returns the campaign index and the round used when none is requested
+ */
+export async function GET() {
+  try {
+    const index = await listCampaigns();
+    return NextResponse.json(
+      { defaultRound: DEFAULT_ROUND, campaigns: index.campaigns },
+      { headers: { 'Cache-Control': CACHE_CONTROL } }
+    );
+  } catch (err) {
+    console.error('Campaign listing failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to load airdrop data' },
+      { status: 500, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
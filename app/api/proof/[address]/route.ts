@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { DEFAULT_ROUND, UnknownRootError, UnknownRoundError, findClaim } from '../../../../lib/proofStore';
+
+// Reads generated data from disk
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// A root pins the tree, so answers for it never change and CDNs may keep them.
+// Without one the round can be regenerated at any time, so only browsers cache briefly.
+const ROOT_CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400';
+const ROUND_CACHE_CONTROL = 'private, max-age=60';
+
+function errorResponse(status: number, error: string, cacheControl = 'no-store') {
+  return NextResponse.json({ error }, { status, headers: { 'Cache-Control': cacheControl } });
+}
+
+/**
+ * GET /api/proof/:address?round=<id>&root=<merkle root>
+ * Returns { address, amount, proof, reason, round, merkleRoot } for an eligible address.
+ * With root, proofs come from the version of the round the contract verifies.
+ */
+export async function GET(request: NextRequest, { params }: { params: { address: string } }) {
+  const round = request.nextUrl.searchParams.get('round') || DEFAULT_ROUND;
+  const root = request.nextUrl.searchParams.get('root') || undefined;
+  if (root !== undefined && !ethers.isHexString(root, 32)) {
+    return errorResponse(400, 'root must be a 32-byte hex value');
+  }
+  const cacheControl = root ? ROOT_CACHE_CONTROL : ROUND_CACHE_CONTROL;
+
+  // Accept any casing, respond with the checksummed form
+  let address: string;
+  try {
+    address = ethers.getAddress(params.address.trim());
+  } catch {
+    return errorResponse(400, 'Invalid address');
+  }
+
+  try {
+    const claim = await findClaim(round, address, root);
+    if (!claim) {
+      return errorResponse(404, 'Address is not eligible for this round', cacheControl);
+    }
+
+    return NextResponse.json(
+      {
+        address: claim.address,
+        amount: claim.amount,
+        proof: claim.proof,
+        reason: claim.reason ?? null,
+        round: claim.round,
+        merkleRoot: claim.merkleRoot
+      },
+      { headers: { 'Cache-Control': cacheControl, ETag: `"${claim.merkleRoot}"` } }
+    );
+  } catch (err) {
+    if (err instanceof UnknownRoundError || err instanceof UnknownRootError) {
+      return errorResponse(404, err.message);
+    }
+    console.error('Proof lookup failed:', err);
+    return errorResponse(500, 'Failed to load airdrop data');
+  }
+}
@@ -2,19 +2,49 @@
 
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
-import { createWeb3Modal, defaultConfig } from '@web3modal/ethers/react';
 import { useWeb3ModalProvider, useWeb3ModalAccount } from '@web3modal/ethers/react';
 import dynamic from 'next/dynamic';
 import ReownConnectButton from './reownWallet';
+import './walletModal';
+import { AddressInputError, ResolvedAddress, resolveAddressInput } from '../lib/addressInput';
+import { SafeInfo, buildSafeClaimBatch, detectSafe } from '../lib/safeTransactions';
+import { AirdropState, formatTokens } from '../lib/airdropAdmin';
+import { ClaimTransactionError, DecodedClaimError, WrongNetworkError, decodeClaimError } from '../lib/claimErrors';
+import {
+  AirdropDeployment,
+  ChainConfig,
+  SUPPORTED_CHAINS,
+  getChainConfig,
+  getExplorerTxUrl,
+  getReadProvider,
+  resolveDeployments,
+  switchWalletChain
+} from '../lib/chains';
+import {
+  CLAIM_CONFIRMATIONS,
+  ClaimTrackingUpdate,
+  PendingClaim,
+  clearPendingClaim,
+  loadPendingClaim,
+  savePendingClaim,
+  watchClaim
+} from '../lib/claimTracker';
+import { RelayerUnavailableError, relayClaim } from '../lib/relayedClaims';
+import { ClaimPreflight, runClaimPreflight } from '../lib/claimPreflight';
+import {
+  ClaimData,
+  ClaimStatus,
+  EligibilityLookup,
+  LookupSource,
+  fetchClaimData,
+  getSharedLookupUrl,
+  lookUpEligibility,
+  readClaimStatus,
+  readSharedAddress
+} from '../lib/eligibilityLookup';
 import './animations.css';
 
 // Types
-interface ClaimData {
-  address: string;
-  amount: string;
-  proof: string[];
-}
-
 interface AirdropStats {
   totalClaimable: string;
   totalClaimed: string;
@@ -23,73 +53,98 @@ interface AirdropStats {
   isActive: boolean;
 }
 
-interface ClaimStatus {
-  claimed: boolean;
-  amount: string;
-  canStillClaim: boolean;
+interface RecipientCheck extends ResolvedAddress {
+  warnings: string[]; // Reasons to ask for confirmation before claiming
 }
 
+// Token the airdrop pays out, read from the contract
+type TokenInfo = Pick<AirdropState, 'tokenSymbol' | 'decimals'>;
+
 // Contract ABI (simplified for demo)
 const AIRDROP_ABI = [
   "function claimTokens(uint256 amount, bytes32[] calldata merkleProof) external",
-  "function canClaim(address user, uint256 amount, bytes32[] calldata merkleProof) external view returns (bool)",
+  "function claimTokensTo(address recipient, uint256 amount, bytes32[] calldata merkleProof) external",
+  "function claimTokensWithSignature(address claimer, address recipient, uint256 amount, bytes32[] calldata merkleProof, uint256 deadline, bytes calldata signature) external",
+  "function nonces(address owner) external view returns (uint256)",
   "function getClaimStatus(address user) external view returns (bool claimed, uint256 amount, bool canStillClaim)",
   "function getAirdropStats() external view returns (uint256, uint256, uint256, uint256, bool)",
   "function hasClaimed(address user) external view returns (bool)",
+  "function merkleRoot() external view returns (bytes32)",
+  "function token() external view returns (address)",
   "event TokensClaimed(address indexed claimer, uint256 amount, uint256 timestamp)"
 ];
 
-// Contract addresses (update with your deployed addresses)
-const CONTRACT_ADDRESSES = {
-  8453: "0x...", // Base
-  137: "0x...",  // Polygon
-  1: "0x..."     // Ethereum
+const TOKEN_ABI = [
+  "function symbol() external view returns (string)",
+  "function decimals() external view returns (uint8)"
+];
+
+// Airdrop round to look up proofs for (see /api/proof/[address]); chains can override it
+const AIRDROP_ROUND = process.env.NEXT_PUBLIC_AIRDROP_ROUND || '';
+
+// Static deployments can serve the proof shards directly instead of the API route
+const PROOFS_BASE_URL = process.env.NEXT_PUBLIC_AIRDROP_PROOFS_URL || '';
+
+// Relayer that pays gas for signed claims (see scripts/relayer.ts); claims go
+// straight to the contract when unset or unavailable
+const RELAYER_URL = process.env.NEXT_PUBLIC_RELAYER_URL || '';
+
+// Recipients each wallet has claimed to before, so repeat recipients skip the confirmation
+const KNOWN_RECIPIENTS_KEY = 'paycrypt-airdrop:recipients';
+
+const loadKnownRecipients = (account: string): string[] => {
+  try {
+    const known = JSON.parse(localStorage.getItem(KNOWN_RECIPIENTS_KEY) || '{}');
+    return known[account.toLowerCase()] || [];
+  } catch {
+    return [];
+  }
 };
 
-// Web3Modal setup
-const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'demo';
+const rememberRecipient = (account: string, recipient: string) => {
+  try {
+    const known = JSON.parse(localStorage.getItem(KNOWN_RECIPIENTS_KEY) || '{}');
+    const key = account.toLowerCase();
+    known[key] = Array.from(new Set([...(known[key] || []), recipient.toLowerCase()]));
+    localStorage.setItem(KNOWN_RECIPIENTS_KEY, JSON.stringify(known));
+  } catch {
+    // Storage may be unavailable (private mode); the user just confirms again next time
+  }
+};
 
-const metadata = {
-  name: 'PayCrypt Airdrop',
-  description: 'Claim your PayCrypt tokens',
-  url: 'https://paycrypt.com',
-  icons: ['/paycrypt-logo.png']
+// Find where the airdrop is deployed; static deployments without the API rely on
+// the contracts pinned in the chain config
+const loadDeployments = async (): Promise<AirdropDeployment[]> => {
+  try {
+    const response = await fetch('/api/campaigns');
+    if (!response.ok) throw new Error(`Campaign lookup failed with status ${response.status}`);
+    const { campaigns } = await response.json();
+    return resolveDeployments(campaigns, AIRDROP_ROUND);
+  } catch (err) {
+    console.error('Error loading campaigns:', err);
+    return resolveDeployments([], AIRDROP_ROUND);
+  }
 };
 
-const ethersConfig = defaultConfig({
-  metadata,
-  enableEIP6963: true,
-  enableInjected: true,
-  enableCoinbase: true,
-  defaultChainId: 8453
-});
-
-createWeb3Modal({
-  ethersConfig,
-  chains: [
-    {
-      chainId: 8453,
-      name: 'Base',
-      currency: 'ETH',
-      explorerUrl: 'https://basescan.org',
-      rpcUrl: 'https://base-rpc.publicnode.com'
-    }
-  ],
-  projectId,
-  enableAnalytics: true
-});
-
-// Mock eligibility data (in real app, fetch from your backend)
-const ELIGIBLE_ADDRESSES: Record<string, ClaimData> = {
-  "0x742d35Cc6661C0532108D3CE8c8FCfb4F88CA7C5": {
-    address: "0x742d35Cc6661C0532108D3CE8c8FCfb4F88CA7C5",
-    amount: "1000000000000000000000", // 1000 tokens
-    proof: [
-      "0x8da9e1c820f9dbd1589fd6585872bc1063588625729e7ab0797cfc63a00bd950",
-      "0x995788ffc103b987ad50f5e5707fd094419eb12d9552cc423bd0cd86a3861433"
-    ]
+// Symbol and decimals of the token a deployment pays out, read once per contract
+const tokenInfoCache = new Map<string, Promise<TokenInfo>>();
+
+const readTokenInfo = (deployment: AirdropDeployment): Promise<TokenInfo> => {
+  const key = `${deployment.chain.chainId}:${deployment.contractAddress.toLowerCase()}`;
+  let info = tokenInfoCache.get(key);
+  if (!info) {
+    const provider = getReadProvider(deployment.chain);
+    const airdrop = new ethers.Contract(deployment.contractAddress, AIRDROP_ABI, provider);
+    info = airdrop.token().then(async (tokenAddress: string) => {
+      const token = new ethers.Contract(tokenAddress, TOKEN_ABI, provider);
+      const [tokenSymbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+      return { tokenSymbol, decimals: Number(decimals) };
+    });
+    // A failed read is retried next time instead of being cached
+    info.catch(() => tokenInfoCache.delete(key));
+    tokenInfoCache.set(key, info);
   }
-  // Add more eligible addresses here
+  return info;
 };
 
 export default function AirdropClaimPage() {
@@ -101,60 +156,177 @@ export default function AirdropClaimPage() {
   const [claimStatus, setClaimStatus] = useState<ClaimStatus | null>(null);
   const [airdropStats, setAirdropStats] = useState<AirdropStats | null>(null);
   const [loading, setLoading] = useState(false);
-  const [txHash, setTxHash] = useState<string>('');
-  const [error, setError] = useState<string>('');
+  const [trackedClaim, setTrackedClaim] = useState<PendingClaim | null>(null);
+  const [tracking, setTracking] = useState<ClaimTrackingUpdate | null>(null);
+  const [error, setError] = useState<DecodedClaimError | null>(null);
+  const [safeInfo, setSafeInfo] = useState<SafeInfo | null>(null);
+  const [deployments, setDeployments] = useState<AirdropDeployment[] | null>(null);
+  const [token, setToken] = useState<TokenInfo | null>(null);
+  
+  // Read-only eligibility lookup for any address
+  const [lookupInput, setLookupInput] = useState('');
+  const [lookup, setLookup] = useState<EligibilityLookup | null>(null);
+  const [lookupError, setLookupError] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
+  
+  // Optional recipient other than the connected wallet
+  const [sendToOther, setSendToOther] = useState(false);
+  const [recipientInput, setRecipientInput] = useState('');
+  const [recipient, setRecipient] = useState<RecipientCheck | null>(null);
+  const [recipientError, setRecipientError] = useState('');
+  const [resolvingRecipient, setResolvingRecipient] = useState(false);
+  const [recipientConfirmed, setRecipientConfirmed] = useState(false);
+  
+  // Result of simulating the claim before it is sent
+  const [preflight, setPreflight] = useState<ClaimPreflight | null>(null);
+  const [checkingClaim, setCheckingClaim] = useState(false);
+
+  // The deployment on the wallet's chain, if any; eligibility and stats fall back
+  // to the first chain the airdrop is on so users can see them before switching
+  const deployment = deployments?.find(candidate => candidate.chain.chainId === chainId);
+  const claimDeployment = deployment ?? deployments?.[0];
+  const walletChain = getChainConfig(chainId);
+  const claimNetworks = deployments?.length
+    ? deployments.map(({ chain }) => chain.name).join(' or ')
+    : SUPPORTED_CHAINS[0].name;
+
+  const recipientReady = !sendToOther || (
+    !!recipient && !resolvingRecipient && (recipient.warnings.length === 0 || recipientConfirmed)
+  );
+  
+  const claimInFlight = !!trackedClaim && (!tracking || tracking.status === 'pending' || tracking.status === 'confirming');
+  const claimFailed = !!tracking && ['failed', 'cancelled', 'dropped'].includes(tracking.status);
+  const claimExplorerUrl = trackedClaim && getExplorerTxUrl(trackedClaim.chainId, tracking?.hash ?? trackedClaim.hash);
 
   // Get contract instance
   const getContract = async () => {
-    if (!walletProvider || !chainId) return null;
+    if (!walletProvider || !chainId || !deployments) return null;
     
-    const contractAddress = CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES];
-    if (!contractAddress) {
-      throw new Error(`Contract not deployed on chain ${chainId}`);
+    if (!deployment) {
+      throw new WrongNetworkError(chainId, deployments[0]?.chain.chainId);
     }
     
     const provider = new ethers.BrowserProvider(walletProvider);
     const signer = await provider.getSigner();
-    return new ethers.Contract(contractAddress, AIRDROP_ABI, signer);
+    return new ethers.Contract(deployment.contractAddress, AIRDROP_ABI, signer);
+  };
+
+  // Contract for reads, through the chain's own RPC rather than the wallet
+  const getReadContract = () => {
+    if (!claimDeployment) return null;
+    return new ethers.Contract(claimDeployment.contractAddress, AIRDROP_ABI, getReadProvider(claimDeployment.chain));
+  };
+
+  // Where proofs and claim statuses come from, null before deployments are known
+  const getLookupSource = (): LookupSource | null => {
+    if (!claimDeployment) return null;
+    return {
+      deployment: claimDeployment,
+      provider: getReadProvider(claimDeployment.chain),
+      proofsBaseUrl: PROOFS_BASE_URL,
+      round: AIRDROP_ROUND
+    };
   };
 
   // Check eligibility
   const checkEligibility = async () => {
-    if (!address) return;
+    const source = getLookupSource();
+    if (!address || !source) return;
     
     // Check if user is in eligible list
-    const eligible = ELIGIBLE_ADDRESSES[address.toLowerCase()];
-    setClaimData(eligible || null);
+    try {
+      const eligible = await fetchClaimData(address, source);
+      setClaimData(eligible);
+    } catch (err) {
+      console.error('Error loading eligibility:', err);
+      setClaimData(null);
+    }
     
     // Get onchain claim status
     try {
-      const contract = await getContract();
-      if (!contract) return;
-      
-      const [claimed, amount, canStillClaim] = await contract.getClaimStatus(address);
-      setClaimStatus({
-        claimed,
-        amount: ethers.formatEther(amount),
-        canStillClaim
-      });
+      setClaimStatus(await readClaimStatus(address, source));
     } catch (err) {
       console.error('Error checking claim status:', err);
     }
   };
 
+  // Look up any address without a wallet; also backs ?address= links
+  const lookUpAddress = async (input: string) => {
+    setLookup(null);
+    setLookupError('');
+    const source = getLookupSource();
+    if (!source) {
+      setLookupError('The airdrop has not been deployed yet. Check back soon.');
+      return;
+    }
+    
+    setLookingUp(true);
+    try {
+      const result = await lookUpEligibility(input, source);
+      setLookup(result);
+      
+      // Keep the result shareable
+      window.history.replaceState(null, '', getSharedLookupUrl(window.location.href, result));
+    } catch (err) {
+      if (!(err instanceof AddressInputError)) console.error('Error checking eligibility:', err);
+      setLookupError(err instanceof AddressInputError ? err.message : 'Could not check eligibility, try again in a moment');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  // Multisigs claim through a Safe transaction instead of the claim button
+  const checkSafe = async () => {
+    setSafeInfo(null);
+    if (!address || !walletProvider) return;
+    
+    try {
+      setSafeInfo(await detectSafe(new ethers.BrowserProvider(walletProvider), address));
+    } catch (err) {
+      console.error('Error checking for a Safe:', err);
+    }
+  };
+
+  // Download a Transaction Builder batch that claims for the connected Safe
+  const downloadSafeBatch = () => {
+    if (!claimData || !address || !chainId || !token) return;
+    if (!deployment) {
+      setError(decodeClaimError(new WrongNetworkError(chainId, deployments?.[0]?.chain.chainId)));
+      return;
+    }
+    
+    const batch = buildSafeClaimBatch({
+      chainId,
+      airdropAddress: deployment.contractAddress,
+      safeAddress: address,
+      amount: claimData.amount,
+      proof: claimData.proof,
+      recipient: sendToOther && recipientReady ? recipient?.address : undefined,
+      symbol: token.tokenSymbol,
+      decimals: token.decimals
+    });
+    const url = URL.createObjectURL(new Blob([JSON.stringify(batch, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `paycrypt-airdrop-claim-${address}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Load airdrop statistics
   const loadStats = async () => {
     try {
-      const contract = await getContract();
-      if (!contract) return;
+      const contract = getReadContract();
+      if (!contract || !claimDeployment) return;
       
-      const [totalClaimable, totalClaimed, remainingTokens, claimPeriodEnd, isActive] = 
-        await contract.getAirdropStats();
+      const [[totalClaimable, totalClaimed, remainingTokens, claimPeriodEnd, isActive], tokenInfo] =
+        await Promise.all([contract.getAirdropStats(), readTokenInfo(claimDeployment)]);
       
+      setToken(tokenInfo);
       setAirdropStats({
-        totalClaimable: ethers.formatEther(totalClaimable),
-        totalClaimed: ethers.formatEther(totalClaimed),
-        remainingTokens: ethers.formatEther(remainingTokens),
+        totalClaimable: ethers.formatUnits(totalClaimable, tokenInfo.decimals),
+        totalClaimed: ethers.formatUnits(totalClaimed, tokenInfo.decimals),
+        remainingTokens: ethers.formatUnits(remainingTokens, tokenInfo.decimals),
         claimPeriodEnd: Number(claimPeriodEnd),
         isActive
       });
@@ -163,48 +335,247 @@ export default function AirdropClaimPage() {
     }
   };
 
+  // Dry-run the claim with the user's proof so a claim that would revert never reaches the wallet
+  const runPreflight = async (to: string): Promise<ClaimPreflight | null> => {
+    if (!claimData || !address) return null;
+    
+    try {
+      const contract = await getContract();
+      if (!contract) return null;
+      
+      return await runClaimPreflight(contract.runner as ethers.Signer, await contract.getAddress(), {
+        recipient: to,
+        amount: BigInt(claimData.amount),
+        proof: claimData.proof,
+        relayed: !!RELAYER_URL && !safeInfo // Safes claim themselves and pay their own gas
+      });
+    } catch (err) {
+      const decoded = decodeClaimError(err);
+      if (decoded.kind === 'wrong-network') return { blocker: decoded };
+      console.error('Error simulating claim:', err);
+      return null;
+    }
+  };
+
+  // Ask the wallet to move to a chain the airdrop is on
+  const switchNetwork = async (chain: ChainConfig) => {
+    if (!walletProvider) return;
+    setError(null);
+    
+    try {
+      await switchWalletChain(walletProvider, chain);
+    } catch (err) {
+      console.error('Error switching network:', err);
+      setError(decodeClaimError(err));
+    }
+  };
+
   // Claim tokens
   const claimTokens = async () => {
-    if (!claimData || !walletProvider) return;
+    if (!claimData || !walletProvider || !address) return;
+    if (sendToOther && (!recipient || (recipient.warnings.length > 0 && !recipientConfirmed))) return;
+    if (preflight?.blocker) return;
+    
+    const to = sendToOther && recipient ? recipient.address : address;
     
     setLoading(true);
-    setError('');
+    setError(null);
+    setTracking(null);
+    setTrackedClaim(null);
     
     try {
       const contract = await getContract();
       if (!contract) throw new Error('Contract not available');
       
-      // Convert amount to wei
-      const amountWei = ethers.parseEther(
-        ethers.formatEther(claimData.amount)
-      );
+      // Replacements of the claim are searched for from here
+      const startBlock = await contract.runner!.provider!.getBlockNumber();
+      const submitted = {
+        chainId: Number(chainId),
+        claimer: address,
+        recipient: to,
+        contractAddress: await contract.getAddress(),
+        startBlock,
+        submittedAt: Date.now()
+      };
       
-      // Execute claim transaction
-      const tx = await contract.claimTokens(amountWei, claimData.proof);
-      setTxHash(tx.hash);
+      const amountWei = BigInt(claimData.amount);
       
-      // Wait for confirmation
-      await tx.wait();
+      // Prefer the gasless path; only a relayer that is known not to have sent
+      // the claim falls back to a normal transaction, a rejected signature or
+      // invalid claim is final. Safes cannot produce the ECDSA signature the
+      // contract checks.
+      let relayedHash = '';
+      if (RELAYER_URL && !safeInfo) {
+        try {
+          relayedHash = await relayClaim(contract.runner as ethers.Signer, {
+            relayerUrl: RELAYER_URL,
+            contractAddress: submitted.contractAddress,
+            recipient: to,
+            amount: amountWei,
+            proof: claimData.proof,
+            fromBlock: startBlock
+          });
+        } catch (err) {
+          if (!(err instanceof RelayerUnavailableError)) throw err;
+          console.warn('Relayer unavailable, sending the claim directly:', err.message);
+        }
+      }
       
-      // Refresh data
-      await checkEligibility();
-      await loadStats();
+      let pending: PendingClaim;
+      if (relayedHash) {
+        pending = { ...submitted, hash: relayedHash, relayed: true };
+      } else {
+        // Execute claim transaction
+        const tx = to === address
+          ? await contract.claimTokens(amountWei, claimData.proof)
+          : await contract.claimTokensTo(to, amountWei, claimData.proof);
+        pending = { ...submitted, hash: tx.hash, relayed: false, from: tx.from, nonce: tx.nonce };
+      }
       
-      setLoading(false);
-    } catch (err: any) {
+      // Saved so a reload keeps following the claim instead of offering it again;
+      // the tracker effect takes it from here
+      savePendingClaim(pending);
+      setTrackedClaim(pending);
+    } catch (err) {
       console.error('Claim error:', err);
-      setError(err.message || 'Failed to claim tokens');
+      setError(decodeClaimError(err));
       setLoading(false);
     }
   };
 
   // Effects
   useEffect(() => {
-    if (isConnected && address) {
+    loadDeployments().then(setDeployments);
+  }, []);
+
+  useEffect(() => {
+    if (isConnected && address && deployments) {
       checkEligibility();
-      loadStats();
+      checkSafe();
+    }
+  }, [isConnected, address, chainId, deployments]);
+
+  // Stats are public, so they load before a wallet connects
+  useEffect(() => {
+    if (deployments) loadStats();
+  }, [chainId, deployments]);
+
+  // Shared links: ?address=0x… or ?address=name.eth
+  useEffect(() => {
+    if (!deployments) return;
+    const shared = readSharedAddress(window.location.search);
+    if (!shared) return;
+    
+    setLookupInput(shared.input);
+    if (shared.error) {
+      setLookupError(shared.error);
+    } else {
+      lookUpAddress(shared.input);
     }
-  }, [isConnected, address, chainId]);
+  }, [deployments]);
+
+  // Pick up a claim that was still pending when the page was last closed
+  useEffect(() => {
+    setTrackedClaim(null);
+    setTracking(null);
+    if (!address || !chainId) return;
+    
+    const pending = loadPendingClaim(chainId, address);
+    setLoading(!!pending);
+    setTrackedClaim(pending);
+  }, [address, chainId]);
+
+  // Follow the claim transaction until it is confirmed or known to have failed
+  useEffect(() => {
+    if (!trackedClaim || !walletProvider) return;
+    
+    return watchClaim(new ethers.BrowserProvider(walletProvider), trackedClaim, update => {
+      setTracking(update);
+      if (update.status === 'pending' || update.status === 'confirming') {
+        // A sped-up claim is resumed under its new hash
+        if (update.hash !== trackedClaim.hash) savePendingClaim({ ...trackedClaim, hash: update.hash });
+        return;
+      }
+      
+      clearPendingClaim(trackedClaim.chainId, trackedClaim.claimer);
+      if (update.status === 'confirmed') {
+        if (trackedClaim.recipient !== trackedClaim.claimer) rememberRecipient(trackedClaim.claimer, trackedClaim.recipient);
+      } else {
+        setError(decodeClaimError(new ClaimTransactionError(update.status, update.hash)));
+      }
+      setLoading(false);
+      
+      // Refresh data
+      checkEligibility();
+      loadStats();
+    });
+  }, [trackedClaim, walletProvider]);
+
+  // Validate and resolve the recipient as the user types
+  useEffect(() => {
+    setRecipient(null);
+    setRecipientError('');
+    setRecipientConfirmed(false);
+    if (!sendToOther || !recipientInput.trim() || !address) return;
+    
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setResolvingRecipient(true);
+      try {
+        const resolved = await resolveAddressInput(recipientInput);
+        const contractAddress = deployment?.contractAddress;
+        if (resolved.address === ethers.ZeroAddress) {
+          throw new Error('Tokens cannot be sent to the zero address');
+        }
+        if (contractAddress && resolved.address.toLowerCase() === contractAddress.toLowerCase()) {
+          throw new Error('Tokens cannot be sent to the airdrop contract');
+        }
+        
+        // Anything we can't vouch for needs an explicit confirmation
+        const warnings: string[] = [];
+        const isSelf = resolved.address.toLowerCase() === address.toLowerCase();
+        if (!isSelf && !loadKnownRecipients(address).includes(resolved.address.toLowerCase())) {
+          warnings.push('You have not claimed to this address before.');
+        }
+        if (walletProvider) {
+          const code = await new ethers.BrowserProvider(walletProvider).getCode(resolved.address);
+          if (code !== '0x') {
+            warnings.push(`This address is a smart contract. Make sure it can receive and move ${token?.tokenSymbol ?? 'the airdropped'} tokens on this network.`);
+          }
+        }
+        if (!cancelled) setRecipient({ ...resolved, warnings });
+      } catch (err: any) {
+        if (!cancelled) setRecipientError(err.message || 'Invalid recipient');
+      } finally {
+        if (!cancelled) setResolvingRecipient(false);
+      }
+    }, 400);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setResolvingRecipient(false);
+    };
+  }, [sendToOther, recipientInput, address, chainId, deployments]);
+
+  // Simulate the claim again whenever what would be sent changes
+  useEffect(() => {
+    setPreflight(null);
+    if (!claimData || !address || !deployment || claimStatus?.claimed || !recipientReady || claimInFlight) return;
+    
+    let cancelled = false;
+    setCheckingClaim(true);
+    runPreflight(sendToOther && recipient ? recipient.address : address).then(result => {
+      if (cancelled) return;
+      setPreflight(result);
+      setCheckingClaim(false);
+    });
+    
+    return () => {
+      cancelled = true;
+      setCheckingClaim(false);
+    };
+  }, [claimData, claimStatus, address, chainId, deployments, walletProvider, safeInfo, sendToOther, recipient, recipientReady, claimInFlight]);
 
   // Helper functions
   const formatTimeRemaining = (endTime: number) => {
@@ -219,12 +590,23 @@ export default function AirdropClaimPage() {
     return `${days}d ${hours}h remaining`;
   };
 
+  // Amounts show once the token is known, e.g. "1250.5 PCRYPT"
+  const formatAmount = (wei: string) => (token ? formatTokens(token, BigInt(wei)) : '…');
+
+  const formatGasCost = (wei: bigint) =>
+    parseFloat(ethers.formatEther(wei)).toLocaleString(undefined, { maximumSignificantDigits: 3 });
+
   const getClaimButtonText = () => {
+    if (tracking?.status === 'confirming') return `Confirming ${tracking.confirmations}/${CLAIM_CONFIRMATIONS}...`;
     if (loading) return 'Claiming...';
     if (claimStatus?.claimed) return 'Already Claimed';
     if (!claimData) return 'Not Eligible';
+    if (!deployment) return 'Switch Network to Claim';
     if (!airdropStats?.isActive) return 'Claim Period Ended';
-    return `Claim ${ethers.formatEther(claimData.amount)} PCRYPT`;
+    if (!recipientReady) return recipient ? 'Confirm Recipient to Claim' : 'Enter a Valid Recipient';
+    if (checkingClaim) return 'Checking Claim...';
+    if (preflight?.blocker) return preflight.blocker.title;
+    return `Claim ${formatAmount(claimData.amount)}`;
   };
 
   return (
@@ -254,6 +636,44 @@ export default function AirdropClaimPage() {
           </p>
         </div>
 
+        {/* Airdrop Stats */}
+        {airdropStats && (
+          <div className="backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl shadow-2xl p-8 mb-8 transform transition-all duration-300">
+            <h2 className="text-2xl font-bold mb-6 text-white flex items-center">
+              <svg className="w-6 h-6 mr-2" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+              </svg>
+              Airdrop Statistics
+            </h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              <div className="text-center p-4 rounded-xl bg-gradient-to-br from-blue-500/20 to-blue-600/20 border border-blue-400/30 transform transition-all duration-300 hover:scale-105">
+                <div className="text-3xl font-bold text-blue-300 mb-1">
+                  {parseFloat(airdropStats.totalClaimable).toLocaleString()}
+                </div>
+                <div className="text-sm text-gray-300 font-medium">Total Available</div>
+              </div>
+              <div className="text-center p-4 rounded-xl bg-gradient-to-br from-green-500/20 to-green-600/20 border border-green-400/30 transform transition-all duration-300 hover:scale-105">
+                <div className="text-3xl font-bold text-green-300 mb-1">
+                  {parseFloat(airdropStats.totalClaimed).toLocaleString()}
+                </div>
+                <div className="text-sm text-gray-300 font-medium">Claimed</div>
+              </div>
+              <div className="text-center p-4 rounded-xl bg-gradient-to-br from-orange-500/20 to-orange-600/20 border border-orange-400/30 transform transition-all duration-300 hover:scale-105">
+                <div className="text-3xl font-bold text-orange-300 mb-1">
+                  {parseFloat(airdropStats.remainingTokens).toLocaleString()}
+                </div>
+                <div className="text-sm text-gray-300 font-medium">Remaining</div>
+              </div>
+              <div className="text-center p-4 rounded-xl bg-gradient-to-br from-purple-500/20 to-purple-600/20 border border-purple-400/30 transform transition-all duration-300 hover:scale-105">
+                <div className="text-lg font-bold text-purple-300 mb-1">
+                  {formatTimeRemaining(airdropStats.claimPeriodEnd)}
+                </div>
+                <div className="text-sm text-gray-300 font-medium">Time Left</div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Connection Status */}
         {!isConnected ? (
           <div className="backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl shadow-2xl p-12 text-center mb-8 transform transition-all duration-300 hover:scale-105">
@@ -279,44 +699,6 @@ export default function AirdropClaimPage() {
           </div>
         ) : (
           <>
-            {/* Airdrop Stats */}
-            {airdropStats && (
-              <div className="backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl shadow-2xl p-8 mb-8 transform transition-all duration-300">
-                <h2 className="text-2xl font-bold mb-6 text-white flex items-center">
-                  <svg className="w-6 h-6 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                    <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
-                  </svg>
-                  Airdrop Statistics
-                </h2>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
-                  <div className="text-center p-4 rounded-xl bg-gradient-to-br from-blue-500/20 to-blue-600/20 border border-blue-400/30 transform transition-all duration-300 hover:scale-105">
-                    <div className="text-3xl font-bold text-blue-300 mb-1">
-                      {parseFloat(airdropStats.totalClaimable).toLocaleString()}
-                    </div>
-                    <div className="text-sm text-gray-300 font-medium">Total Available</div>
-                  </div>
-                  <div className="text-center p-4 rounded-xl bg-gradient-to-br from-green-500/20 to-green-600/20 border border-green-400/30 transform transition-all duration-300 hover:scale-105">
-                    <div className="text-3xl font-bold text-green-300 mb-1">
-                      {parseFloat(airdropStats.totalClaimed).toLocaleString()}
-                    </div>
-                    <div className="text-sm text-gray-300 font-medium">Claimed</div>
-                  </div>
-                  <div className="text-center p-4 rounded-xl bg-gradient-to-br from-orange-500/20 to-orange-600/20 border border-orange-400/30 transform transition-all duration-300 hover:scale-105">
-                    <div className="text-3xl font-bold text-orange-300 mb-1">
-                      {parseFloat(airdropStats.remainingTokens).toLocaleString()}
-                    </div>
-                    <div className="text-sm text-gray-300 font-medium">Remaining</div>
-                  </div>
-                  <div className="text-center p-4 rounded-xl bg-gradient-to-br from-purple-500/20 to-purple-600/20 border border-purple-400/30 transform transition-all duration-300 hover:scale-105">
-                    <div className="text-lg font-bold text-purple-300 mb-1">
-                      {formatTimeRemaining(airdropStats.claimPeriodEnd)}
-                    </div>
-                    <div className="text-sm text-gray-300 font-medium">Time Left</div>
-                  </div>
-                </div>
-              </div>
-            )}
-
             {/* Claim Section */}
             <div className="backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl shadow-2xl p-8 transform transition-all duration-300">
               <h2 className="text-3xl font-bold mb-8 text-white flex items-center">
@@ -336,12 +718,35 @@ export default function AirdropClaimPage() {
                   <div className="flex items-center space-x-2">
                     <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-500/20 text-green-300 border border-green-400/30">
                       <span className="w-2 h-2 bg-green-400 rounded-full mr-2 animate-pulse"></span>
-                      {chainId === 8453 ? 'Base Network' : `Chain ${chainId}`}
+                      {walletChain ? `${walletChain.name} Network` : `Chain ${chainId}`}
                     </span>
                   </div>
                 </div>
               </div>
 
+              {/* Network Switch */}
+              {deployments && !deployment && (
+                <div className="bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-400/40 rounded-xl p-5 mb-6">
+                  <h3 className="text-lg font-bold text-yellow-300 mb-1">Switch Network</h3>
+                  <p className="text-yellow-100 text-sm mb-3">
+                    {deployments.length > 0
+                      ? `The airdrop is not available on ${walletChain?.name ?? `chain ${chainId}`}. Switch your wallet to claim.`
+                      : 'The airdrop has not been deployed yet. Check back soon.'}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {deployments.map(({ chain }) => (
+                      <button
+                        key={chain.chainId}
+                        onClick={() => switchNetwork(chain)}
+                        className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-yellow-600/70 hover:bg-yellow-500/80 transition-colors"
+                      >
+                        Switch to {chain.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Eligibility Status */}
               {claimData ? (
                 <div className="bg-gradient-to-r from-green-500/20 to-emerald-500/20 border border-green-400/40 rounded-xl p-5 mb-6 transform transition-all duration-300 hover:scale-[1.02]">
@@ -354,7 +759,7 @@ export default function AirdropClaimPage() {
                     <div className="ml-3">
                       <h3 className="text-lg font-bold text-green-300 mb-1">Congratulations! You're Eligible</h3>
                       <p className="text-green-200">
-                        You can claim <span className="font-bold text-xl text-green-100">{ethers.formatEther(claimData.amount)} PCRYPT</span> tokens
+                        You can claim <span className="font-bold text-xl text-green-100">{formatAmount(claimData.amount)}</span> tokens
                       </p>
                     </div>
                   </div>
@@ -389,16 +794,108 @@ export default function AirdropClaimPage() {
                     <div className="ml-3">
                       <h3 className="text-lg font-bold text-blue-300 mb-1">Already Claimed</h3>
                       <p className="text-blue-200">
-                        You have successfully claimed <span className="font-bold text-blue-100">{claimStatus.amount} PCRYPT</span> tokens
+                        You have successfully claimed <span className="font-bold text-blue-100">{formatAmount(claimStatus.amount)}</span> tokens
                       </p>
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Recipient */}
+              {claimData && !claimStatus?.claimed && (
+                <div className="bg-gradient-to-r from-indigo-500/10 to-purple-500/10 rounded-xl p-5 mb-6 border border-indigo-400/20">
+                  <label className="flex items-center text-gray-200 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mr-3 w-4 h-4 accent-purple-500"
+                      checked={sendToOther}
+                      onChange={(e) => setSendToOther(e.target.checked)}
+                      disabled={loading}
+                    />
+                    Send tokens to a different address
+                  </label>
+                  
+                  {sendToOther && (
+                    <div className="mt-4 space-y-3">
+                      <input
+                        type="text"
+                        value={recipientInput}
+                        onChange={(e) => setRecipientInput(e.target.value)}
+                        placeholder="0x… or name.eth"
+                        spellCheck={false}
+                        autoComplete="off"
+                        disabled={loading}
+                        className="w-full px-4 py-3 rounded-lg bg-black/30 border border-white/20 text-white font-mono text-sm placeholder-gray-500 focus:outline-none focus:border-purple-400"
+                      />
+                      {resolvingRecipient && (
+                        <p className="text-sm text-gray-300">Checking recipient…</p>
+                      )}
+                      {recipientError && (
+                        <p className="text-sm text-red-300">{recipientError}</p>
+                      )}
+                      {recipient && (
+                        <p className="text-sm text-gray-300">
+                          Tokens will be sent to <span className="font-mono text-white break-all">{recipient.address}</span>
+                          {recipient.ensName && <> ({recipient.ensName})</>}
+                        </p>
+                      )}
+                      {recipient && recipient.warnings.length > 0 && (
+                        <div className="bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-400/40 rounded-lg p-4">
+                          <ul className="text-sm text-yellow-200 space-y-1 mb-3">
+                            {recipient.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                          </ul>
+                          <label className="flex items-start text-sm text-yellow-100 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              className="mr-3 mt-0.5 w-4 h-4 accent-yellow-500"
+                              checked={recipientConfirmed}
+                              onChange={(e) => setRecipientConfirmed(e.target.checked)}
+                              disabled={loading}
+                            />
+                            I have checked this address and it can receive {token?.tokenSymbol ?? 'these tokens'}. Claims cannot be reversed.
+                          </label>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Safe multisig */}
+              {safeInfo && claimData && !claimStatus?.claimed && (
+                <div className="bg-gradient-to-r from-teal-500/20 to-cyan-500/20 border border-teal-400/40 rounded-xl p-5 mb-6">
+                  <h3 className="text-lg font-bold text-teal-300 mb-1">Safe Multisig Detected</h3>
+                  <p className="text-teal-100 text-sm mb-3">
+                    This wallet is a Safe {safeInfo.version} that needs {safeInfo.threshold} of {safeInfo.owners.length} owner signatures.
+                    Download the claim as a Transaction Builder batch, import it in Safe&#123;Wallet&#125; under Apps &gt; Transaction Builder,
+                    then collect the signatures.
+                    {sendToOther && recipientReady && recipient && ' The batch sends the tokens to the recipient above.'}
+                  </p>
+                  <button
+                    onClick={downloadSafeBatch}
+                    className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-teal-600/70 hover:bg-teal-500/80 transition-colors"
+                  >
+                    Download Safe Transaction JSON
+                  </button>
+                </div>
+              )}
+
+              {/* Pre-flight Check */}
+              {preflight?.blocker && !error && (
+                <div className="bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-400/40 rounded-xl p-5 mb-6">
+                  <h3 className="text-lg font-bold text-yellow-300 mb-1">{preflight.blocker.title}</h3>
+                  <p className="text-yellow-100 text-sm">
+                    We simulated your claim and it would be rejected, so it was not sent. {preflight.blocker.message}
+                  </p>
+                  {preflight.blocker.action && (
+                    <p className="text-yellow-50 text-sm font-medium mt-2">{preflight.blocker.action}</p>
+                  )}
+                </div>
+              )}
+
               {/* Error Display */}
               {error && (
-                <div className="bg-gradient-to-r from-red-500/20 to-orange-500/20 border border-red-400/40 rounded-xl p-5 mb-6 animate-shake">
+                <div className={`bg-gradient-to-r from-red-500/20 to-orange-500/20 border border-red-400/40 rounded-xl p-5 mb-6 ${error.kind === 'rejected' ? '' : 'animate-shake'}`}>
                   <div className="flex items-start">
                     <div className="flex-shrink-0">
                       <svg className="w-6 h-6 text-red-400" fill="currentColor" viewBox="0 0 20 20">
@@ -406,41 +903,70 @@ export default function AirdropClaimPage() {
                       </svg>
                     </div>
                     <div className="ml-3">
-                      <h3 className="text-lg font-bold text-red-300 mb-1">Transaction Failed</h3>
-                      <p className="text-red-200 text-sm">{error}</p>
+                      <h3 className="text-lg font-bold text-red-300 mb-1">{error.title}</h3>
+                      <p className="text-red-200 text-sm">{error.message}</p>
+                      {error.action && (
+                        <p className="text-red-100 text-sm font-medium mt-2">{error.action}</p>
+                      )}
                     </div>
                   </div>
                 </div>
               )}
 
-              {/* Transaction Hash */}
-              {txHash && (
+              {/* Transaction Status */}
+              {trackedClaim && !claimFailed && (
                 <div className="bg-gradient-to-r from-green-500/20 to-teal-500/20 border border-green-400/40 rounded-xl p-5 mb-6 animate-slide-up">
                   <div className="flex items-start">
                     <div className="flex-shrink-0">
-                      <svg className="w-6 h-6 text-green-400 animate-bounce" fill="currentColor" viewBox="0 0 20 20">
+                      <svg className={`w-6 h-6 text-green-400 ${claimInFlight ? 'animate-bounce' : ''}`} fill="currentColor" viewBox="0 0 20 20">
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                       </svg>
                     </div>
                     <div className="ml-3 flex-1">
-                      <h3 className="text-lg font-bold text-green-300 mb-1">Transaction Submitted!</h3>
-                      <p className="text-green-200 text-sm mb-2">Your claim is being processed on the blockchain</p>
-                      <a 
-                        href={`https://basescan.org/tx/${txHash}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="inline-flex items-center text-sm font-medium text-green-300 hover:text-green-100 transition-colors"
-                      >
-                        View on BaseScan
-                        <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                        </svg>
-                      </a>
+                      <h3 className="text-lg font-bold text-green-300 mb-1">
+                        {tracking?.status === 'confirmed' ? 'Claim Confirmed!' : 'Transaction Submitted!'}
+                      </h3>
+                      <p className="text-green-200 text-sm mb-2">
+                        {trackedClaim.relayed
+                          ? 'Your claim was submitted by the PayCrypt relayer, no gas needed'
+                          : 'Your claim is being processed on the blockchain'}
+                        {trackedClaim.recipient !== trackedClaim.claimer && (
+                          <> Tokens are being sent to <span className="font-mono break-all">{trackedClaim.recipient}</span>.</>
+                        )}
+                      </p>
+                      <p className="text-green-100 text-sm font-medium mb-2">
+                        {tracking?.status === 'confirming'
+                          ? `${tracking.confirmations} of ${CLAIM_CONFIRMATIONS} confirmations`
+                          : tracking?.status === 'confirmed'
+                            ? 'Confirmed on-chain'
+                            : 'Waiting for the transaction to be mined...'}
+                        {tracking?.replaced && ' The transaction was sped up or resubmitted, so the page is following the new one.'}
+                      </p>
+                      {claimExplorerUrl && (
+                        <a 
+                          href={claimExplorerUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-sm font-medium text-green-300 hover:text-green-100 transition-colors"
+                        >
+                          View on {getChainConfig(trackedClaim.chainId)?.explorerName}
+                          <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                          </svg>
+                        </a>
+                      )}
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Estimated Gas */}
+              {preflight?.gasCost !== undefined && !loading && (
+                <p className="text-sm text-gray-300 text-center mb-3">
+                  Estimated network fee: ~{formatGasCost(preflight.gasCost)} {walletChain?.currency ?? 'ETH'}
+                </p>
+              )}
+
               {/* Claim Button */}
               <button
                 onClick={claimTokens}
@@ -448,13 +974,21 @@ export default function AirdropClaimPage() {
                   loading || 
                   !claimData || 
                   claimStatus?.claimed || 
-                  !airdropStats?.isActive
+                  !airdropStats?.isActive ||
+                  !recipientReady ||
+                  !deployment ||
+                  checkingClaim ||
+                  !!preflight?.blocker
                 }
                 className={`w-full py-5 px-8 rounded-xl font-bold text-lg text-white transition-all duration-300 transform ${
                   loading || 
                   !claimData || 
                   claimStatus?.claimed || 
-                  !airdropStats?.isActive
+                  !airdropStats?.isActive ||
+                  !recipientReady ||
+                  !deployment ||
+                  checkingClaim ||
+                  !!preflight?.blocker
                     ? 'bg-gray-600/50 cursor-not-allowed backdrop-blur-sm'
                     : 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 hover:scale-[1.02] hover:shadow-2xl hover:shadow-purple-500/50 active:scale-95'
                 }`}
@@ -479,7 +1013,9 @@ export default function AirdropClaimPage() {
                 <ol className="space-y-3 text-gray-200">
                   <li className="flex items-start">
                     <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-500/30 text-blue-300 text-sm font-bold mr-3 mt-0.5">1</span>
-                    <span>Make sure you're connected to the Base network</span>
+                    <span>
+                      Make sure you're connected to the {claimNetworks} network
+                    </span>
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-500/30 text-blue-300 text-sm font-bold mr-3 mt-0.5">2</span>
@@ -487,7 +1023,11 @@ export default function AirdropClaimPage() {
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-500/30 text-blue-300 text-sm font-bold mr-3 mt-0.5">3</span>
-                    <span>Click the claim button and confirm the transaction in your wallet</span>
+                    <span>
+                      {RELAYER_URL
+                        ? 'Click the claim button and sign the claim message in your wallet (no ETH needed for gas)'
+                        : 'Click the claim button and confirm the transaction in your wallet'}
+                    </span>
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-500/30 text-blue-300 text-sm font-bold mr-3 mt-0.5">4</span>
@@ -495,13 +1035,83 @@ export default function AirdropClaimPage() {
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full bg-blue-500/30 text-blue-300 text-sm font-bold mr-3 mt-0.5">5</span>
-                    <span>PCRYPT tokens will appear in your wallet automatically</span>
+                    <span>Claimed tokens will appear in your wallet automatically</span>
                   </li>
                 </ol>
               </div>
             </div>
           </>
         )}
+
+        {/* Eligibility Checker */}
+        <div className="backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl shadow-2xl p-8 mt-8">
+          <h2 className="text-2xl font-bold mb-2 text-white">Check Any Address</h2>
+          <p className="text-gray-300 mb-6">
+            See whether an address is eligible and whether it has claimed, no wallet needed. Claiming still requires connecting that wallet.
+          </p>
+          <form
+            className="flex flex-col sm:flex-row gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              lookUpAddress(lookupInput);
+            }}
+          >
+            <input
+              type="text"
+              value={lookupInput}
+              onChange={(e) => setLookupInput(e.target.value)}
+              placeholder="0x… or name.eth"
+              spellCheck={false}
+              autoComplete="off"
+              className="flex-1 px-4 py-3 rounded-lg bg-black/30 border border-white/20 text-white font-mono text-sm placeholder-gray-500 focus:outline-none focus:border-purple-400"
+            />
+            <button
+              type="submit"
+              disabled={lookingUp || !lookupInput.trim() || !deployments}
+              className="px-6 py-3 rounded-lg font-semibold text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {lookingUp ? 'Checking...' : 'Check Eligibility'}
+            </button>
+          </form>
+          
+          {lookupError && (
+            <p className="text-sm text-red-300 mt-4">{lookupError}</p>
+          )}
+          
+          {lookup && (
+            <div className={`mt-6 rounded-xl p-5 border animate-fade-in ${
+              lookup.claim
+                ? 'bg-gradient-to-r from-green-500/20 to-emerald-500/20 border-green-400/40'
+                : 'bg-gradient-to-r from-red-500/20 to-pink-500/20 border-red-400/40'
+            }`}>
+              <p className="font-mono text-sm text-white break-all mb-2">
+                {lookup.address}
+                {lookup.ensName && <span className="text-gray-300"> ({lookup.ensName})</span>}
+              </p>
+              {lookup.claim ? (
+                <>
+                  <h3 className="text-lg font-bold text-green-300 mb-1">
+                    Eligible for {formatAmount(lookup.claim.amount)} on {lookup.network}
+                  </h3>
+                  {lookup.claim.reason && (
+                    <p className="text-green-200 text-sm mb-1">Reason: {lookup.claim.reason}</p>
+                  )}
+                  <p className="text-green-100 text-sm">
+                    {!lookup.status
+                      ? 'The on-chain claim status could not be loaded right now.'
+                      : lookup.status.claimed
+                        ? `Already claimed ${formatAmount(lookup.status.amount)}.`
+                        : lookup.status.canStillClaim
+                          ? 'Not claimed yet. Connect this wallet to claim.'
+                          : 'Not claimed, and claims are closed.'}
+                  </p>
+                </>
+              ) : (
+                <h3 className="text-lg font-bold text-red-300">Not eligible for this airdrop</h3>
+              )}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
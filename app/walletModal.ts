@@ -0,0 +1,35 @@
+"use client"
+
+import { createWeb3Modal, defaultConfig } from '@web3modal/ethers/react';
+import { DEFAULT_CHAIN_ID, SUPPORTED_CHAINS } from '../lib/chains';
+
+// Web3Modal setup, imported by every page that connects a wallet
+const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'demo';
+
+const metadata = {
+  name: 'PayCrypt Airdrop',
+  description: 'Claim your PayCrypt tokens',
+  url: 'https://paycrypt.com',
+  icons: ['/paycrypt-logo.png']
+};
+
+const ethersConfig = defaultConfig({
+  metadata,
+  enableEIP6963: true,
+  enableInjected: true,
+  enableCoinbase: true,
+  defaultChainId: DEFAULT_CHAIN_ID
+});
+
+createWeb3Modal({
+  ethersConfig,
+  chains: SUPPORTED_CHAINS.map(({ chainId, name, currency, explorerUrl, rpcUrl }) => ({
+    chainId,
+    name,
+    currency,
+    explorerUrl,
+    rpcUrl
+  })),
+  projectId,
+  enableAnalytics: true
+});
@@ -4,19 +4,26 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 
 /**
  * @title PayCryptAirdrop
  * @dev Merkle tree-based airdrop contract for efficient token distribution
  * Supports multiple claim rounds and anti-gaming mechanisms
+ * Claims can be submitted by a relayer with an EIP-712 signature from the claimer
  */
-contract PayCryptAirdrop is Ownable, ReentrancyGuard {
+contract PayCryptAirdrop is Ownable, ReentrancyGuard, EIP712, Nonces {
     using SafeERC20 for IERC20;
     
     // ============ State Variables ============
     
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256("Claim(address claimer,address recipient,uint256 amount,uint256 nonce,uint256 deadline)");
+    
     IERC20 public immutable token;
     bytes32 public merkleRoot;
     uint256 public claimPeriodEnd;
@@ -35,6 +42,12 @@ contract PayCryptAirdrop is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
     
+    event TokensRedirected(
+        address indexed claimer,
+        address indexed recipient,
+        uint256 amount
+    );
+    
     event AirdropUpdated(
         bytes32 newMerkleRoot,
         uint256 newClaimPeriodEnd,
@@ -55,6 +68,9 @@ contract PayCryptAirdrop is Ownable, ReentrancyGuard {
     error InvalidAmount();
     error InsufficientTokens();
     error ZeroAddress();
+    error SignatureExpired();
+    error InvalidSignature();
+    error InvalidRecipient();
     
     // ============ Constructor ============
     
@@ -63,7 +79,7 @@ contract PayCryptAirdrop is Ownable, ReentrancyGuard {
         bytes32 _merkleRoot,
         uint256 _claimPeriodEnd,
         uint256 _totalClaimable
-    ) {
+    ) Ownable(msg.sender) EIP712("PayCryptAirdrop", "1") {
         if (_token == address(0)) revert ZeroAddress();
         if (_claimPeriodEnd <= block.timestamp) revert ClaimPeriodEnded();
         
@@ -84,31 +100,60 @@ contract PayCryptAirdrop is Ownable, ReentrancyGuard {
         uint256 amount,
         bytes32[] calldata merkleProof
     ) external nonReentrant {
-        // Validation checks
-        if (block.timestamp > claimPeriodEnd) revert ClaimPeriodEnded();
-        if (hasClaimed[msg.sender]) revert AlreadyClaimed();
-        if (amount == 0) revert InvalidAmount();
-        
-        // Verify merkle proof
-        bytes32 leaf = keccak256(abi.encodePacked(msg.sender, amount));
-        if (!MerkleProof.verify(merkleProof, merkleRoot, leaf)) {
-            revert InvalidProof();
-        }
+        _claim(msg.sender, msg.sender, amount, merkleProof);
+    }
+    
+    /**
+     * @dev Claim the caller's tokens and send them to another address
+     * @param recipient Address that receives the tokens
+     * @param amount Amount of tokens to claim
+     * @param merkleProof Proof that the caller is eligible
+     */
+    function claimTokensTo(
+        address recipient,
+        uint256 amount,
+        bytes32[] calldata merkleProof
+    ) external nonReentrant {
+        _claim(msg.sender, recipient, amount, merkleProof);
+    }
+    
+    /**
+     * @dev Claim tokens for a claimer who signed an EIP-712 Claim message.
+     * Anyone may submit it and pay the gas; tokens go to the recipient the claimer signed for.
+     * @param claimer Eligible address that signed the claim
+     * @param recipient Address that receives the tokens
+     * @param amount Amount of tokens to claim
+     * @param merkleProof Proof that the claimer is eligible
+     * @param deadline Timestamp after which the signature is no longer accepted
+     * @param signature Claimer's signature over Claim(claimer, recipient, amount, nonce, deadline)
+     */
+    function claimTokensWithSignature(
+        address claimer,
+        address recipient,
+        uint256 amount,
+        bytes32[] calldata merkleProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant {
+        if (block.timestamp > deadline) revert SignatureExpired();
         
-        // Check if enough tokens available
-        if (totalClaimed + amount > totalClaimable) {
-            revert InsufficientTokens();
+        // Consuming the nonce makes every signature single-use
+        bytes32 structHash = keccak256(
+            abi.encode(CLAIM_TYPEHASH, claimer, recipient, amount, _useNonce(claimer), deadline)
+        );
+        (address signer, ECDSA.RecoverError recoverError, ) = ECDSA.tryRecover(_hashTypedDataV4(structHash), signature);
+        if (recoverError != ECDSA.RecoverError.NoError || signer != claimer) {
+            revert InvalidSignature();
         }
         
-        // Update state
-        hasClaimed[msg.sender] = true;
-        claimedAmount[msg.sender] = amount;
-        totalClaimed += amount;
-        
-        // Transfer tokens
-        token.safeTransfer(msg.sender, amount);
-        
-        emit TokensClaimed(msg.sender, amount, block.timestamp);
+        _claim(claimer, recipient, amount, merkleProof);
+    }
+    
+    /**
+     * @dev Invalidate the caller's outstanding signed claims
+     */
+    function invalidateNonce() external {
+        _useNonce(msg.sender);
     }
     
     /**
@@ -181,6 +226,50 @@ contract PayCryptAirdrop is Ownable, ReentrancyGuard {
         _isActive = block.timestamp <= claimPeriodEnd;
     }
     
+    // ============ Internal Functions ============
+    
+    /**
+     * @dev Verify a claim for the given address and pay it out to the recipient
+     */
+    function _claim(
+        address claimer,
+        address recipient,
+        uint256 amount,
+        bytes32[] calldata merkleProof
+    ) internal {
+        // Validation checks
+        if (recipient == address(0) || recipient == address(this) || recipient == address(token)) {
+            revert InvalidRecipient();
+        }
+        if (block.timestamp > claimPeriodEnd) revert ClaimPeriodEnded();
+        if (hasClaimed[claimer]) revert AlreadyClaimed();
+        if (amount == 0) revert InvalidAmount();
+        
+        // Verify merkle proof
+        bytes32 leaf = keccak256(abi.encodePacked(claimer, amount));
+        if (!MerkleProof.verify(merkleProof, merkleRoot, leaf)) {
+            revert InvalidProof();
+        }
+        
+        // Check if enough tokens available
+        if (totalClaimed + amount > totalClaimable) {
+            revert InsufficientTokens();
+        }
+        
+        // Update state
+        hasClaimed[claimer] = true;
+        claimedAmount[claimer] = amount;
+        totalClaimed += amount;
+        
+        // Transfer tokens
+        token.safeTransfer(recipient, amount);
+        
+        emit TokensClaimed(claimer, amount, block.timestamp);
+        if (recipient != claimer) {
+            emit TokensRedirected(claimer, recipient, amount);
+        }
+    }
+    
     // ============ Owner Functions ============
     
     /**
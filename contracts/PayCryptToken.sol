@@ -4,7 +4,7 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 
 /**
  * @title PayCryptToken
@@ -50,7 +50,7 @@ contract PayCryptToken is ERC20, ERC20Burnable, Ownable, Pausable {
     
     // ============ Constructor ============
     
-    constructor() ERC20("PayCrypt Token", "PCRYPT") {
+    constructor() ERC20("PayCrypt Token", "PCRYPT") Ownable(msg.sender) {
         teamVestingStart = block.timestamp;
         
         // Mint initial allocations
@@ -256,12 +256,12 @@ contract PayCryptToken is ERC20, ERC20Burnable, Ownable, Pausable {
     /**
      * @dev Override transfer to add pause functionality
      */
-    function _beforeTokenTransfer(
+    function _update(
         address from,
         address to,
-        uint256 amount
+        uint256 value
     ) internal override whenNotPaused {
-        super._beforeTokenTransfer(from, to, amount);
+        super._update(from, to, value);
     }
     
     /**
@@ -0,0 +1,47 @@
+import { HardhatUserConfig } from 'hardhat/config';
+import '@nomicfoundation/hardhat-toolbox';
+
+// Deployer key and RPC endpoints come from the environment
+const accounts = process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [];
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: '0.8.26',
+    settings: {
+      optimizer: { enabled: true, runs: 200 }
+    }
+  },
+  networks: {
+    localhost: {
+      url: process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545'
+    },
+    base: {
+      url: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
+      chainId: 8453,
+      accounts
+    },
+    'base-testnet': {
+      url: process.env.BASE_TESTNET_RPC_URL || 'https://sepolia.base.org',
+      chainId: 84532,
+      accounts
+    }
+  },
+  etherscan: {
+    apiKey: {
+      base: process.env.BASESCAN_API_KEY || '',
+      'base-testnet': process.env.BASESCAN_API_KEY || ''
+    },
+    customChains: [
+      {
+        network: 'base-testnet',
+        chainId: 84532,
+        urls: {
+          apiURL: 'https://api-sepolia.basescan.org/api',
+          browserURL: 'https://sepolia.basescan.org'
+        }
+      }
+    ]
+  }
+};
+
+export default config;
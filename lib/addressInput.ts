@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+
+// Types
+export interface ResolvedAddress {
+  address: string; // Checksummed
+  ensName?: string; // Set when the input was an ENS name
+}
+
+export class AddressInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AddressInputError';
+  }
+}
+
+// ENS lives on Ethereum mainnet whatever chain the claim happens on
+const ENS_RPC_URL = process.env.NEXT_PUBLIC_ENS_RPC_URL || 'https://ethereum-rpc.publicnode.com';
+
+let ensProvider: ethers.JsonRpcProvider | null = null;
+
+function getEnsProvider(): ethers.JsonRpcProvider {
+  if (!ensProvider) {
+    ensProvider = new ethers.JsonRpcProvider(ENS_RPC_URL, 1, { staticNetwork: true });
+  }
+  return ensProvider;
+}
+
+/**
+ * Check the shape of user input without looking anything up: a checksummed
+ * address, or a normalized ENS name still to be resolved.
+ * Throws AddressInputError with a message suitable for showing next to the field.
+ */
+export function parseAddressInput(input: string): { address: string } | { ensName: string } {
+  const value = input.trim();
+  if (!value) throw new AddressInputError('Enter an address or ENS name');
+
+  if (/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    // Mixed-case input carries a checksum; a mismatch usually means a typo
+    try {
+      return { address: ethers.getAddress(value) };
+    } catch {
+      throw new AddressInputError('Address checksum does not match, check it for typos');
+    }
+  }
+  if (value.startsWith('0x') || !value.includes('.') || /\s/.test(value)) {
+    throw new AddressInputError('Not a valid address or ENS name');
+  }
+
+  try {
+    return { ensName: ethers.ensNormalize(value) };
+  } catch {
+    throw new AddressInputError(`"${value}" is not a valid ENS name`);
+  }
+}
+
+/**
+ * Turn user input (an address or an ENS name) into a checksummed address.
+ * Throws AddressInputError with a message suitable for showing next to the field.
+ */
+export async function resolveAddressInput(input: string): Promise<ResolvedAddress> {
+  const parsed = parseAddressInput(input);
+  if ('address' in parsed) return parsed;
+
+  const name = parsed.ensName;
+  let address: string | null;
+  try {
+    address = await getEnsProvider().resolveName(name);
+  } catch {
+    throw new AddressInputError(`Could not look up ${name}, try again or paste the address`);
+  }
+  if (!address) throw new AddressInputError(`${name} does not point to an address`);
+  return { address, ensName: name };
+}
@@ -0,0 +1,204 @@
+import { ethers } from 'ethers';
+import { CampaignSummary } from './campaigns';
+
+// Types
+export interface AirdropState {
+  contractAddress: string;
+  owner: string;
+  token: string;
+  tokenSymbol: string;
+  decimals: number;
+  merkleRoot: string;
+  claimPeriodEnd: number; // Unix seconds
+  totalClaimable: bigint;
+  totalClaimed: bigint;
+  balance: bigint; // Tokens the contract holds
+}
+
+export interface AirdropUpdate {
+  merkleRoot: string;
+  claimPeriodEnd: number; // Unix seconds
+  totalClaimable: bigint;
+}
+
+// What an owner action would do; the action is only offered without problems
+export interface AdminActionReview {
+  problems: string[];
+  warnings: string[];
+  effects: string[];
+  campaign?: CampaignSummary; // Generated campaign the new root belongs to
+}
+
+export const AIRDROP_ADMIN_ABI = [
+  'function owner() external view returns (address)',
+  'function token() external view returns (address)',
+  'function merkleRoot() external view returns (bytes32)',
+  'function claimPeriodEnd() external view returns (uint256)',
+  'function totalClaimable() external view returns (uint256)',
+  'function totalClaimed() external view returns (uint256)',
+  'function updateAirdrop(bytes32 _merkleRoot, uint256 _claimPeriodEnd, uint256 _totalClaimable) external',
+  'function extendClaimPeriod(uint256 newEndTime) external',
+  'function emergencyWithdraw() external'
+];
+
+const TOKEN_ABI = [
+  'function balanceOf(address account) external view returns (uint256)',
+  'function symbol() external view returns (string)',
+  'function decimals() external view returns (uint8)'
+];
+
+const DAY_SECONDS = 86400;
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+/**
+ * Everything the admin console shows about a deployed airdrop
+ */
+export async function readAirdropState(provider: ethers.Provider, contractAddress: string): Promise<AirdropState> {
+  const airdrop = new ethers.Contract(contractAddress, AIRDROP_ADMIN_ABI, provider);
+  const [owner, token, merkleRoot, claimPeriodEnd, totalClaimable, totalClaimed] = await Promise.all([
+    airdrop.owner(),
+    airdrop.token(),
+    airdrop.merkleRoot(),
+    airdrop.claimPeriodEnd(),
+    airdrop.totalClaimable(),
+    airdrop.totalClaimed()
+  ]);
+
+  const erc20 = new ethers.Contract(token, TOKEN_ABI, provider);
+  const [balance, tokenSymbol, decimals] = await Promise.all([
+    erc20.balanceOf(contractAddress),
+    erc20.symbol(),
+    erc20.decimals()
+  ]);
+
+  return {
+    contractAddress: ethers.getAddress(contractAddress),
+    owner,
+    token,
+    tokenSymbol,
+    decimals: Number(decimals),
+    merkleRoot,
+    claimPeriodEnd: Number(claimPeriodEnd),
+    totalClaimable,
+    totalClaimed,
+    balance
+  };
+}
+
+/**
+ * Tokens still owed to eligible users who have not claimed
+ */
+export function getOutstanding(state: Pick<AirdropState, 'totalClaimable' | 'totalClaimed'>): bigint {
+  return state.totalClaimable > state.totalClaimed ? state.totalClaimable - state.totalClaimed : 0n;
+}
+
+/**
+ * Total to pass to updateAirdrop for a campaign. totalClaimed carries over
+ * between roots, so a new round adds its total on top of what was claimed.
+ */
+export function suggestTotalClaimable(state: AirdropState, campaign: CampaignSummary): bigint {
+  if (campaign.merkleRoot.toLowerCase() === state.merkleRoot.toLowerCase()) return state.totalClaimable;
+  return state.totalClaimed + BigInt(campaign.totalTokensWei);
+}
+
+export function formatTokens(state: Pick<AirdropState, 'decimals' | 'tokenSymbol'>, amount: bigint): string {
+  const value = ethers.formatUnits(amount, state.decimals).replace(/\.0$/, '');
+  return `${value} ${state.tokenSymbol}`;
+}
+
+/**
+ * Check a new root, end time and total against the contract and the generated campaigns
+ */
+export function reviewAirdropUpdate(
+  state: AirdropState,
+  update: AirdropUpdate,
+  campaigns: CampaignSummary[],
+  chainId: number,
+  now = Math.floor(Date.now() / 1000)
+): AdminActionReview {
+  const review: AdminActionReview = { problems: [], warnings: [], effects: [] };
+
+  if (!ethers.isHexString(update.merkleRoot, 32)) {
+    review.problems.push('The Merkle root must be a 32-byte hex value');
+    return review;
+  }
+  if (!update.claimPeriodEnd || update.claimPeriodEnd <= now) {
+    review.problems.push('The claim end must be in the future');
+  }
+  if (update.totalClaimable < state.totalClaimed) {
+    review.problems.push(`Total claimable is below the ${formatTokens(state, state.totalClaimed)} already claimed`);
+  }
+
+  const root = update.merkleRoot.toLowerCase();
+  const campaign = campaigns.find(candidate => candidate.merkleRoot.toLowerCase() === root);
+  if (!campaign) {
+    review.problems.push('The root does not match any generated campaign; regenerate the data or check the root');
+  } else {
+    review.campaign = campaign;
+    if (campaign.chainId !== undefined && campaign.chainId !== chainId) {
+      review.warnings.push(`Campaign "${campaign.id}" was generated for chain ${campaign.chainId}`);
+    }
+    if (campaign.contractAddress && campaign.contractAddress.toLowerCase() !== state.contractAddress.toLowerCase()) {
+      review.warnings.push(`Campaign "${campaign.id}" is recorded as deployed to ${campaign.contractAddress}`);
+    }
+    const suggested = suggestTotalClaimable(state, campaign);
+    if (update.totalClaimable !== suggested) {
+      review.warnings.push(`Campaign "${campaign.id}" suggests a total claimable of ${formatTokens(state, suggested)}`);
+    }
+  }
+
+  const outstanding = update.totalClaimable > state.totalClaimed ? update.totalClaimable - state.totalClaimed : 0n;
+  if (state.balance < outstanding) {
+    review.warnings.push(`The contract holds ${formatTokens(state, state.balance)}, ${formatTokens(state, outstanding - state.balance)} short of what can be claimed; fund it before announcing`);
+  }
+  if (root !== state.merkleRoot.toLowerCase()) {
+    review.warnings.push('Addresses that already claimed stay marked as claimed under the new root');
+  }
+
+  review.effects.push(
+    `Merkle root: ${state.merkleRoot} -> ${update.merkleRoot}`,
+    `Claim end: ${formatDate(state.claimPeriodEnd)} -> ${formatDate(update.claimPeriodEnd)}`,
+    `Total claimable: ${formatTokens(state, state.totalClaimable)} -> ${formatTokens(state, update.totalClaimable)}`,
+    `Still to be claimed: ${formatTokens(state, getOutstanding(state))} -> ${formatTokens(state, outstanding)}`
+  );
+  return review;
+}
+
+export function reviewExtension(state: AirdropState, newEnd: number, now = Math.floor(Date.now() / 1000)): AdminActionReview {
+  const review: AdminActionReview = { problems: [], warnings: [], effects: [] };
+
+  if (!newEnd || newEnd <= state.claimPeriodEnd) {
+    review.problems.push(`The new end must be later than the current end (${formatDate(state.claimPeriodEnd)})`);
+    return review;
+  }
+  if (newEnd <= now) {
+    review.warnings.push('The new end is already in the past, so claims stay closed');
+  } else if (state.claimPeriodEnd < now) {
+    review.warnings.push('Claims are closed now; this reopens them');
+  }
+  if (state.balance < getOutstanding(state)) {
+    review.warnings.push(`The contract holds ${formatTokens(state, state.balance)}, less than the ${formatTokens(state, getOutstanding(state))} still to be claimed`);
+  }
+
+  const days = ((newEnd - state.claimPeriodEnd) / DAY_SECONDS).toFixed(1).replace(/\.0$/, '');
+  review.effects.push(`Claim end: ${formatDate(state.claimPeriodEnd)} -> ${formatDate(newEnd)} (${days} more days)`);
+  return review;
+}
+
+export function reviewWithdrawal(state: AirdropState, now = Math.floor(Date.now() / 1000)): AdminActionReview {
+  const review: AdminActionReview = { problems: [], warnings: [], effects: [] };
+
+  if (now <= state.claimPeriodEnd) {
+    review.problems.push(`Withdrawals open once the claim window closes (${formatDate(state.claimPeriodEnd)})`);
+  }
+  if (state.balance === 0n) {
+    review.problems.push('The contract holds no tokens');
+  }
+  if (getOutstanding(state) > 0n) {
+    review.warnings.push(`${formatTokens(state, getOutstanding(state))} was never claimed and can no longer be claimed once withdrawn`);
+  }
+
+  review.effects.push(`Sends ${formatTokens(state, state.balance)} to the owner ${state.owner}`);
+  return review;
+}
@@ -0,0 +1,124 @@
+import { ShardKeyType } from './proofShards';
+
+// Campaign metadata shared by the generator, tooling and the frontend.
+// Each campaign lives in <data dir>/<id>/ and is listed in <data dir>/campaigns.json.
+
+// Types
+export interface CampaignToken {
+  address?: string; // Unset until the token is known or deployed
+  symbol: string;
+  decimals: number;
+}
+
+export interface CampaignClaimWindow {
+  periodDays: number; // Claim period counted from deployment
+  end?: string; // Fixed ISO end date, takes precedence over periodDays
+}
+
+export interface CampaignDeployment {
+  chainId: number;
+  network?: string;
+  contractAddress: string;
+  tokenAddress: string;
+  deployer: string;
+  merkleRoot: string; // Root the contract was deployed with
+  totalClaimable: string; // In wei
+  claimPeriodEnd: string; // ISO date
+  deployedAt: string;
+  blockNumber: number;
+  transactionHash: string;
+  tokenTransactionHash?: string; // Set when the token was deployed alongside
+  fundingTransactionHash?: string; // Unset when funding was left to the token holder
+  updatedAt?: string; // Set when updateAirdrop moved the contract to merkleRoot
+}
+
+export interface CampaignVersion {
+  version: number;
+  merkleRoot: string;
+  totalUsers: number;
+  totalTokensWei: string;
+  generatedAt: string;
+  dir?: string; // Archived files of this version, relative to the campaign folder
+  deployment?: CampaignDeployment; // Contract still verifying this version's root when it was superseded
+}
+
+export interface CampaignMetadata {
+  id: string;
+  name: string;
+  version: number; // Incremented every time the campaign is regenerated
+  chainId?: number;
+  network?: string;
+  token: CampaignToken;
+  claimWindow: CampaignClaimWindow;
+  merkleRoot: string;
+  leafEncoding: 'packed' | 'standard';
+  totalUsers: number;
+  totalTokensWei: string;
+  proofs: { dir: string; keyType: ShardKeyType; keyLength: number };
+  generatedAt: string;
+  deployment?: CampaignDeployment; // Only set while the contract verifies merkleRoot
+  history: CampaignVersion[]; // Earlier versions, oldest first
+}
+
+export interface CampaignSummary {
+  id: string;
+  name: string;
+  version: number;
+  chainId?: number;
+  tokenSymbol: string;
+  merkleRoot: string;
+  totalUsers: number;
+  totalTokensWei: string;
+  contractAddress?: string;
+  claimEnd?: string;
+  generatedAt: string;
+}
+
+export interface CampaignIndex {
+  version: 1;
+  updatedAt: string;
+  campaigns: CampaignSummary[];
+}
+
+export const CAMPAIGN_FILE = 'campaign.json';
+export const CAMPAIGN_INDEX_FILE = 'campaigns.json';
+export const CAMPAIGN_VERSIONS_DIR = 'versions';
+export const DEFAULT_CAMPAIGN = 'default';
+export const DEFAULT_CLAIM_PERIOD_DAYS = 30;
+
+const CAMPAIGN_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+/**
+ * Whether a campaign id is safe to use as a directory name
+ */
+export function isValidCampaignId(id: string): boolean {
+  return CAMPAIGN_ID_PATTERN.test(id) && !id.includes('..');
+}
+
+/**
+ * The contract a campaign was last deployed to. After a regeneration changed
+ * the root it is only found in history, still verifying an earlier version.
+ */
+export function getLatestDeployment(campaign: CampaignMetadata): CampaignDeployment | undefined {
+  return campaign.deployment ?? [...campaign.history].reverse().find(version => version.deployment)?.deployment;
+}
+
+/**
+ * Index entry for a campaign
+ */
+export function summarizeCampaign(campaign: CampaignMetadata): CampaignSummary {
+  const deployment = getLatestDeployment(campaign);
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    version: campaign.version,
+    chainId: deployment?.chainId ?? campaign.chainId,
+    tokenSymbol: campaign.token.symbol,
+    merkleRoot: campaign.merkleRoot,
+    totalUsers: campaign.totalUsers,
+    totalTokensWei: campaign.totalTokensWei,
+    contractAddress: deployment?.contractAddress,
+    claimEnd: deployment?.claimPeriodEnd ?? campaign.claimWindow.end,
+    generatedAt: campaign.generatedAt
+  };
+}
@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import { CampaignSummary } from './campaigns';
+
+// Networks the claim page can connect to, shared by the wallet modal and
+// anything that links to a block explorer. Where the airdrop is deployed comes
+// from the campaign data unless a chain pins it through its env variables.
+
+// Types
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  currency: string;
+  rpcUrl: string;
+  explorerUrl: string;
+  explorerName: string;
+  contractAddress?: string; // Pins the airdrop deployment instead of reading it from campaign data
+  round?: string; // Campaign whose proofs are used on this chain
+  proofsUrl?: string; // Static proof shards for that campaign
+}
+
+// Where the airdrop can be claimed on one chain
+export interface AirdropDeployment {
+  chain: ChainConfig;
+  contractAddress: string;
+  round?: string; // Unset to use the proof API's default round
+  proofsUrl?: string;
+}
+
+// Next.js only inlines env variables referenced by their full name
+export const SUPPORTED_CHAINS: ChainConfig[] = [
+  {
+    chainId: 8453,
+    name: 'Base',
+    currency: 'ETH',
+    rpcUrl: process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://base-rpc.publicnode.com',
+    explorerUrl: 'https://basescan.org',
+    explorerName: 'BaseScan',
+    contractAddress: process.env.NEXT_PUBLIC_BASE_AIRDROP_CONTRACT,
+    round: process.env.NEXT_PUBLIC_BASE_AIRDROP_ROUND,
+    proofsUrl: process.env.NEXT_PUBLIC_BASE_AIRDROP_PROOFS_URL
+  },
+  {
+    chainId: 137,
+    name: 'Polygon',
+    currency: 'POL',
+    rpcUrl: process.env.NEXT_PUBLIC_POLYGON_RPC_URL || 'https://polygon-bor-rpc.publicnode.com',
+    explorerUrl: 'https://polygonscan.com',
+    explorerName: 'PolygonScan',
+    contractAddress: process.env.NEXT_PUBLIC_POLYGON_AIRDROP_CONTRACT,
+    round: process.env.NEXT_PUBLIC_POLYGON_AIRDROP_ROUND,
+    proofsUrl: process.env.NEXT_PUBLIC_POLYGON_AIRDROP_PROOFS_URL
+  },
+  {
+    chainId: 1,
+    name: 'Ethereum',
+    currency: 'ETH',
+    rpcUrl: process.env.NEXT_PUBLIC_ETHEREUM_RPC_URL || 'https://ethereum-rpc.publicnode.com',
+    explorerUrl: 'https://etherscan.io',
+    explorerName: 'Etherscan',
+    contractAddress: process.env.NEXT_PUBLIC_ETHEREUM_AIRDROP_CONTRACT,
+    round: process.env.NEXT_PUBLIC_ETHEREUM_AIRDROP_ROUND,
+    proofsUrl: process.env.NEXT_PUBLIC_ETHEREUM_AIRDROP_PROOFS_URL
+  }
+];
+
+// Chain the wallet modal starts on
+export const DEFAULT_CHAIN_ID = SUPPORTED_CHAINS.find(chain => chain.contractAddress)?.chainId ?? 8453;
+
+const readProviders = new Map<number, ethers.JsonRpcProvider>();
+
+export function getChainConfig(chainId: number | bigint | undefined): ChainConfig | undefined {
+  if (chainId === undefined) return undefined;
+  return SUPPORTED_CHAINS.find(chain => chain.chainId === Number(chainId));
+}
+
+/**
+ * Explorer page for a transaction, null on chains without a configured explorer
+ */
+export function getExplorerTxUrl(chainId: number | bigint | undefined, hash: string): string | null {
+  const chain = getChainConfig(chainId);
+  return chain ? `${chain.explorerUrl}/tx/${hash}` : null;
+}
+
+/**
+ * Provider for reads on a chain, whatever network the wallet is on
+ */
+export function getReadProvider(chain: ChainConfig): ethers.JsonRpcProvider {
+  let provider = readProviders.get(chain.chainId);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+    readProviders.set(chain.chainId, provider);
+  }
+  return provider;
+}
+
+/**
+ * Ask a wallet to move to a chain, adding the chain first if the wallet does not know it
+ */
+export async function switchWalletChain(walletProvider: ethers.Eip1193Provider, chain: ChainConfig): Promise<void> {
+  const chainId = ethers.toQuantity(chain.chainId);
+  try {
+    await walletProvider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (err) {
+    // 4902: unknown chain
+    if ((err as { code?: number })?.code !== 4902) throw err;
+    await walletProvider.request({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId,
+        chainName: chain.name,
+        nativeCurrency: { name: chain.currency, symbol: chain.currency, decimals: 18 },
+        rpcUrls: [chain.rpcUrl],
+        blockExplorerUrls: [chain.explorerUrl]
+      }]
+    });
+  }
+}
+
+/**
+ * Airdrop deployments in SUPPORTED_CHAINS order. A contract pinned in the chain
+ * config wins; otherwise the newest campaign deployed on the chain is used,
+ * preferring the chain's round or preferredRound when several are.
+ */
+export function resolveDeployments(campaigns: CampaignSummary[], preferredRound?: string): AirdropDeployment[] {
+  const deployments: AirdropDeployment[] = [];
+
+  for (const chain of SUPPORTED_CHAINS) {
+    if (chain.contractAddress) {
+      deployments.push({ chain, contractAddress: chain.contractAddress, round: chain.round, proofsUrl: chain.proofsUrl });
+      continue;
+    }
+
+    const preferred = chain.round || preferredRound;
+    const campaign = campaigns
+      .filter(candidate => candidate.chainId === chain.chainId && candidate.contractAddress)
+      .sort((a, b) =>
+        Number(b.id === preferred) - Number(a.id === preferred) || b.generatedAt.localeCompare(a.generatedAt)
+      )[0];
+    if (campaign) {
+      deployments.push({ chain, contractAddress: campaign.contractAddress!, round: campaign.id, proofsUrl: chain.proofsUrl });
+    }
+  }
+  return deployments;
+}
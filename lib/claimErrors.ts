@@ -0,0 +1,341 @@
+import { ethers } from 'ethers';
+import { getChainConfig } from './chains';
+
+// Types
+export type ClaimErrorKind =
+  | 'contract' // The airdrop or token contract reverted
+  | 'rejected' // The user declined in their wallet
+  | 'insufficient-funds' // Not enough native currency for gas
+  | 'wrong-network' // Wallet is on a chain without the airdrop
+  | 'network' // RPC or connectivity problem
+  | 'unknown';
+
+export interface DecodedClaimError {
+  kind: ClaimErrorKind;
+  code: string; // Custom error name for contract errors, otherwise a stable identifier
+  title: string;
+  message: string;
+  action?: string; // Suggested next step
+}
+
+interface ErrorText {
+  title: string;
+  message: string;
+  action?: string;
+}
+
+/**
+ * Thrown when the wallet is connected to a chain the airdrop is not deployed on
+ */
+export class WrongNetworkError extends Error {
+  constructor(public readonly chainId: number | bigint | undefined, public readonly expectedChainId?: number) {
+    super(`Contract not deployed on chain ${chainId}`);
+    this.name = 'WrongNetworkError';
+  }
+}
+
+/**
+ * Thrown when a sent claim transaction reverted, was replaced by one that does
+ * not claim, or was dropped before being mined
+ */
+export class ClaimTransactionError extends Error {
+  constructor(public readonly status: 'failed' | 'cancelled' | 'dropped', public readonly hash: string) {
+    super(`Claim transaction ${hash} ${status}`);
+    this.name = 'ClaimTransactionError';
+  }
+}
+
+const TRANSACTION_ERRORS: Record<ClaimTransactionError['status'], DecodedClaimError> = {
+  failed: {
+    kind: 'contract',
+    code: 'TransactionReverted',
+    title: 'Claim transaction failed',
+    message: 'The claim transaction was mined but reverted, so no tokens were sent.',
+    action: 'Reload the page to check your claim status before trying again.'
+  },
+  cancelled: {
+    kind: 'rejected',
+    code: 'TransactionCancelled',
+    title: 'Claim transaction replaced',
+    message: 'Another transaction from the same account replaced the claim, so the claim did not happen.',
+    action: 'Claim again if you still want your tokens.'
+  },
+  dropped: {
+    kind: 'network',
+    code: 'TransactionDropped',
+    title: 'Claim transaction dropped',
+    message: 'The network dropped the claim transaction before it was mined, so nothing was sent.',
+    action: 'Claim again; your tokens are still available.'
+  }
+};
+
+// Custom errors of PayCryptAirdrop, plus the OpenZeppelin errors a claim can surface,
+// including those PayCryptToken raises inside the transfer
+export const AIRDROP_ERROR_ABI = [
+  'error ClaimPeriodEnded()',
+  'error ClaimPeriodNotStarted()',
+  'error AlreadyClaimed()',
+  'error InvalidProof()',
+  'error InvalidAmount()',
+  'error InsufficientTokens()',
+  'error ZeroAddress()',
+  'error SignatureExpired()',
+  'error InvalidSignature()',
+  'error InvalidRecipient()',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error EnforcedPause()',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeERC20FailedOperation(address token)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)'
+];
+
+const errorInterface = new ethers.Interface(AIRDROP_ERROR_ABI);
+
+const CONTRACT_ERRORS: Record<string, ErrorText> = {
+  ClaimPeriodEnded: {
+    title: 'Claim period has ended',
+    message: 'The claim window for this airdrop is closed, so no more claims are accepted.',
+    action: 'Watch PayCrypt announcements for future rounds.'
+  },
+  ClaimPeriodNotStarted: {
+    title: 'Claims have not opened yet',
+    message: 'The claim window for this airdrop has not started.',
+    action: 'Come back once claims open.'
+  },
+  AlreadyClaimed: {
+    title: 'Already claimed',
+    message: 'The tokens for this address have already been claimed.',
+    action: 'Check your wallet or the explorer for the earlier claim transaction.'
+  },
+  InvalidProof: {
+    title: 'Eligibility proof rejected',
+    message: 'The proof for this address does not match the airdrop on-chain. The list may have been updated since the page loaded.',
+    action: 'Reload the page to fetch a fresh proof, and make sure the right wallet is connected.'
+  },
+  InvalidAmount: {
+    title: 'Invalid claim amount',
+    message: 'The amount in the claim is zero or malformed.',
+    action: 'Reload the page and try again.'
+  },
+  InsufficientTokens: {
+    title: 'Airdrop is out of tokens',
+    message: 'The airdrop contract does not hold enough tokens to pay this claim right now.',
+    action: 'Try again later or contact PayCrypt support.'
+  },
+  ZeroAddress: {
+    title: 'Invalid address',
+    message: 'An address in the transaction is the zero address.'
+  },
+  SignatureExpired: {
+    title: 'Signature expired',
+    message: 'The signed claim was not submitted before its deadline.',
+    action: 'Claim again to sign a fresh message.'
+  },
+  InvalidSignature: {
+    title: 'Signature rejected',
+    message: 'The claim signature does not match this wallet, or it has already been used.',
+    action: 'Claim again to sign a fresh message with the eligible wallet.'
+  },
+  InvalidRecipient: {
+    title: 'Recipient not allowed',
+    message: 'Tokens cannot be sent to the zero address, the airdrop contract or the token contract.',
+    action: 'Choose a different recipient address.'
+  },
+  OwnableUnauthorizedAccount: {
+    title: 'Not the contract owner',
+    message: 'Only the owner of the airdrop contract can do this.',
+    action: 'Connect the owner wallet.'
+  },
+  EnforcedPause: {
+    title: 'Token transfers are paused',
+    message: 'The token contract has paused transfers, so the airdrop cannot send tokens right now.',
+    action: 'Try again once PayCrypt announces that transfers have resumed.'
+  },
+  ReentrancyGuardReentrantCall: {
+    title: 'Call rejected',
+    message: 'The contract rejected a nested call.'
+  },
+  SafeERC20FailedOperation: {
+    title: 'Token transfer failed',
+    message: 'The token contract refused the transfer.',
+    action: 'Contact PayCrypt support.'
+  },
+  ERC20InsufficientBalance: {
+    title: 'Airdrop is out of tokens',
+    message: 'The airdrop contract does not hold enough tokens to pay this claim.',
+    action: 'Try again later or contact PayCrypt support.'
+  }
+};
+
+const USER_REJECTED_CODES = new Set([4001, 'ACTION_REJECTED']);
+const NETWORK_CODES = new Set(['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT']);
+
+/**
+ * Walk an error and the errors it wraps (ethers nests provider errors in
+ * info.error, error, cause and data)
+ */
+function* errorChain(err: unknown): Generator<Record<string, any>> {
+  const seen = new Set<unknown>();
+  const queue = [err];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== 'object' || seen.has(current)) continue;
+    seen.add(current);
+    const record = current as Record<string, any>;
+    yield record;
+    queue.push(record.info?.error, record.error, record.cause, record.data);
+  }
+}
+
+/**
+ * Text for a plain revert: require(..., reason) or a panic. ethers decodes both
+ * with its built-in Error(string) and Panic(uint256) descriptions.
+ */
+function builtinErrorText(parsed: ethers.ErrorDescription): ErrorText | null {
+  if (parsed.name === 'Error') {
+    return {
+      title: 'Transaction would fail',
+      message: `The contract rejected the claim: ${parsed.args[0]}`,
+      action: 'Reload the page and check that the connected wallet is eligible.'
+    };
+  }
+  if (parsed.name === 'Panic') {
+    return {
+      title: 'Contract error',
+      message: `The contract stopped with panic code ${ethers.toQuantity(parsed.args[0])}.`,
+      action: 'Contact PayCrypt support.'
+    };
+  }
+  return null;
+}
+
+/**
+ * Find the error name and its text in a revert, if it is one we can describe
+ */
+function findContractError(err: unknown): { name: string; text: ErrorText } | null {
+  for (const record of errorChain(err)) {
+    // Already decoded by a contract whose ABI includes the error, or a relayer reason
+    const named = record.revert?.name ?? record.reason;
+    if (typeof named === 'string' && CONTRACT_ERRORS[named]) return { name: named, text: CONTRACT_ERRORS[named] };
+
+    const data = record.data;
+    if (typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data)) {
+      try {
+        const parsed = errorInterface.parseError(data);
+        if (!parsed) continue;
+        const text = CONTRACT_ERRORS[parsed.name] ?? builtinErrorText(parsed);
+        if (text) return { name: parsed.name, text };
+      } catch {
+        // Unknown selector or malformed arguments; keep looking
+      }
+    }
+  }
+  return null;
+}
+
+function hasCode(err: unknown, codes: Set<unknown>): boolean {
+  for (const record of errorChain(err)) {
+    if (codes.has(record.code)) return true;
+  }
+  return false;
+}
+
+/**
+ * Every message in the chain; node-specific details are often only in the nested ones
+ */
+function allMessages(err: unknown): string {
+  return [...errorChain(err)].map(record => record.message).filter(message => typeof message === 'string').join('\n');
+}
+
+function rawMessage(err: unknown): string {
+  const error = err as { shortMessage?: string; reason?: string; message?: string } | null;
+  return error?.shortMessage || error?.reason || error?.message || String(err);
+}
+
+/**
+ * Turn anything a claim can throw into a message for the user: contract custom
+ * errors, wallet rejections, missing gas funds, wrong networks and RPC failures
+ */
+export function decodeClaimError(err: unknown): DecodedClaimError {
+  if (err instanceof WrongNetworkError) {
+    const current = getChainConfig(err.chainId)?.name ?? `chain ${err.chainId}`;
+    const expected = err.expectedChainId && (getChainConfig(err.expectedChainId)?.name ?? `chain ${err.expectedChainId}`);
+    return {
+      kind: 'wrong-network',
+      code: 'WrongNetwork',
+      title: 'Wrong network',
+      message: `The airdrop is not available on the network your wallet is connected to (${current}).`,
+      action: expected
+        ? `Switch your wallet to ${expected} and try again.`
+        : 'Switch your wallet to the airdrop network and try again.'
+    };
+  }
+
+  if (err instanceof ClaimTransactionError) return { ...TRANSACTION_ERRORS[err.status] };
+
+  const contractError = findContractError(err);
+  if (contractError) {
+    return { kind: 'contract', code: contractError.name, ...contractError.text };
+  }
+
+  if (hasCode(err, USER_REJECTED_CODES)) {
+    return {
+      kind: 'rejected',
+      code: 'UserRejected',
+      title: 'Request cancelled',
+      message: 'You declined the request in your wallet, so nothing was sent.',
+      action: 'Click claim again when you are ready.'
+    };
+  }
+
+  const message = rawMessage(err);
+  const messages = allMessages(err);
+  if (hasCode(err, new Set(['INSUFFICIENT_FUNDS'])) || /insufficient funds|enough funds/i.test(messages)) {
+    return {
+      kind: 'insufficient-funds',
+      code: 'InsufficientFunds',
+      title: 'Not enough ETH for gas',
+      message: 'Your wallet does not hold enough ETH to pay the network fee for this transaction.',
+      action: 'Add a small amount of ETH on this network, or use the gasless claim if it is offered.'
+    };
+  }
+
+  if (/network changed|chain mismatch|unsupported chain/i.test(messages)) {
+    return {
+      kind: 'wrong-network',
+      code: 'WrongNetwork',
+      title: 'Wrong network',
+      message: 'Your wallet switched networks while the claim was in progress.',
+      action: 'Switch back to the airdrop network and try again.'
+    };
+  }
+
+  if (hasCode(err, NETWORK_CODES) || /failed to fetch|network request failed/i.test(messages)) {
+    return {
+      kind: 'network',
+      code: 'NetworkError',
+      title: 'Connection problem',
+      message: 'The network or RPC endpoint did not respond.',
+      action: 'Check your connection and try again in a moment.'
+    };
+  }
+
+  if (hasCode(err, new Set(['CALL_EXCEPTION']))) {
+    return {
+      kind: 'contract',
+      code: 'CallException',
+      title: 'Transaction would fail',
+      message: `The contract rejected the claim: ${message}`,
+      action: 'Reload the page and check that the connected wallet is eligible.'
+    };
+  }
+
+  return { kind: 'unknown', code: 'Unknown', title: 'Something went wrong', message };
+}
+
+/**
+ * One-line form of a decoded error for logs and CLI output
+ */
+export function formatClaimError(decoded: DecodedClaimError): string {
+  return decoded.action ? `${decoded.title}: ${decoded.message} ${decoded.action}` : `${decoded.title}: ${decoded.message}`;
+}
@@ -0,0 +1,54 @@
+import { ethers } from 'ethers';
+import { DecodedClaimError, decodeClaimError } from './claimErrors';
+
+// Types
+export interface ClaimPreflight {
+  blocker: DecodedClaimError | null; // Why the claim would revert, if it would
+  gasCost?: bigint; // In wei at the current gas price; left out when the user does not pay it
+}
+
+export interface PreflightClaim {
+  recipient: string; // The claimer itself unless tokens go elsewhere
+  amount: bigint; // In wei
+  proof: string[];
+  relayed: boolean; // The relayer pays the gas, so there is no fee to show
+}
+
+const PREFLIGHT_ABI = [
+  'function claimTokens(uint256 amount, bytes32[] calldata merkleProof) external',
+  'function claimTokensTo(address recipient, uint256 amount, bytes32[] calldata merkleProof) external'
+];
+
+/**
+ * Dry-run a claim from the signer's address so a claim that would revert never
+ * reaches the wallet, and estimate the fee the user would pay. Returns null
+ * when the check itself failed (RPC errors), which should not block claiming.
+ */
+export async function runClaimPreflight(
+  signer: ethers.Signer,
+  contractAddress: string,
+  claim: PreflightClaim
+): Promise<ClaimPreflight | null> {
+  const claimer = await signer.getAddress();
+  const contract = new ethers.Contract(contractAddress, PREFLIGHT_ABI, signer);
+  const toSelf = claim.recipient.toLowerCase() === claimer.toLowerCase();
+  const method = contract.getFunction(toSelf ? 'claimTokens' : 'claimTokensTo');
+  const args = toSelf ? [claim.amount, claim.proof] : [claim.recipient, claim.amount, claim.proof];
+
+  try {
+    // Reverts with the contract's reason, which canClaim's yes or no cannot give
+    await method.staticCall(...args);
+    if (claim.relayed) return { blocker: null };
+
+    const gasLimit = await method.estimateGas(...args);
+    const { gasPrice, maxFeePerGas } = await signer.provider!.getFeeData();
+    const feePerGas = gasPrice ?? maxFeePerGas;
+    return { blocker: null, gasCost: feePerGas ? gasLimit * feePerGas : undefined };
+  } catch (err) {
+    // Only block claims that would certainly fail; a flaky RPC should not stop anyone claiming
+    const decoded = decodeClaimError(err);
+    if (decoded.kind === 'contract' || decoded.kind === 'wrong-network') return { blocker: decoded };
+    console.error('Error simulating claim:', err);
+    return null;
+  }
+}
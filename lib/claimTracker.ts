@@ -0,0 +1,170 @@
+import { ethers } from 'ethers';
+
+// Types
+export interface PendingClaim {
+  hash: string;
+  chainId: number;
+  claimer: string;
+  recipient: string; // The claimer itself unless tokens go elsewhere
+  contractAddress: string;
+  relayed: boolean;
+  from?: string; // Sender and nonce of the transaction, once known
+  nonce?: number;
+  startBlock: number; // Block number before sending; replacements are searched from here
+  submittedAt: number; // Unix milliseconds
+}
+
+export type ClaimTrackingStatus = 'pending' | 'confirming' | 'confirmed' | 'failed' | 'cancelled' | 'dropped';
+
+export interface ClaimTrackingUpdate {
+  status: ClaimTrackingStatus;
+  hash: string; // Follows the replacement when the claim was sped up or resubmitted
+  confirmations: number;
+  replaced: boolean;
+}
+
+export interface ClaimTrackerOptions {
+  confirmations?: number;
+  pollIntervalMs?: number;
+  droppedAfterMs?: number;
+}
+
+export const CLAIM_CONFIRMATIONS = 3;
+
+const POLL_INTERVAL_MS = 4_000;
+
+// A transaction no node has seen for this long has left the mempool
+const DROPPED_AFTER_MS = 10 * 60_000;
+
+// Claims still being watched, keyed by chain and claimer
+const PENDING_CLAIMS_KEY = 'paycrypt-airdrop:pending-claims';
+
+const TRACKER_ABI = [
+  'function hasClaimed(address user) external view returns (bool)',
+  'event TokensClaimed(address indexed claimer, uint256 amount, uint256 timestamp)'
+];
+
+function pendingClaimKey(chainId: number | bigint, claimer: string): string {
+  return `${chainId}:${claimer.toLowerCase()}`;
+}
+
+function readPendingClaims(): Record<string, PendingClaim> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_CLAIMS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writePendingClaims(claims: Record<string, PendingClaim>) {
+  try {
+    localStorage.setItem(PENDING_CLAIMS_KEY, JSON.stringify(claims));
+  } catch {
+    // Storage may be unavailable (private mode); tracking then only lasts as long as the tab
+  }
+}
+
+export function loadPendingClaim(chainId: number | bigint, claimer: string): PendingClaim | null {
+  return readPendingClaims()[pendingClaimKey(chainId, claimer)] || null;
+}
+
+export function savePendingClaim(claim: PendingClaim) {
+  const claims = readPendingClaims();
+  claims[pendingClaimKey(claim.chainId, claim.claimer)] = claim;
+  writePendingClaims(claims);
+}
+
+export function clearPendingClaim(chainId: number | bigint, claimer: string) {
+  const claims = readPendingClaims();
+  delete claims[pendingClaimKey(chainId, claimer)];
+  writePendingClaims(claims);
+}
+
+/**
+ * Watch a claim transaction until it has enough confirmations or has failed,
+ * been cancelled or been dropped. A claim that lands in another transaction
+ * (sped up in the wallet or resubmitted by the relayer) is followed under the
+ * new hash. Returns a function that stops watching.
+ */
+export function watchClaim(
+  provider: ethers.Provider,
+  claim: PendingClaim,
+  onUpdate: (update: ClaimTrackingUpdate) => void,
+  options: ClaimTrackerOptions = {}
+): () => void {
+  const required = options.confirmations ?? CLAIM_CONFIRMATIONS;
+  const airdrop = new ethers.Contract(claim.contractAddress, TRACKER_ABI, provider);
+
+  let hash = claim.hash;
+  let replaced = false;
+  let from = claim.from;
+  let nonce = claim.nonce;
+  let lastSeen = claim.submittedAt;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Find the transaction that claimed for the claimer instead of ours
+  const findReplacement = async (): Promise<string | null> => {
+    const events = await airdrop.queryFilter(airdrop.filters.TokensClaimed(claim.claimer), claim.startBlock);
+    return events.length > 0 ? events[events.length - 1].transactionHash : null;
+  };
+
+  const check = async (): Promise<ClaimTrackingUpdate> => {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) {
+      const confirmations = await receipt.confirmations();
+      if (receipt.status === 0) return { status: 'failed', hash, confirmations, replaced };
+      return { status: confirmations >= required ? 'confirmed' : 'confirming', hash, confirmations, replaced };
+    }
+
+    // The claim may have gone through in a different transaction
+    if (await airdrop.hasClaimed(claim.claimer)) {
+      const replacement = await findReplacement();
+      if (replacement && replacement !== hash) {
+        hash = replacement;
+        replaced = true;
+        return check();
+      }
+      return { status: 'confirmed', hash, confirmations: 0, replaced: true };
+    }
+
+    const tx = await provider.getTransaction(hash);
+    if (tx) {
+      from = tx.from;
+      nonce = tx.nonce;
+      lastSeen = Date.now();
+    }
+
+    // Another transaction used the nonce without claiming
+    if (from && nonce !== undefined && (await provider.getTransactionCount(from, 'latest')) > nonce) {
+      // Ours may have been mined since the receipt check
+      if (await provider.getTransactionReceipt(hash)) return check();
+      return { status: 'cancelled', hash, confirmations: 0, replaced: true };
+    }
+
+    if (!tx && Date.now() - lastSeen > (options.droppedAfterMs ?? DROPPED_AFTER_MS)) {
+      return { status: 'dropped', hash, confirmations: 0, replaced };
+    }
+    return { status: 'pending', hash, confirmations: 0, replaced };
+  };
+
+  const poll = async () => {
+    try {
+      const update = await check();
+      if (stopped) return;
+      onUpdate(update);
+      if (update.status !== 'pending' && update.status !== 'confirming') return;
+    } catch (err) {
+      // RPC hiccups should not end tracking
+      console.warn('Error checking claim transaction:', err);
+      if (stopped) return;
+    }
+    timer = setTimeout(poll, options.pollIntervalMs ?? POLL_INTERVAL_MS);
+  };
+
+  poll();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,128 @@
+import { ethers } from 'ethers';
+import { AddressInputError, ResolvedAddress, parseAddressInput, resolveAddressInput } from './addressInput';
+import { AirdropDeployment } from './chains';
+import { fetchClaimFromShards } from './proofShards';
+
+// Types
+export interface ClaimData {
+  address: string;
+  amount: string;
+  proof: string[];
+  reason?: string | null;
+}
+
+export interface ClaimStatus {
+  claimed: boolean;
+  amount: string; // In wei
+  canStillClaim: boolean;
+}
+
+// Result of checking an address without a wallet
+export interface EligibilityLookup extends ResolvedAddress {
+  claim: ClaimData | null;
+  status: ClaimStatus | null; // Null when the chain could not be read
+  network: string;
+}
+
+// Where to find an address's proof and claim status
+export interface LookupSource {
+  deployment: AirdropDeployment;
+  provider: ethers.Provider; // Reads the deployment's chain
+  proofsBaseUrl?: string; // Static proof shards, used when the deployment names none
+  round?: string; // Proof API round, used when the deployment names none
+}
+
+// The ?address= value of a shared link
+export interface SharedAddress {
+  input: string;
+  error?: string; // Set when the value is malformed; nothing is looked up then
+}
+
+export const SHARED_ADDRESS_PARAM = 'address';
+
+const LOOKUP_ABI = [
+  'function merkleRoot() external view returns (bytes32)',
+  'function getClaimStatus(address user) external view returns (bool claimed, uint256 amount, bool canStillClaim)'
+];
+
+/**
+ * Fetch the claim data for an address on a deployment, null if not eligible
+ */
+export async function fetchClaimData(account: string, source: LookupSource): Promise<ClaimData | null> {
+  const { deployment } = source;
+  const proofsUrl = deployment.proofsUrl || source.proofsBaseUrl;
+  if (proofsUrl) {
+    return fetchClaimFromShards(proofsUrl, account);
+  }
+
+  // Ask for the root the contract verifies: after a regeneration the API keeps
+  // serving the matching proofs until updateAirdrop, and CDNs can cache by root
+  const query = new URLSearchParams();
+  const round = deployment.round || source.round;
+  if (round) query.set('round', round);
+  try {
+    const airdrop = new ethers.Contract(deployment.contractAddress, LOOKUP_ABI, source.provider);
+    query.set('root', await airdrop.merkleRoot());
+  } catch (err) {
+    console.error('Error reading the Merkle root:', err);
+  }
+  const search = query.toString();
+  const response = await fetch(`/api/proof/${account}${search ? `?${search}` : ''}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Proof lookup failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * On-chain claim status of an address
+ */
+export async function readClaimStatus(account: string, source: LookupSource): Promise<ClaimStatus> {
+  const airdrop = new ethers.Contract(source.deployment.contractAddress, LOOKUP_ABI, source.provider);
+  const [claimed, amount, canStillClaim] = await airdrop.getClaimStatus(account);
+  return { claimed, amount: amount.toString(), canStillClaim };
+}
+
+/**
+ * Resolve an address or ENS name and check its eligibility and claim status.
+ * Throws AddressInputError for input that is not an address; a failed status
+ * read leaves the status null rather than failing the lookup.
+ */
+export async function lookUpEligibility(input: string, source: LookupSource): Promise<EligibilityLookup> {
+  const resolved = await resolveAddressInput(input);
+  const claim = await fetchClaimData(resolved.address, source);
+
+  let status: ClaimStatus | null = null;
+  try {
+    status = await readClaimStatus(resolved.address, source);
+  } catch (err) {
+    console.error('Error checking claim status:', err);
+  }
+  return { ...resolved, claim, status, network: source.deployment.chain.name };
+}
+
+/**
+ * The address a shared link asks about, checked before anything is looked up.
+ * Null when the link has no ?address=.
+ */
+export function readSharedAddress(search: string): SharedAddress | null {
+  const input = new URLSearchParams(search).get(SHARED_ADDRESS_PARAM);
+  if (input === null) return null;
+  try {
+    parseAddressInput(input);
+    return { input };
+  } catch (err) {
+    if (!(err instanceof AddressInputError)) throw err;
+    return { input, error: err.message };
+  }
+}
+
+/**
+ * The page URL with ?address= pointing at a lookup, so the result can be shared
+ */
+export function getSharedLookupUrl(href: string, lookup: ResolvedAddress): string {
+  const url = new URL(href);
+  url.searchParams.set(SHARED_ADDRESS_PARAM, lookup.ensName ?? lookup.address);
+  return url.toString();
+}
@@ -0,0 +1,77 @@
+import { ethers } from 'ethers';
+
+// Types
+export type ShardKeyType = 'prefix' | 'hash';
+
+export interface ProofShardEntry {
+  amount: string; // In wei
+  proof: string[];
+  reason?: string;
+}
+
+// Lowercase address -> claim data
+export type ProofShard = Record<string, ProofShardEntry>;
+
+export interface ProofShardManifest {
+  version: 1;
+  merkleRoot: string;
+  keyType: ShardKeyType;
+  keyLength: number; // Hex characters used for the shard key
+  totalUsers: number;
+  shards: Record<string, { file: string; entries: number }>;
+}
+
+export interface ShardedClaim extends ProofShardEntry {
+  address: string;
+}
+
+/**
+ * Get the shard key for an address: the first hex characters of either the
+ * address itself ("prefix") or its keccak256 hash ("hash")
+ */
+export function getShardKey(address: string, keyType: ShardKeyType, keyLength: number): string {
+  const normalized = address.toLowerCase();
+  const source = keyType === 'hash' ? ethers.keccak256(normalized) : normalized;
+  return source.slice(2, 2 + keyLength);
+}
+
+// Manifests are small and shared by every lookup, so fetch each one once
+const manifestCache = new Map<string, Promise<ProofShardManifest>>();
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Load the shard manifest published next to the proof shards
+ */
+export function fetchShardManifest(baseUrl: string): Promise<ProofShardManifest> {
+  let manifest = manifestCache.get(baseUrl);
+  if (!manifest) {
+    manifest = fetchJson<ProofShardManifest>(`${baseUrl}/index.json`);
+    manifest.catch(() => manifestCache.delete(baseUrl));
+    manifestCache.set(baseUrl, manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Look up an address by fetching only the shard that can contain it.
+ * Returns null when the address is not eligible.
+ */
+export async function fetchClaimFromShards(baseUrl: string, address: string): Promise<ShardedClaim | null> {
+  if (!ethers.isAddress(address)) return null;
+
+  const manifest = await fetchShardManifest(baseUrl);
+  const key = getShardKey(address, manifest.keyType, manifest.keyLength);
+  const shard = manifest.shards[key];
+  if (!shard) return null;
+
+  const entries = await fetchJson<ProofShard>(`${baseUrl}/${shard.file}`);
+  const entry = entries[address.toLowerCase()];
+  return entry ? { address: ethers.getAddress(address), ...entry } : null;
+}
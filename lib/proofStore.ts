@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ProofShard, ProofShardManifest, ShardedClaim, getShardKey } from './proofShards';
+import {
+  CAMPAIGN_FILE,
+  CAMPAIGN_INDEX_FILE,
+  CampaignIndex,
+  CampaignMetadata,
+  DEFAULT_CAMPAIGN,
+  isValidCampaignId
+} from './campaigns';
+
+// Server-side lookups against generated airdrop data on disk.
+// A round is a generated campaign, stored in <data dir>/<round id>/.
+
+// Types
+export interface RoundClaim extends ShardedClaim {
+  round: string;
+  merkleRoot: string;
+}
+
+export class UnknownRoundError extends Error {
+  constructor(public readonly round: string) {
+    super(`Unknown airdrop round "${round}"`);
+    this.name = 'UnknownRoundError';
+  }
+}
+
+export class UnknownRootError extends Error {
+  constructor(public readonly round: string, public readonly merkleRoot: string) {
+    super(`Airdrop round "${round}" has no proofs for root ${merkleRoot}`);
+    this.name = 'UnknownRootError';
+  }
+}
+
+const DATA_DIR = process.env.AIRDROP_DATA_DIR || path.join(process.cwd(), 'airdrop-data');
+export const DEFAULT_ROUND = process.env.AIRDROP_DEFAULT_ROUND || DEFAULT_CAMPAIGN;
+
+const CACHE_TTL_MS = 60_000;
+const CACHE_MAX_FILES = 256;
+
+// Parsed JSON files by path; entries expire so regenerated data is picked up
+const fileCache = new Map<string, { value: unknown; loadedAt: number }>();
+
+async function readJsonCached<T>(filePath: string): Promise<T | null> {
+  const cached = fileCache.get(filePath);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.value as T;
+  }
+
+  let value: T;
+  try {
+    value = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+
+  if (fileCache.size >= CACHE_MAX_FILES) {
+    fileCache.delete(fileCache.keys().next().value!);
+  }
+  fileCache.set(filePath, { value, loadedAt: Date.now() });
+  return value;
+}
+
+/**
+ * Whether a round id is safe to use as a directory name
+ */
+export function isValidRoundId(round: string): boolean {
+  return isValidCampaignId(round);
+}
+
+/**
+ * Directory holding a round's proof shards, as recorded in its campaign.json.
+ * With a root, an archived version is used when the contract has not been
+ * moved to the current version's root yet.
+ */
+async function getProofsDir(round: string, merkleRoot?: string): Promise<string> {
+  const roundDir = path.join(DATA_DIR, round);
+  const campaign = await readJsonCached<CampaignMetadata>(path.join(roundDir, CAMPAIGN_FILE));
+  const root = merkleRoot?.toLowerCase();
+  if (!campaign || !root || campaign.merkleRoot.toLowerCase() === root) {
+    return path.resolve(roundDir, campaign?.proofs.dir || 'proofs');
+  }
+
+  const version = campaign.history.find(candidate => candidate.dir && candidate.merkleRoot.toLowerCase() === root);
+  if (!version) throw new UnknownRootError(round, merkleRoot!);
+  return path.resolve(roundDir, version.dir!, 'proofs');
+}
+
+/**
+ * List generated campaigns from the campaign index
+ */
+export async function listCampaigns(): Promise<CampaignIndex> {
+  const index = await readJsonCached<CampaignIndex>(path.join(DATA_DIR, CAMPAIGN_INDEX_FILE));
+  return index || { version: 1, updatedAt: new Date(0).toISOString(), campaigns: [] };
+}
+
+/**
+ * Look up an address in a round, optionally in the version with the given
+ * root. Returns null when it is not eligible, throws UnknownRoundError when the
+ * round has no generated data and UnknownRootError when no version has the root.
+ */
+export async function findClaim(round: string, address: string, merkleRoot?: string): Promise<RoundClaim | null> {
+  if (!isValidRoundId(round)) {
+    throw new UnknownRoundError(round);
+  }
+
+  const proofsDir = await getProofsDir(round, merkleRoot);
+  const manifest = await readJsonCached<ProofShardManifest>(path.join(proofsDir, 'index.json'));
+  if (!manifest) {
+    throw new UnknownRoundError(round);
+  }
+  if (merkleRoot && manifest.merkleRoot.toLowerCase() !== merkleRoot.toLowerCase()) {
+    throw new UnknownRootError(round, merkleRoot);
+  }
+
+  const shard = manifest.shards[getShardKey(address, manifest.keyType, manifest.keyLength)];
+  if (!shard) return null;
+
+  const entries = await readJsonCached<ProofShard>(path.join(proofsDir, shard.file));
+  const entry = entries?.[address.toLowerCase()];
+  if (!entry) return null;
+
+  return {
+    address,
+    ...entry,
+    round,
+    merkleRoot: manifest.merkleRoot
+  };
+}
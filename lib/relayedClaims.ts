@@ -0,0 +1,239 @@
+import { ethers } from 'ethers';
+
+// Types
+export interface ClaimMessage {
+  claimer: string;
+  recipient: string;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// Body of POST /claim on the relayer
+export interface RelayedClaimRequest {
+  claimer: string;
+  recipient: string; // The claimer itself unless tokens go elsewhere
+  amount: string; // In wei
+  proof: string[];
+  deadline: number; // Unix seconds
+  signature: string;
+}
+
+export interface RelayedClaimResponse {
+  transactionHash: string;
+}
+
+export interface RelayerErrorResponse {
+  error: string;
+  reason?: string; // Contract error name when the claim itself would revert
+}
+
+// A claim for the relayer to submit on the claimer's behalf
+export interface RelayClaimParams {
+  relayerUrl: string;
+  contractAddress: string;
+  recipient: string;
+  amount: bigint;
+  proof: string[];
+  fromBlock: number; // Where to look for the claim when the relayer's answer is lost
+}
+
+// Must match the EIP712 constructor arguments and CLAIM_TYPEHASH in PayCryptAirdrop
+export const CLAIM_DOMAIN_NAME = 'PayCryptAirdrop';
+export const CLAIM_DOMAIN_VERSION = '1';
+
+export const CLAIM_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Claim: [
+    { name: 'claimer', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+// How long a signed claim stays valid; the relayer rejects anything further out
+export const CLAIM_SIGNATURE_TTL_SECONDS = 15 * 60;
+
+const RELAYER_TIMEOUT_MS = 15_000;
+
+const RELAYED_CLAIM_ABI = [
+  'function nonces(address owner) external view returns (uint256)',
+  'function hasClaimed(address user) external view returns (bool)',
+  'event TokensClaimed(address indexed claimer, uint256 amount, uint256 timestamp)'
+];
+
+/**
+ * The relayer could not be reached or cannot relay right now; the claim
+ * can still be sent as a normal transaction
+ */
+export class RelayerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+/**
+ * The relayer accepted the claim request but gave no usable answer (timeout,
+ * server error, unreadable body), so it may already have sent the transaction
+ */
+export class RelayerOutcomeUnknownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RelayerOutcomeUnknownError';
+  }
+}
+
+/**
+ * The relayer refused the claim itself, so a normal transaction would fail too
+ */
+export class RelayerRejectedError extends Error {
+  constructor(message: string, public readonly reason?: string) {
+    super(message);
+    this.name = 'RelayerRejectedError';
+  }
+}
+
+/**
+ * EIP-712 domain of a deployed PayCryptAirdrop
+ */
+export function getClaimDomain(chainId: bigint | number, verifyingContract: string): ethers.TypedDataDomain {
+  return {
+    name: CLAIM_DOMAIN_NAME,
+    version: CLAIM_DOMAIN_VERSION,
+    chainId,
+    verifyingContract
+  };
+}
+
+/**
+ * Address that signed a claim message, compare it with message.claimer
+ */
+export function recoverClaimSigner(domain: ethers.TypedDataDomain, message: ClaimMessage, signature: string): string {
+  return ethers.verifyTypedData(domain, CLAIM_TYPES, message, signature);
+}
+
+// Only a refused connection is known not to have reached the relayer; browsers
+// report every network failure the same way, so only Node can tell
+function isConnectionRefused(err: unknown): boolean {
+  return (err as { cause?: { code?: string } } | null)?.cause?.code === 'ECONNREFUSED';
+}
+
+function describeFailure(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Ask the relayer whether it is able to pay for claims right now
+ */
+export async function checkRelayer(relayerUrl: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(`${relayerUrl}/health`, { signal: AbortSignal.timeout(RELAYER_TIMEOUT_MS) });
+  } catch (err) {
+    throw new RelayerUnavailableError(`Relayer at ${relayerUrl} is unreachable: ${describeFailure(err)}`);
+  }
+  if (!response.ok) {
+    throw new RelayerUnavailableError(`Relayer is not accepting claims (status ${response.status})`);
+  }
+}
+
+/**
+ * Submit a signed claim to the relayer and return the transaction it sent.
+ * Throws RelayerUnavailableError when the relayer refused before sending
+ * anything, RelayerOutcomeUnknownError when it may have sent the claim, and
+ * RelayerRejectedError when the claim itself is invalid.
+ */
+export async function submitRelayedClaim(relayerUrl: string, request: RelayedClaimRequest): Promise<RelayedClaimResponse> {
+  let response: Response;
+  try {
+    response = await fetch(`${relayerUrl}/claim`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(RELAYER_TIMEOUT_MS)
+    });
+  } catch (err) {
+    if (isConnectionRefused(err)) {
+      throw new RelayerUnavailableError(`Relayer at ${relayerUrl} is unreachable: ${describeFailure(err)}`);
+    }
+    throw new RelayerOutcomeUnknownError(`Relayer did not answer the claim: ${describeFailure(err)}`);
+  }
+  const body = await response.json().catch(() => null);
+
+  if (response.ok && body?.transactionHash) {
+    return body as RelayedClaimResponse;
+  }
+  // Rate limits are decided before anything is sent
+  if (response.status === 429) {
+    throw new RelayerUnavailableError(body?.error || 'Relayer is rate limiting claims');
+  }
+  if (response.status >= 500 || !body) {
+    throw new RelayerOutcomeUnknownError(body?.error || `Relayer failed with status ${response.status}`);
+  }
+  const { error, reason } = body as RelayerErrorResponse;
+  throw new RelayerRejectedError(error || `Relayer rejected the claim (status ${response.status})`, reason);
+}
+
+/**
+ * Look on-chain for a claim the relayer may have sent without answering.
+ * Returns its transaction hash once the claimer has claimed, or null when
+ * nothing was claimed, including when the signed nonce was invalidated.
+ */
+export async function findRelayedClaim(
+  runner: ethers.ContractRunner,
+  contractAddress: string,
+  claimer: string,
+  signedNonce: bigint,
+  fromBlock: number
+): Promise<string | null> {
+  const airdrop = new ethers.Contract(contractAddress, RELAYED_CLAIM_ABI, runner);
+  const [claimed, nonce]: [boolean, bigint] = await Promise.all([airdrop.hasClaimed(claimer), airdrop.nonces(claimer)]);
+  if (!claimed && nonce === signedNonce) return null;
+
+  // A moved nonce without a claim event means the signature was invalidated, not used
+  const events = await airdrop.queryFilter(airdrop.filters.TokensClaimed(claimer), fromBlock);
+  return events.length > 0 ? events[events.length - 1].transactionHash : null;
+}
+
+/**
+ * Sign a claim with the claimer's wallet and have the relayer submit it,
+ * returning the transaction hash. Throws RelayerUnavailableError only when the
+ * relayer refused up front or nothing on-chain shows it sent the claim, so a
+ * direct claim is not sent next to a relayed one.
+ */
+export async function relayClaim(signer: ethers.Signer, params: RelayClaimParams): Promise<string> {
+  const claimer = await signer.getAddress();
+
+  // Don't ask for a signature the relayer can't use
+  await checkRelayer(params.relayerUrl);
+
+  const airdrop = new ethers.Contract(params.contractAddress, RELAYED_CLAIM_ABI, signer);
+  const nonce: bigint = await airdrop.nonces(claimer);
+  const deadline = Math.floor(Date.now() / 1000) + CLAIM_SIGNATURE_TTL_SECONDS;
+  const { chainId } = await signer.provider!.getNetwork();
+  const signature = await signer.signTypedData(
+    getClaimDomain(chainId, params.contractAddress),
+    CLAIM_TYPES,
+    { claimer, recipient: params.recipient, amount: params.amount, nonce, deadline }
+  );
+
+  try {
+    const { transactionHash } = await submitRelayedClaim(params.relayerUrl, {
+      claimer,
+      recipient: params.recipient,
+      amount: params.amount.toString(),
+      proof: params.proof,
+      deadline,
+      signature
+    });
+    return transactionHash;
+  } catch (err) {
+    if (!(err instanceof RelayerOutcomeUnknownError)) throw err;
+
+    const relayedHash = await findRelayedClaim(signer, params.contractAddress, claimer, nonce, params.fromBlock);
+    if (relayedHash) return relayedHash;
+    throw new RelayerUnavailableError(`${err.message}; the claim has not been sent`);
+  }
+}
@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+
+// Types
+export interface SafeInfo {
+  address: string;
+  version: string;
+  threshold: number;
+  owners: string[];
+}
+
+interface SafeContractMethod {
+  inputs: { internalType: string; name: string; type: string }[];
+  name: string;
+  payable: boolean;
+}
+
+// One transaction in the Safe{Wallet} Transaction Builder import format
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: SafeContractMethod | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+export interface SafeBatchFile {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+export interface SafeClaimParams {
+  chainId: number | bigint;
+  airdropAddress: string;
+  safeAddress: string;
+  amount: string; // In wei
+  proof: string[];
+  recipient?: string; // Defaults to the Safe itself
+  symbol: string; // Symbol and decimals are only used for the description
+  decimals: number;
+}
+
+const SAFE_ABI = [
+  'function getThreshold() external view returns (uint256)',
+  'function getOwners() external view returns (address[])',
+  'function VERSION() external view returns (string)'
+];
+
+const TX_BUILDER_VERSION = '1.16.5';
+
+const CLAIM_TOKENS_METHOD: SafeContractMethod = {
+  inputs: [
+    { internalType: 'uint256', name: 'amount', type: 'uint256' },
+    { internalType: 'bytes32[]', name: 'merkleProof', type: 'bytes32[]' }
+  ],
+  name: 'claimTokens',
+  payable: false
+};
+
+const CLAIM_TOKENS_TO_METHOD: SafeContractMethod = {
+  inputs: [
+    { internalType: 'address', name: 'recipient', type: 'address' },
+    { internalType: 'uint256', name: 'amount', type: 'uint256' },
+    { internalType: 'bytes32[]', name: 'merkleProof', type: 'bytes32[]' }
+  ],
+  name: 'claimTokensTo',
+  payable: false
+};
+
+/**
+ * Check whether an address is a Safe by calling the Safe's own view functions.
+ * Returns null for EOAs and for other contracts.
+ */
+export async function detectSafe(provider: ethers.Provider, address: string): Promise<SafeInfo | null> {
+  if ((await provider.getCode(address)) === '0x') return null;
+
+  const safe = new ethers.Contract(address, SAFE_ABI, provider);
+  try {
+    const [threshold, owners, version] = await Promise.all([safe.getThreshold(), safe.getOwners(), safe.VERSION()]);
+    return {
+      address: ethers.getAddress(address),
+      version,
+      threshold: Number(threshold),
+      owners: [...owners]
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a Transaction Builder batch that claims a Safe's tokens. Import it in
+ * Safe{Wallet} under Apps > Transaction Builder, then collect the owners' signatures.
+ */
+export function buildSafeClaimBatch(params: SafeClaimParams): SafeBatchFile {
+  const safeAddress = ethers.getAddress(params.safeAddress);
+  const recipient = params.recipient ? ethers.getAddress(params.recipient) : safeAddress;
+  const redirected = recipient !== safeAddress;
+
+  // Array inputs are written the way the Transaction Builder expects them: [a,b]
+  const values: Record<string, string> = {
+    amount: params.amount,
+    merkleProof: `[${params.proof.join(',')}]`
+  };
+  const amount = ethers.formatUnits(params.amount, params.decimals).replace(/\.0$/, '');
+
+  return {
+    version: '1.0',
+    chainId: params.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: 'PayCrypt airdrop claim',
+      description: `Claim ${amount} ${params.symbol} for ${safeAddress}${redirected ? ` and send it to ${recipient}` : ''}`,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: ''
+    },
+    transactions: [
+      {
+        to: ethers.getAddress(params.airdropAddress),
+        value: '0',
+        data: null,
+        contractMethod: redirected ? CLAIM_TOKENS_TO_METHOD : CLAIM_TOKENS_METHOD,
+        contractInputsValues: redirected ? { recipient, ...values } : values
+      }
+    ]
+  };
+}
@@ -0,0 +1,495 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTokenAmount } from './amounts';
+import { LeafEncoding } from './types';
+import { readEligibilityFile } from './eligibility-input';
+import { printValidationSummary, validateEligibilityStream } from './validate-eligibility';
+import { computeLeaf, verifyMerkleProof } from './merkle-builder';
+import { AirdropMerkleTree, generateAirdropData, generateCSV, loadEntriesFromArgs } from './generate-merkle';
+import { parseDiffArgs, printDiff, runDiff } from './diff-airdrop';
+import { printVerificationReport, verifyAirdropFiles } from './verify-airdrop';
+import { parseReconcileArgs, printReconciliation, reconcileAirdrop } from './reconcile-airdrop';
+import { generateSafeClaimBatches, parseSafeClaimArgs, printSafeClaimReport } from './safe-claims';
+import { computeAllocations, explainAllocation, loadAllocationRules, printAllocationSummary } from './allocation-rules';
+import {
+  DEFAULT_DATA_DIR,
+  findCampaignClaim,
+  getCampaignDir,
+  loadCampaign,
+  loadCampaignTree,
+  recordDeployment,
+  requireCampaign
+} from './campaigns';
+import { CampaignDeployment, DEFAULT_CAMPAIGN, getLatestDeployment } from '../lib/campaigns';
+import { AIRDROP_ADMIN_ABI } from '../lib/airdropAdmin';
+import { decodeClaimError, formatClaimError } from '../lib/claimErrors';
+
+// Types
+interface CliContext {
+  dataDir: string;
+  campaign: string;
+  json: boolean;
+}
+
+interface CommandResult {
+  ok: boolean; // false exits with EXIT_FAILED
+  data: unknown; // Printed with --json
+  print?: () => void; // Human-readable output
+}
+
+type Command = (args: string[], context: CliContext) => Promise<CommandResult>;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const EXIT_FAILED = 1; // Command ran but the check failed, or an error occurred
+const EXIT_USAGE = 2; // Bad command or arguments
+
+const USAGE = `Usage: airdrop <command> [options]
+
+Commands:
+  generate [input]             Validate an eligibility list and generate campaign data
+  verify [address]             Check every file and proof of the campaign, or one address's proof
+  proof <address>              Print the amount and proof for an address
+  stats [input]                Show campaign statistics, or statistics for an input file
+  diff <old> <new>             Compare two campaigns, inputs or detailed outputs
+  export-csv [input]           Write eligible-users.csv for a campaign or input file
+  reconcile --rpc <url>        Compare the campaign with on-chain claims and write rollover input
+  allocate <rules>             Preview allocations from a rules file without generating
+  safe-claims [address...]     Write Safe Transaction Builder claim batches for multisigs
+  record-update --rpc <url>    Record the deployment again after updateAirdrop moved it to the campaign root
+
+Options:
+  --input <file>               Eligibility list (CSV or JSON)
+  --output <dir>               Data directory (default ${DEFAULT_DATA_DIR})
+  --campaign <id>              Campaign id (default "${DEFAULT_CAMPAIGN}")
+  --leaf-format packed|standard
+  --json                       Print machine-readable JSON on stdout
+
+Exit codes: 0 success, ${EXIT_FAILED} failed check or error, ${EXIT_USAGE} usage error`;
+
+/**
+ * Remove a flag and its value from args
+ */
+function takeFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new UsageError(`${name} requires a value`);
+  }
+  args.splice(index, 2);
+  return value;
+}
+
+/**
+ * Remove a boolean switch from args
+ */
+function takeSwitch(args: string[], name: string): boolean {
+  const index = args.indexOf(name);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+}
+
+function parseAddress(value: string | undefined): string {
+  if (!value) throw new UsageError('An address is required');
+  try {
+    return ethers.getAddress(value.trim().toLowerCase());
+  } catch {
+    throw new UsageError(`Invalid address "${value}"`);
+  }
+}
+
+function parseLeafFormat(value: string | undefined): LeafEncoding | undefined {
+  if (value === undefined) return undefined;
+  if (value !== 'packed' && value !== 'standard') {
+    throw new UsageError(`Unknown leaf format "${value}" (expected packed or standard)`);
+  }
+  return value;
+}
+
+/**
+ * Validate the input file given in args, if any, and build its tree without
+ * writing anything
+ */
+async function buildTreeFromInput(args: string[]) {
+  const leafEncoding = parseLeafFormat(takeFlag(args, '--leaf-format'));
+  const decimalsFlag = takeFlag(args, '--decimals');
+  const decimals = decimalsFlag === undefined ? undefined : Number(decimalsFlag);
+  const inputFile = takeFlag(args, '--input') ?? args.find(arg => !arg.startsWith('--'));
+  if (!inputFile) return null;
+
+  const validation = await validateEligibilityStream(readEligibilityFile(inputFile), { decimals });
+  if (!validation.report.valid) {
+    printValidationSummary(validation.report);
+    throw new Error(`${inputFile} has ${validation.report.totals.errors} blocking error(s)`);
+  }
+  return { inputFile, tree: new AirdropMerkleTree(validation.users, { decimals, leafEncoding }) };
+}
+
+const generate: Command = async (args, context) => {
+  // The generator parses its own flags; campaign and data dir come from the CLI
+  const { entries, options } = loadEntriesFromArgs(args);
+  options.dataDir = context.dataDir;
+  options.campaign = { ...options.campaign, id: context.campaign };
+
+  const result = await generateAirdropData(entries, options);
+  const data = {
+    campaign: result.campaign.id,
+    version: result.campaign.version,
+    outputDir: result.outputDir,
+    merkleRoot: result.merkleRoot,
+    totalUsers: result.stats.totalEligibleUsers,
+    totalTokens: result.stats.totalTokensToDistribute,
+    totalTokensWei: result.stats.totalTokensWei.toString(),
+    leafEncoding: result.stats.leafEncoding
+  };
+
+  return {
+    ok: true,
+    data,
+    print: () => console.log(`\n🚀 Campaign "${data.campaign}" version ${data.version} written to ${data.outputDir}`)
+  };
+};
+
+const proof: Command = async (args, context) => {
+  const address = parseAddress(args[0]);
+  const campaign = requireCampaign(context.dataDir, context.campaign);
+  const claim = findCampaignClaim(context.dataDir, context.campaign, address);
+
+  if (!claim) {
+    return {
+      ok: false,
+      data: { address, campaign: campaign.id, eligible: false },
+      print: () => console.log(`❌ ${address} is not eligible for campaign "${campaign.id}"`)
+    };
+  }
+
+  const data = {
+    address,
+    campaign: campaign.id,
+    eligible: true,
+    amount: formatTokenAmount(BigInt(claim.amount), campaign.token.decimals),
+    amountWei: claim.amount,
+    reason: claim.reason ?? null,
+    merkleRoot: campaign.merkleRoot,
+    proof: claim.proof
+  };
+
+  return {
+    ok: true,
+    data,
+    print: () => {
+      console.log(`✅ ${address} is eligible for campaign "${campaign.id}"`);
+      console.log(`- Amount: ${data.amount} ${campaign.token.symbol} (${data.amountWei} base units)`);
+      if (data.reason) console.log(`- Reason: ${data.reason}`);
+      console.log(`- Merkle root: ${data.merkleRoot}`);
+      console.log('- Proof:');
+      data.proof.forEach(node => console.log(`  ${node}`));
+    }
+  };
+};
+
+const verify: Command = async (args, context) => {
+  const amountFlag = takeFlag(args, '--amount');
+  const proofFlag = takeFlag(args, '--proof');
+  const rootFlag = takeFlag(args, '--root');
+
+  // Without an address, check every file and proof of the campaign
+  if (args[0] === undefined) {
+    const report = await verifyAirdropFiles(getCampaignDir(context.dataDir, context.campaign));
+    return { ok: report.valid, data: report, print: () => printVerificationReport(report) };
+  }
+
+  const address = parseAddress(args[0]);
+  const campaign = requireCampaign(context.dataDir, context.campaign);
+
+  // Anything not given on the command line comes from the campaign's proofs
+  let amountWei = amountFlag === undefined ? undefined : ethers.parseUnits(amountFlag, campaign.token.decimals);
+  let proofNodes = proofFlag === undefined ? undefined : proofFlag.split(',').filter(Boolean);
+  if (amountWei === undefined || proofNodes === undefined) {
+    const claim = findCampaignClaim(context.dataDir, context.campaign, address);
+    if (!claim) {
+      throw new Error(`${address} is not in campaign "${campaign.id}"; pass --amount and --proof to verify it`);
+    }
+    amountWei = amountWei ?? BigInt(claim.amount);
+    proofNodes = proofNodes ?? claim.proof;
+  }
+
+  const merkleRoot = rootFlag || campaign.merkleRoot;
+  const valid = verifyMerkleProof(merkleRoot, computeLeaf(address, amountWei, campaign.leafEncoding), proofNodes);
+  const data = { address, campaign: campaign.id, amountWei: amountWei.toString(), merkleRoot, valid };
+
+  return {
+    ok: valid,
+    data,
+    print: () => console.log(
+      `${valid ? '✅ Valid' : '❌ Invalid'} proof for ${address} (${formatTokenAmount(amountWei!, campaign.token.decimals)} tokens) against ${merkleRoot}`
+    )
+  };
+};
+
+const stats: Command = async (args, context) => {
+  const input = await buildTreeFromInput(args);
+
+  if (input) {
+    const { inputFile, tree } = input;
+    const { totalTokensWei, ...rest } = tree.getStats();
+    const data = { source: inputFile, ...rest, totalTokensWei: totalTokensWei.toString() };
+    return {
+      ok: true,
+      data,
+      print: () => {
+        console.log(`\n📊 Statistics for ${inputFile}:`);
+        console.log(`- Eligible users: ${data.totalEligibleUsers}`);
+        console.log(`- Total tokens: ${data.totalTokensToDistribute} (${data.totalTokensWei} base units, ${data.decimals} decimals)`);
+        console.log(`- Merkle root: ${data.merkleRoot}`);
+        console.log(`- Leaf encoding: ${data.leafEncoding}`);
+      }
+    };
+  }
+
+  const campaign = requireCampaign(context.dataDir, context.campaign);
+  const totalTokens = formatTokenAmount(BigInt(campaign.totalTokensWei), campaign.token.decimals);
+  const { history, ...data } = { ...campaign, totalTokens };
+
+  return {
+    ok: true,
+    data: { ...data, previousVersions: history.length },
+    print: () => {
+      console.log(`\n📊 Campaign "${campaign.name}" (${campaign.id}), version ${campaign.version}:`);
+      console.log(`- Eligible users: ${campaign.totalUsers}`);
+      console.log(`- Total tokens: ${totalTokens} ${campaign.token.symbol} (${campaign.totalTokensWei} base units, ${campaign.token.decimals} decimals)`);
+      console.log(`- Merkle root: ${campaign.merkleRoot}`);
+      console.log(`- Leaf encoding: ${campaign.leafEncoding}`);
+      console.log(`- Claim window: ${campaign.claimWindow.end ? `until ${campaign.claimWindow.end}` : `${campaign.claimWindow.periodDays} days from deployment`}`);
+      if (campaign.deployment) {
+        console.log(`- Deployed: ${campaign.deployment.contractAddress} on chain ${campaign.deployment.chainId}`);
+      } else if (getLatestDeployment(campaign)) {
+        const latest = getLatestDeployment(campaign)!;
+        console.log(`- Not deployed: ${latest.contractAddress} on chain ${latest.chainId} still verifies ${latest.merkleRoot}`);
+      }
+      console.log(`- Generated: ${campaign.generatedAt}`);
+    }
+  };
+};
+
+const diff: Command = async (args, context) => {
+  const options = parseDiffArgs(args);
+
+  // Campaign ids are resolved to their detailed output
+  options.files = options.files.map(file =>
+    !fs.existsSync(file) && loadCampaign(context.dataDir, file)
+      ? path.join(getCampaignDir(context.dataDir, file), 'eligible-users-detailed.json')
+      : file
+  );
+
+  const result = await runDiff(options);
+  return {
+    ok: !(options.strict && result.warnings.length > 0),
+    data: result,
+    print: () => printDiff(result, options.decimals)
+  };
+};
+
+const exportCsv: Command = async (args, context) => {
+  const outputDir = getCampaignDir(context.dataDir, context.campaign);
+  const input = await buildTreeFromInput(args);
+
+  const tree = input
+    ? input.tree
+    : new AirdropMerkleTree((await loadCampaignTree(context.dataDir, context.campaign)).tree);
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  await generateCSV(tree, {}, outputDir);
+
+  return {
+    ok: true,
+    data: { file: path.join(outputDir, 'eligible-users.csv'), totalUsers: tree.getStats().totalEligibleUsers }
+  };
+};
+
+const reconcile: Command = async (args, context) => {
+  const options = parseReconcileArgs(args);
+  const campaign = requireCampaign(context.dataDir, context.campaign);
+  const report = await reconcileAirdrop({ ...options, dataDir: context.dataDir, campaign: campaign.id });
+
+  return {
+    ok: true,
+    data: report,
+    print: () => printReconciliation(report, campaign.token.decimals)
+  };
+};
+
+const safeClaims: Command = async (args, context) => {
+  const options = parseSafeClaimArgs(args);
+  const campaign = requireCampaign(context.dataDir, context.campaign);
+  const report = await generateSafeClaimBatches({ ...options, dataDir: context.dataDir, campaign: campaign.id });
+
+  return {
+    ok: report.generated.length > 0,
+    data: report,
+    print: () => printSafeClaimReport(report, campaign.token.decimals)
+  };
+};
+
+const recordUpdate: Command = async (args, context) => {
+  const rpcUrl = takeFlag(args, '--rpc') ?? process.env.AIRDROP_RPC_URL;
+  if (!rpcUrl) throw new UsageError('An RPC endpoint is required (--rpc <url>)');
+
+  const campaign = requireCampaign(context.dataDir, context.campaign);
+  const previous = getLatestDeployment(campaign);
+  if (!previous) throw new Error(`Campaign "${campaign.id}" has never been deployed`);
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  if (BigInt(previous.chainId) !== chainId) {
+    throw new Error(`Campaign was deployed on chain ${previous.chainId}, but the RPC endpoint is chain ${chainId}`);
+  }
+
+  const airdrop = new ethers.Contract(previous.contractAddress, AIRDROP_ADMIN_ABI, provider);
+  const [merkleRoot, claimPeriodEnd, totalClaimable]: [string, bigint, bigint] = await Promise.all([
+    airdrop.merkleRoot(),
+    airdrop.claimPeriodEnd(),
+    airdrop.totalClaimable()
+  ]);
+  if (merkleRoot.toLowerCase() !== campaign.merkleRoot.toLowerCase()) {
+    throw new Error(
+      `${previous.contractAddress} verifies root ${merkleRoot}, not version ${campaign.version}'s ${campaign.merkleRoot}; call updateAirdrop first`
+    );
+  }
+
+  const deployment: CampaignDeployment = {
+    ...previous,
+    merkleRoot,
+    totalClaimable: totalClaimable.toString(),
+    claimPeriodEnd: new Date(Number(claimPeriodEnd) * 1000).toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+  recordDeployment(context.dataDir, campaign, deployment);
+
+  return {
+    ok: true,
+    data: deployment,
+    print: () => {
+      console.log(`✅ Version ${campaign.version} of "${campaign.id}" is deployed at ${deployment.contractAddress} on chain ${deployment.chainId}`);
+      console.log(`- Total claimable: ${formatTokenAmount(totalClaimable, campaign.token.decimals)} ${campaign.token.symbol}`);
+      console.log(`- Claims close at ${deployment.claimPeriodEnd}`);
+    }
+  };
+};
+
+const allocate: Command = async args => {
+  const explain = takeFlag(args, '--explain');
+  const outFile = takeFlag(args, '--out');
+  const decimalsFlag = takeFlag(args, '--decimals');
+  const rulesFile = args.find(arg => !arg.startsWith('--'));
+  if (!rulesFile) throw new UsageError('A rules file is required');
+
+  const result = await computeAllocations(loadAllocationRules(rulesFile), {
+    decimals: decimalsFlag === undefined ? undefined : Number(decimalsFlag)
+  });
+  const explained = explain === undefined
+    ? undefined
+    : result.allocations.find(allocation => allocation.address === parseAddress(explain)) ?? null;
+
+  // Same columns as an eligibility input
+  if (outFile) {
+    const rows = result.users.map(user => `${user.address},${user.amount},"${(user.reason || '').replace(/"/g, '""')}"`);
+    fs.writeFileSync(outFile, ['address,amount,reason', ...rows].join('\n') + '\n');
+  }
+
+  return {
+    ok: true,
+    data: { summary: result.summary, ...(explained !== undefined && { allocation: explained }), ...(outFile && { file: outFile }) },
+    print: () => {
+      printAllocationSummary(result);
+      if (explained) explainAllocation(explained, result.decimals);
+      if (explained === null) console.log(`\n🔎 ${explain} receives no allocation`);
+      if (outFile) console.log(`\n📄 Eligibility list written to ${outFile}`);
+    }
+  };
+};
+
+const COMMANDS: Record<string, Command> = {
+  generate,
+  verify,
+  proof,
+  stats,
+  diff,
+  'export-csv': exportCsv,
+  reconcile,
+  allocate,
+  'safe-claims': safeClaims,
+  'record-update': recordUpdate
+};
+
+/**
+ * Run a CLI command and return its exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const args = [...argv];
+  const json = takeSwitch(args, '--json');
+  const log = console.log;
+
+  // Keep stdout machine-readable: progress logs go to stderr in --json mode
+  if (json) console.log = console.error;
+
+  try {
+    const name = args.shift();
+    if (!name || name === 'help' || name === '--help') {
+      console.error(USAGE);
+      return name ? 0 : EXIT_USAGE;
+    }
+
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command "${name}"`);
+    }
+
+    const context: CliContext = {
+      dataDir: takeFlag(args, '--output') ?? takeFlag(args, '--data-dir') ?? DEFAULT_DATA_DIR,
+      campaign: takeFlag(args, '--campaign') ?? DEFAULT_CAMPAIGN,
+      json
+    };
+    getCampaignDir(context.dataDir, context.campaign); // Validates the id
+
+    // --input is an alias for the positional input file
+    const input = name === 'generate' ? takeFlag(args, '--input') : undefined;
+    if (input) args.unshift(input);
+
+    const result = await command(args, context);
+    if (json) {
+      log(JSON.stringify(result.data, null, 2));
+    } else {
+      result.print?.();
+    }
+    return result.ok ? 0 : EXIT_FAILED;
+  } catch (err) {
+    // Reverts, RPC failures and the like read better decoded
+    const decoded = decodeClaimError(err);
+    const message = decoded.kind !== 'unknown' ? formatClaimError(decoded) : err instanceof Error ? err.message : String(err);
+    if (json) {
+      log(JSON.stringify({ error: message }, null, 2));
+    } else {
+      console.error(`❌ ${message}`);
+      if (err instanceof UsageError) console.error(`\n${USAGE}`);
+    }
+    return err instanceof UsageError ? EXIT_USAGE : EXIT_FAILED;
+  } finally {
+    console.log = log;
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,433 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EligibleUser } from './types';
+import { formatTokenAmount } from './amounts';
+import { readCsvRows, streamJsonElements } from './eligibility-input';
+
+// Declarative allocation rules: activity datasets keyed by address feed
+// categories that grant a fixed, tiered or formula-based amount. Totals are
+// then clamped per address and scaled to fit the budget.
+
+// Types
+export interface DatasetSpec {
+  file: string; // CSV or JSON array, relative to the rules file
+  address?: string; // Address column or key, defaults to "address"
+  delimiter?: string; // CSV only
+}
+
+export interface Condition {
+  field: string; // "<dataset>.<field>"
+  min?: number; // Inclusive
+  max?: number; // Inclusive
+  before?: string; // Date, exclusive
+  after?: string; // Date, exclusive
+  equals?: string;
+  in?: string[];
+}
+
+export interface TierLevel {
+  min: number; // Metric value from which the level applies
+  amount: string; // Tokens
+}
+
+export interface FormulaSpec {
+  field: string;
+  rate: string; // Tokens per unit of the curved metric
+  curve?: 'linear' | 'sqrt' | 'log10'; // Defaults to linear
+  base?: string; // Tokens added once the formula applies
+}
+
+export interface CategoryRule {
+  name: string; // Also used as the reason in the tree
+  when?: Condition[]; // All must hold
+  amount?: string; // Exactly one of amount, tiers and formula
+  tiers?: { field: string; levels: TierLevel[] };
+  formula?: FormulaSpec;
+  max?: string; // Cap for this category, in tokens
+}
+
+export interface AllocationRules {
+  datasets: Record<string, DatasetSpec>;
+  categories: CategoryRule[];
+  perAddress?: { min?: string; max?: string }; // Floor and cap on each address's total
+  budget?: { total: string; fill?: boolean }; // fill also scales up to use the whole budget
+}
+
+export interface AllocationStep {
+  rule: string;
+  detail: string;
+  amountWei: string; // Amount after this step
+}
+
+export interface AddressAllocation {
+  address: string;
+  amountWei: string;
+  categories: string[];
+  steps: AllocationStep[];
+}
+
+export interface AllocationSummary {
+  addressesSeen: number;
+  addressesAllocated: number;
+  rawTotalWei: string; // Before caps, floors and the budget
+  totalWei: string;
+  budgetWei?: string;
+  scale?: number; // Applied to addresses not pinned at a floor or cap
+  byCategory: Record<string, { addresses: number; totalWei: string }>;
+}
+
+export interface AllocationResult {
+  users: EligibleUser[]; // Ready for AirdropMerkleTree
+  allocations: AddressAllocation[];
+  summary: AllocationSummary;
+  decimals: number;
+}
+
+type Metrics = Map<string, Record<string, unknown>>; // Lowercase address -> "<dataset>.<field>" -> value
+
+const FORMULA_DIGITS = 6; // Formula and budget-scaled amounts are rounded down to this many decimals
+
+class RulesError extends Error {
+  constructor(where: string, message: string) {
+    super(`${where}: ${message}`);
+    this.name = 'RulesError';
+  }
+}
+
+/**
+ * Load and check a rules file. Dataset paths are resolved against the
+ * directory the rules file is in.
+ */
+export function loadAllocationRules(filePath: string): AllocationRules {
+  const rules = JSON.parse(fs.readFileSync(filePath, 'utf8')) as AllocationRules;
+  const where = (suffix: string) => `${filePath}: ${suffix}`;
+
+  if (!rules.datasets || typeof rules.datasets !== 'object') {
+    throw new RulesError(filePath, '"datasets" must map dataset names to files');
+  }
+  for (const [name, dataset] of Object.entries(rules.datasets)) {
+    if (!dataset.file) throw new RulesError(where(`dataset "${name}"`), 'missing "file"');
+    dataset.file = path.resolve(path.dirname(filePath), dataset.file);
+  }
+
+  if (!Array.isArray(rules.categories) || rules.categories.length === 0) {
+    throw new RulesError(filePath, '"categories" must list at least one category');
+  }
+  const fields = (category: CategoryRule) => [
+    ...(category.when || []).map(condition => condition.field),
+    ...(category.tiers ? [category.tiers.field] : []),
+    ...(category.formula ? [category.formula.field] : [])
+  ];
+  for (const category of rules.categories) {
+    const at = where(`category "${category.name}"`);
+    if (!category.name) throw new RulesError(filePath, 'every category needs a "name"');
+
+    const kinds = [category.amount, category.tiers, category.formula].filter(kind => kind !== undefined);
+    if (kinds.length !== 1) {
+      throw new RulesError(at, 'needs exactly one of "amount", "tiers" and "formula"');
+    }
+    for (const field of fields(category)) {
+      const dataset = field.split('.')[0];
+      if (!field.includes('.') || !rules.datasets[dataset]) {
+        throw new RulesError(at, `field "${field}" must be "<dataset>.<field>" with a declared dataset`);
+      }
+    }
+    if (category.tiers && (category.tiers.levels || []).length === 0) {
+      throw new RulesError(at, 'tiers need at least one level');
+    }
+    if (category.formula?.curve && !['linear', 'sqrt', 'log10'].includes(category.formula.curve)) {
+      throw new RulesError(at, `unknown curve "${category.formula.curve}" (expected linear, sqrt or log10)`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Read every dataset into one table of metrics per address
+ */
+async function loadMetrics(rules: AllocationRules): Promise<Metrics> {
+  const metrics: Metrics = new Map();
+
+  for (const [name, dataset] of Object.entries(rules.datasets)) {
+    const addressKey = (dataset.address || 'address').toLowerCase();
+    const rows = path.extname(dataset.file).toLowerCase() === '.csv'
+      ? readCsvRows(dataset.file, dataset.delimiter || ',')
+      : mapJsonRows(dataset.file);
+
+    for await (const { row, line } of rows) {
+      const raw = Object.entries(row).find(([key]) => key.toLowerCase() === addressKey)?.[1];
+      if (typeof raw !== 'string' || !ethers.isAddress(raw.trim().toLowerCase())) {
+        throw new RulesError(`${dataset.file}:${line}`, `invalid or missing address in "${addressKey}"`);
+      }
+
+      const key = raw.trim().toLowerCase();
+      const values = metrics.get(key) || {};
+      for (const [field, value] of Object.entries(row)) {
+        values[`${name}.${field}`.toLowerCase()] = value;
+      }
+      metrics.set(key, values);
+    }
+  }
+
+  return metrics;
+}
+
+async function* mapJsonRows(filePath: string) {
+  for await (const { value, line } of streamJsonElements(filePath, 'array')) {
+    yield { row: value, line };
+  }
+}
+
+function readNumber(values: Record<string, unknown>, field: string): number | undefined {
+  const value = values[field.toLowerCase()];
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Whether a condition holds, with a human-readable description of why
+ */
+function checkCondition(values: Record<string, unknown>, condition: Condition): { passed: boolean; detail: string } {
+  const raw = values[condition.field.toLowerCase()];
+  if (raw === undefined || raw === null || raw === '') {
+    return { passed: false, detail: `${condition.field} missing` };
+  }
+
+  const text = String(raw);
+  const number = Number(raw);
+  const time = Date.parse(text);
+  const checks: [boolean, string][] = [];
+
+  if (condition.min !== undefined) checks.push([number >= condition.min, `≥ ${condition.min}`]);
+  if (condition.max !== undefined) checks.push([number <= condition.max, `≤ ${condition.max}`]);
+  if (condition.before !== undefined) checks.push([time < Date.parse(condition.before), `before ${condition.before}`]);
+  if (condition.after !== undefined) checks.push([time > Date.parse(condition.after), `after ${condition.after}`]);
+  if (condition.equals !== undefined) checks.push([text === condition.equals, `= ${condition.equals}`]);
+  if (condition.in !== undefined) checks.push([condition.in.includes(text), `in [${condition.in.join(', ')}]`]);
+
+  return {
+    passed: checks.every(([passed]) => passed),
+    detail: `${condition.field} ${text} ${checks.map(([, label]) => label).join(', ')}`
+  };
+}
+
+/**
+ * Amount one category grants an address, or null if it does not apply
+ */
+function applyCategory(
+  values: Record<string, unknown>,
+  category: CategoryRule,
+  decimals: number
+): { amountWei: bigint; detail: string } | null {
+  const conditions = (category.when || []).map(condition => checkCondition(values, condition));
+  if (conditions.some(condition => !condition.passed)) return null;
+  const because = conditions.map(condition => condition.detail);
+
+  let amountWei: bigint;
+  let detail: string;
+
+  if (category.amount !== undefined) {
+    amountWei = ethers.parseUnits(category.amount, decimals);
+    detail = `fixed ${category.amount}`;
+  } else if (category.tiers) {
+    const metric = readNumber(values, category.tiers.field);
+    const level = metric === undefined
+      ? undefined
+      : [...category.tiers.levels].sort((a, b) => b.min - a.min).find(tier => metric >= tier.min);
+    if (!level) return null;
+    amountWei = ethers.parseUnits(level.amount, decimals);
+    detail = `${category.tiers.field} ${metric} reaches tier ≥ ${level.min}: ${level.amount}`;
+  } else {
+    const formula = category.formula!;
+    const metric = readNumber(values, formula.field);
+    if (metric === undefined || metric < 0) return null;
+
+    const curve = formula.curve || 'linear';
+    const curved = curve === 'sqrt' ? Math.sqrt(metric) : curve === 'log10' ? Math.log10(1 + metric) : metric;
+    const digits = Math.min(FORMULA_DIGITS, decimals);
+    const scaled = Math.floor(curved * Number(formula.rate) * 10 ** digits) / 10 ** digits;
+    amountWei = ethers.parseUnits(scaled.toFixed(digits), decimals) +
+      (formula.base ? ethers.parseUnits(formula.base, decimals) : 0n);
+
+    const term = curve === 'linear' ? `${formula.field} ${metric}` : `${curve}(${formula.field} ${metric})`;
+    detail = `${term} × ${formula.rate}${formula.base ? ` + ${formula.base}` : ''}`;
+  }
+
+  if (category.max !== undefined) {
+    const maxWei = ethers.parseUnits(category.max, decimals);
+    if (amountWei > maxWei) {
+      amountWei = maxWei;
+      detail += `, capped at ${category.max}`;
+    }
+  }
+
+  if (amountWei <= 0n) return null;
+  return { amountWei, detail: [...because, detail].join('; ') };
+}
+
+/**
+ * Scale amounts so they sum to at most the target (or as close to it as the
+ * rounding unit allows when filling), pinning addresses that hit the floor
+ * or cap and spreading the rest proportionally among the others
+ */
+function fitBudget(amounts: bigint[], targetWei: bigint, floorWei: bigint, capWei: bigint | undefined, unitWei: bigint) {
+  const pinned = new Map<number, bigint>();
+
+  for (;;) {
+    let pinnedWei = 0n;
+    let freeWei = 0n;
+    pinned.forEach(value => (pinnedWei += value));
+    amounts.forEach((value, index) => {
+      if (!pinned.has(index)) freeWei += value;
+    });
+
+    const remaining = targetWei - pinnedWei;
+    if (remaining < 0n) {
+      throw new Error(`Budget ${targetWei} cannot cover the per-address floors`);
+    }
+
+    let changed = false;
+    const scaled = amounts.map((value, index) => {
+      if (pinned.has(index)) return pinned.get(index)!;
+      const next = freeWei === 0n ? 0n : ((value * remaining) / freeWei / unitWei) * unitWei;
+      if (next < floorWei) {
+        pinned.set(index, floorWei);
+        changed = true;
+      } else if (capWei !== undefined && next > capWei) {
+        pinned.set(index, capWei);
+        changed = true;
+      }
+      return next;
+    });
+
+    if (!changed) {
+      return { amounts: scaled, scale: freeWei === 0n ? 1 : Number((remaining * 1_000_000n) / freeWei) / 1_000_000 };
+    }
+  }
+}
+
+/**
+ * Apply the rules to every address in the datasets
+ */
+export async function computeAllocations(rules: AllocationRules, options: { decimals?: number } = {}): Promise<AllocationResult> {
+  const decimals = options.decimals ?? 18;
+  const tokens = (wei: bigint) => formatTokenAmount(wei, decimals);
+  const metrics = await loadMetrics(rules);
+  const floorWei = rules.perAddress?.min ? ethers.parseUnits(rules.perAddress.min, decimals) : 0n;
+  const capWei = rules.perAddress?.max ? ethers.parseUnits(rules.perAddress.max, decimals) : undefined;
+  if (capWei !== undefined && capWei < floorWei) {
+    throw new Error(`perAddress.max (${rules.perAddress!.max}) is below perAddress.min (${rules.perAddress!.min})`);
+  }
+
+  const allocations: (AddressAllocation & { wei: bigint })[] = [];
+  const byCategory: AllocationSummary['byCategory'] = {};
+  let rawTotalWei = 0n;
+
+  for (const [key, values] of metrics) {
+    const allocation = { address: ethers.getAddress(key), amountWei: '0', categories: [] as string[], steps: [] as AllocationStep[], wei: 0n };
+
+    for (const category of rules.categories) {
+      const granted = applyCategory(values, category, decimals);
+      if (!granted) continue;
+
+      allocation.wei += granted.amountWei;
+      allocation.categories.push(category.name);
+      allocation.steps.push({ rule: category.name, detail: granted.detail, amountWei: allocation.wei.toString() });
+
+      const totals = byCategory[category.name] || { addresses: 0, totalWei: '0' };
+      byCategory[category.name] = {
+        addresses: totals.addresses + 1,
+        totalWei: (BigInt(totals.totalWei) + granted.amountWei).toString()
+      };
+    }
+    if (allocation.wei === 0n) continue;
+    rawTotalWei += allocation.wei;
+
+    // Per-address floor and cap
+    if (allocation.wei < floorWei) {
+      allocation.wei = floorWei;
+      allocation.steps.push({ rule: 'floor', detail: `raised to the floor of ${tokens(floorWei)}`, amountWei: floorWei.toString() });
+    } else if (capWei !== undefined && allocation.wei > capWei) {
+      allocation.wei = capWei;
+      allocation.steps.push({ rule: 'cap', detail: `capped at ${tokens(capWei)}`, amountWei: capWei.toString() });
+    }
+    allocations.push(allocation);
+  }
+
+  // Global budget
+  let totalWei = allocations.reduce((sum, allocation) => sum + allocation.wei, 0n);
+  const budgetWei = rules.budget ? ethers.parseUnits(rules.budget.total, decimals) : undefined;
+  let scale: number | undefined;
+
+  if (budgetWei !== undefined && (totalWei > budgetWei || (rules.budget!.fill && totalWei < budgetWei))) {
+    const unitWei = 10n ** BigInt(Math.max(0, decimals - FORMULA_DIGITS));
+    const fitted = fitBudget(allocations.map(allocation => allocation.wei), budgetWei, floorWei, capWei, unitWei);
+    scale = fitted.scale;
+    allocations.forEach((allocation, index) => {
+      const next = fitted.amounts[index];
+      if (next === allocation.wei) return;
+      const pinnedAt = next === floorWei ? ' (held at the floor)' : next === capWei ? ' (held at the cap)' : '';
+      allocation.wei = next;
+      allocation.steps.push({
+        rule: 'budget',
+        detail: `scaled by ${fitted.scale} to fit the budget of ${rules.budget!.total}${pinnedAt}`,
+        amountWei: next.toString()
+      });
+    });
+    totalWei = allocations.reduce((sum, allocation) => sum + allocation.wei, 0n);
+  }
+
+  const final = allocations
+    .filter(allocation => allocation.wei > 0n)
+    .map(({ wei, ...allocation }) => ({ ...allocation, amountWei: wei.toString() }));
+
+  return {
+    users: final.map(allocation => ({
+      address: allocation.address,
+      amount: tokens(BigInt(allocation.amountWei)),
+      reason: allocation.categories.join(', ')
+    })),
+    allocations: final,
+    summary: {
+      addressesSeen: metrics.size,
+      addressesAllocated: final.length,
+      rawTotalWei: rawTotalWei.toString(),
+      totalWei: totalWei.toString(),
+      ...(budgetWei !== undefined && { budgetWei: budgetWei.toString() }),
+      ...(scale !== undefined && { scale }),
+      byCategory
+    },
+    decimals
+  };
+}
+
+/**
+ * Print a human-readable summary of an allocation run
+ */
+export function printAllocationSummary(result: AllocationResult) {
+  const { summary, decimals } = result;
+  const tokens = (wei: string) => formatTokenAmount(BigInt(wei), decimals);
+
+  console.log('\n🧮 Allocation summary:');
+  console.log(`- Addresses in datasets: ${summary.addressesSeen}`);
+  console.log(`- Addresses allocated: ${summary.addressesAllocated}`);
+  console.log(`- Total before caps and budget: ${tokens(summary.rawTotalWei)}`);
+  console.log(`- Total allocated: ${tokens(summary.totalWei)}${summary.budgetWei ? ` of a ${tokens(summary.budgetWei)} budget` : ''}`);
+  if (summary.scale !== undefined) console.log(`- Budget scale: ${summary.scale}`);
+  for (const [name, category] of Object.entries(summary.byCategory)) {
+    console.log(`  - ${name}: ${category.addresses} addresses, ${tokens(category.totalWei)} before caps and budget`);
+  }
+}
+
+/**
+ * Print which rules fired for one address
+ */
+export function explainAllocation(allocation: AddressAllocation, decimals = 18) {
+  console.log(`\n🔎 ${allocation.address}: ${formatTokenAmount(BigInt(allocation.amountWei), decimals)} tokens`);
+  for (const step of allocation.steps) {
+    console.log(`- ${step.rule}: ${step.detail} → ${formatTokenAmount(BigInt(step.amountWei), decimals)}`);
+  }
+}
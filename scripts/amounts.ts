@@ -0,0 +1,9 @@
+import { ethers } from 'ethers';
+
+/**
+ * Format a base-unit amount as a plain decimal string ("1000", "12.5")
+ */
+export function formatTokenAmount(amount: bigint, decimals = 18): string {
+  const formatted = ethers.formatUnits(amount, decimals);
+  return formatted.endsWith('.0') ? formatted.slice(0, -2) : formatted;
+}
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { readEligibilityFile } from './eligibility-input';
+import { AirdropTreeBuilder } from './merkle-builder';
+import { ProofShard, ProofShardManifest, ShardedClaim, getShardKey } from '../lib/proofShards';
+import {
+  CAMPAIGN_FILE,
+  CAMPAIGN_INDEX_FILE,
+  CAMPAIGN_VERSIONS_DIR,
+  CampaignDeployment,
+  CampaignIndex,
+  CampaignMetadata,
+  isValidCampaignId,
+  summarizeCampaign
+} from '../lib/campaigns';
+
+// Types
+export interface CampaignOptions {
+  id?: string; // Defaults to "default"
+  name?: string;
+  claimPeriodDays?: number;
+  claimEnd?: string; // ISO date
+  tokenAddress?: string;
+  tokenSymbol?: string;
+  chainId?: number;
+  network?: string;
+}
+
+export const DEFAULT_DATA_DIR = './airdrop-data';
+
+// Files a generator run writes that belong to one version of the tree
+const VERSIONED_FILES = [
+  'deployment-config.json',
+  'eligible-addresses.json',
+  'eligible-users-detailed.json',
+  'merkle-tree.json',
+  'allocations.json'
+];
+
+/**
+ * Directory holding a campaign's generated files
+ */
+export function getCampaignDir(dataDir: string, id: string): string {
+  if (!isValidCampaignId(id)) {
+    throw new Error(`Invalid campaign id "${id}" (letters, digits, ".", "_" and "-" only)`);
+  }
+  return path.join(dataDir, id);
+}
+
+/**
+ * Load a campaign's metadata, or null if it has never been generated
+ */
+export function loadCampaign(dataDir: string, id: string): CampaignMetadata | null {
+  const file = path.join(getCampaignDir(dataDir, id), CAMPAIGN_FILE);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Load the campaign index, or an empty one if none has been written yet
+ */
+export function readCampaignIndex(dataDir: string): CampaignIndex {
+  const file = path.join(dataDir, CAMPAIGN_INDEX_FILE);
+  if (!fs.existsSync(file)) {
+    return { version: 1, updatedAt: new Date().toISOString(), campaigns: [] };
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Write a campaign's metadata and refresh its entry in the campaign index
+ */
+export function saveCampaign(dataDir: string, campaign: CampaignMetadata) {
+  const dir = getCampaignDir(dataDir, campaign.id);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, CAMPAIGN_FILE), JSON.stringify(campaign, null, 2));
+
+  const index = readCampaignIndex(dataDir);
+  const summary = summarizeCampaign(campaign);
+  const position = index.campaigns.findIndex(item => item.id === campaign.id);
+  if (position === -1) {
+    index.campaigns.push(summary);
+  } else {
+    index.campaigns[position] = summary;
+  }
+  index.campaigns.sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+  index.updatedAt = new Date().toISOString();
+
+  fs.writeFileSync(path.join(dataDir, CAMPAIGN_INDEX_FILE), JSON.stringify(index, null, 2));
+}
+
+function moveSync(from: string, to: string) {
+  try {
+    fs.renameSync(from, to);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    // Proofs written to another volume
+    fs.cpSync(from, to, { recursive: true });
+    fs.rmSync(from, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Move a version's tree files and proofs to versions/<version>/ before the next
+ * version overwrites them. The folder gets its own campaign.json, so it can be
+ * used as a campaign of the data directory <campaign>/versions. Returns the
+ * folder relative to the campaign folder.
+ */
+export function archiveCampaignVersion(dataDir: string, campaign: CampaignMetadata): string {
+  const campaignDir = getCampaignDir(dataDir, campaign.id);
+  const relativeDir = path.join(CAMPAIGN_VERSIONS_DIR, String(campaign.version));
+  const versionDir = path.join(campaignDir, relativeDir);
+  fs.rmSync(versionDir, { recursive: true, force: true });
+  fs.mkdirSync(versionDir, { recursive: true });
+
+  for (const file of VERSIONED_FILES) {
+    if (fs.existsSync(path.join(campaignDir, file))) {
+      moveSync(path.join(campaignDir, file), path.join(versionDir, file));
+    }
+  }
+  const proofsDir = path.resolve(campaignDir, campaign.proofs.dir);
+  if (fs.existsSync(proofsDir)) {
+    moveSync(proofsDir, path.join(versionDir, 'proofs'));
+  }
+
+  const archived: CampaignMetadata = { ...campaign, proofs: { ...campaign.proofs, dir: 'proofs' } };
+  fs.writeFileSync(path.join(versionDir, CAMPAIGN_FILE), JSON.stringify(archived, null, 2));
+  return relativeDir;
+}
+
+/**
+ * Record a deployment in deployments/<network>.json and make it the
+ * campaign's current deployment
+ */
+export function recordDeployment(dataDir: string, campaign: CampaignMetadata, deployment: CampaignDeployment) {
+  const dir = path.join(getCampaignDir(dataDir, campaign.id), 'deployments');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${deployment.network || deployment.chainId}.json`), JSON.stringify(deployment, null, 2));
+
+  saveCampaign(dataDir, { ...campaign, deployment });
+}
+
+/**
+ * Load a generated campaign, failing with a clear message if it does not exist
+ */
+export function requireCampaign(dataDir: string, id: string): CampaignMetadata {
+  const campaign = loadCampaign(dataDir, id);
+  if (!campaign) {
+    throw new Error(`Campaign "${id}" has not been generated in ${dataDir}`);
+  }
+  return campaign;
+}
+
+/**
+ * Rebuild a campaign's tree from its eligible-users-detailed.json
+ */
+export async function loadCampaignTree(dataDir: string, id: string) {
+  const campaign = requireCampaign(dataDir, id);
+  const file = path.join(getCampaignDir(dataDir, id), 'eligible-users-detailed.json');
+  const builder = new AirdropTreeBuilder({ decimals: campaign.token.decimals, leafEncoding: campaign.leafEncoding });
+
+  const records = readEligibilityFile(file, { format: 'json', columns: { address: 'address', amount: 'amountWei' } });
+  for await (const { user } of records) {
+    builder.addWei(user.address, BigInt(user.amount), user.reason);
+  }
+
+  return { campaign, tree: builder.build() };
+}
+
+/**
+ * Look up an address in a campaign's proof shards without loading the full list
+ */
+export function findCampaignClaim(dataDir: string, id: string, address: string): ShardedClaim | null {
+  const campaign = requireCampaign(dataDir, id);
+  const proofsDir = path.resolve(getCampaignDir(dataDir, id), campaign.proofs.dir);
+  const manifest: ProofShardManifest = JSON.parse(fs.readFileSync(path.join(proofsDir, 'index.json'), 'utf8'));
+
+  const shard = manifest.shards[getShardKey(address, manifest.keyType, manifest.keyLength)];
+  if (!shard) return null;
+
+  const entries: ProofShard = JSON.parse(fs.readFileSync(path.join(proofsDir, shard.file), 'utf8'));
+  const entry = entries[address.toLowerCase()];
+  return entry ? { address: ethers.getAddress(address), ...entry } : null;
+}
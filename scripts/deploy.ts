@@ -0,0 +1,194 @@
+import { ethers, network } from 'hardhat';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTokenAmount } from './amounts';
+import { DEFAULT_DATA_DIR, getCampaignDir, recordDeployment, requireCampaign } from './campaigns';
+import { printVerificationReport, verifyAirdropFiles } from './verify-airdrop';
+import { CampaignDeployment, DEFAULT_CAMPAIGN } from '../lib/campaigns';
+
+// `hardhat run` does not pass arguments through, so options come from the environment:
+//   AIRDROP_CAMPAIGN       campaign to deploy (default "default")
+//   AIRDROP_DATA_DIR       data directory (default ./airdrop-data)
+//   AIRDROP_TOKEN_ADDRESS  existing token to distribute; otherwise the campaign's
+//                          token address, otherwise a new PayCryptToken is deployed
+//                          (local networks always get a new token unless this is set)
+//   AIRDROP_SKIP_FUNDING   set to 1 to leave funding to the token holder
+//   AIRDROP_REDEPLOY       set to 1 to deploy again on a network already recorded
+
+// Types
+export interface DeployOptions {
+  dataDir?: string;
+  campaign?: string;
+  tokenAddress?: string; // Existing token to distribute
+  skipFunding?: boolean; // Leave funding to the token holder
+  redeploy?: boolean; // Deploy again on a network already recorded
+  networkName?: string; // Network the deployment is checked and recorded as; defaults to the one Hardhat runs on
+}
+
+/**
+ * Throw if an on-chain value differs from what was deployed
+ */
+function expectOnChain(name: string, actual: unknown, expected: unknown) {
+  if (String(actual).toLowerCase() !== String(expected).toLowerCase()) {
+    throw new Error(`On-chain ${name} is ${actual}, expected ${expected}`);
+  }
+  console.log(`- ${name}: ${actual} ✅`);
+}
+
+/**
+ * Deploy a generated campaign's airdrop, fund it, check it on-chain and record
+ * it in the campaign. Refuses data the contract cannot serve, the wrong chain,
+ * a network the campaign is already deployed on and a deployer short of tokens.
+ */
+export async function deployCampaign(options: DeployOptions = {}): Promise<CampaignDeployment> {
+  const dataDir = options.dataDir || DEFAULT_DATA_DIR;
+  const campaign = requireCampaign(dataDir, options.campaign || DEFAULT_CAMPAIGN);
+  const campaignDir = getCampaignDir(dataDir, campaign.id);
+  const config = JSON.parse(fs.readFileSync(path.join(campaignDir, 'deployment-config.json'), 'utf8'));
+  const totalWei = BigInt(config.totalTokensWei);
+  const { chainId } = await ethers.provider.getNetwork();
+  const networkName = options.networkName || network.name;
+  const isLocal = networkName === 'hardhat' || networkName === 'localhost';
+  // The in-process network disappears with this process, so nothing is recorded for it
+  const isEphemeral = networkName === 'hardhat';
+
+  console.log(`🚀 Deploying campaign "${campaign.name}" (${campaign.id}, version ${campaign.version}) to ${networkName} (chain ${chainId})`);
+
+  // Refuse anything the contract could not serve
+  if (config.leafEncoding !== 'packed') {
+    throw new Error(`PayCryptAirdrop verifies packed leaves, but this campaign uses "${config.leafEncoding}" leaves`);
+  }
+  // Local networks are for rehearsals and may stand in for any chain
+  if (!isLocal && campaign.chainId !== undefined && BigInt(campaign.chainId) !== chainId) {
+    throw new Error(`Campaign targets chain ${campaign.chainId}, but ${networkName} is chain ${chainId}`);
+  }
+  const recordPath = path.join(campaignDir, 'deployments', `${networkName}.json`);
+  if (!isEphemeral && fs.existsSync(recordPath) && !options.redeploy) {
+    const previous: CampaignDeployment = JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+    throw new Error(
+      `Campaign is already deployed on ${networkName} at ${previous.contractAddress}; set AIRDROP_REDEPLOY=1 to deploy again`
+    );
+  }
+
+  // Never deploy data that does not verify
+  const verification = await verifyAirdropFiles(campaignDir);
+  printVerificationReport(verification);
+  if (!verification.valid) {
+    throw new Error(`Campaign data failed verification, fix it before deploying`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  console.log(`\n👤 Deployer: ${deployer.address}`);
+
+  // Token: reuse an existing one or deploy a fresh PayCryptToken
+  let tokenAddress = options.tokenAddress || (isLocal ? undefined : campaign.token.address);
+  let tokenTransactionHash: string | undefined;
+  if (tokenAddress) {
+    tokenAddress = ethers.getAddress(tokenAddress);
+    console.log(`🪙 Using existing token ${tokenAddress}`);
+  } else {
+    const Token = await ethers.getContractFactory('PayCryptToken');
+    const deployedToken = await Token.deploy();
+    await deployedToken.waitForDeployment();
+    tokenAddress = await deployedToken.getAddress();
+    tokenTransactionHash = deployedToken.deploymentTransaction()?.hash;
+    console.log(`🪙 Token deployed to ${tokenAddress}`);
+  }
+
+  const token = await ethers.getContractAt('PayCryptToken', tokenAddress);
+  const tokenDecimals = Number(await token.decimals());
+  if (tokenDecimals !== config.tokenDecimals) {
+    throw new Error(`Token has ${tokenDecimals} decimals, but amounts were generated for ${config.tokenDecimals}`);
+  }
+
+  // Claim window: a fixed end date, or the claim period counted from now
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const claimPeriodEnd = campaign.claimWindow.end
+    ? Math.floor(Date.parse(campaign.claimWindow.end) / 1000)
+    : latestBlock!.timestamp + campaign.claimWindow.periodDays * 24 * 60 * 60;
+  if (claimPeriodEnd <= latestBlock!.timestamp) {
+    throw new Error(`Claim window ended at ${campaign.claimWindow.end}`);
+  }
+
+  // Make sure funding can succeed before anything else is deployed
+  const skipFunding = !!options.skipFunding;
+  const balance: bigint = await token.balanceOf(deployer.address);
+  if (!skipFunding && balance < totalWei) {
+    throw new Error(
+      `Deployer holds ${formatTokenAmount(balance, tokenDecimals)} tokens but the airdrop needs ` +
+      `${formatTokenAmount(totalWei, tokenDecimals)}; set AIRDROP_SKIP_FUNDING=1 and fund it from the token holder`
+    );
+  }
+
+  // Deploy the airdrop contract
+  const Airdrop = await ethers.getContractFactory('PayCryptAirdrop');
+  const airdrop = await Airdrop.deploy(tokenAddress, config.merkleRoot, claimPeriodEnd, totalWei);
+  await airdrop.waitForDeployment();
+  const airdropAddress = await airdrop.getAddress();
+  const deployReceipt = await airdrop.deploymentTransaction()!.wait();
+  console.log(`📦 Airdrop deployed to ${airdropAddress} (block ${deployReceipt!.blockNumber})`);
+
+  // Fund it with the full claimable amount
+  let fundingTransactionHash: string | undefined;
+  if (skipFunding) {
+    console.log(`⚠️  Funding skipped: transfer ${formatTokenAmount(totalWei, tokenDecimals)} tokens to ${airdropAddress} before announcing`);
+  } else {
+    const transfer = await token.transfer(airdropAddress, totalWei);
+    await transfer.wait();
+    fundingTransactionHash = transfer.hash;
+    console.log(`💰 Funded with ${formatTokenAmount(totalWei, tokenDecimals)} tokens`);
+  }
+
+  // Read everything back from the chain
+  console.log('\n🔍 Checking on-chain state:');
+  expectOnChain('token', await airdrop.token(), tokenAddress);
+  expectOnChain('merkleRoot', await airdrop.merkleRoot(), config.merkleRoot);
+  expectOnChain('totalClaimable', await airdrop.totalClaimable(), totalWei);
+  expectOnChain('claimPeriodEnd', await airdrop.claimPeriodEnd(), claimPeriodEnd);
+  expectOnChain('owner', await airdrop.owner(), deployer.address);
+  if (fundingTransactionHash) {
+    expectOnChain('balance', await token.balanceOf(airdropAddress), totalWei);
+  }
+
+  const deployment: CampaignDeployment = {
+    chainId: Number(chainId),
+    network: networkName,
+    contractAddress: airdropAddress,
+    tokenAddress,
+    deployer: deployer.address,
+    merkleRoot: config.merkleRoot,
+    totalClaimable: totalWei.toString(),
+    claimPeriodEnd: new Date(claimPeriodEnd * 1000).toISOString(),
+    deployedAt: new Date().toISOString(),
+    blockNumber: deployReceipt!.blockNumber,
+    transactionHash: deployReceipt!.hash,
+    ...(tokenTransactionHash && { tokenTransactionHash }),
+    ...(fundingTransactionHash && { fundingTransactionHash })
+  };
+  if (isEphemeral) {
+    console.log('\n✅ Deployment checked; not recorded because the hardhat network exits with this process');
+  } else {
+    recordDeployment(dataDir, campaign, deployment);
+    console.log(`\n✅ Deployment recorded in ${recordPath} and ${campaignDir}/campaign.json`);
+  }
+  console.log(`- Claims close at ${deployment.claimPeriodEnd}`);
+  return deployment;
+}
+
+async function main() {
+  await deployCampaign({
+    dataDir: process.env.AIRDROP_DATA_DIR,
+    campaign: process.env.AIRDROP_CAMPAIGN,
+    tokenAddress: process.env.AIRDROP_TOKEN_ADDRESS,
+    skipFunding: process.env.AIRDROP_SKIP_FUNDING === '1',
+    redeploy: process.env.AIRDROP_REDEPLOY === '1'
+  });
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,329 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LeafEncoding } from './types';
+import { formatTokenAmount } from './amounts';
+import { InputOptions, parseColumnMapping, readEligibilityFile } from './eligibility-input';
+import { DuplicateStrategy, EligibilityValidator, loadAddressList } from './validate-eligibility';
+import { AirdropTreeBuilder } from './merkle-builder';
+
+// Types
+export interface SnapshotEntry {
+  address: string;
+  amountWei: bigint;
+  reason?: string;
+}
+
+export interface Snapshot {
+  source: string;
+  kind: 'input' | 'detailed';
+  entries: Map<string, SnapshotEntry>; // Keyed by lowercase address
+  totalWei: bigint;
+  merkleRoot: string;
+}
+
+export interface SnapshotOptions extends InputOptions {
+  decimals?: number;
+  leafEncoding?: LeafEncoding;
+  duplicates?: DuplicateStrategy;
+}
+
+export interface AmountChange {
+  address: string;
+  oldAmountWei: string;
+  newAmountWei: string;
+  deltaWei: string;
+}
+
+export interface AirdropDiff {
+  old: { source: string; merkleRoot: string; totalUsers: number; totalWei: string };
+  new: { source: string; merkleRoot: string; totalUsers: number; totalWei: string };
+  rootChanged: boolean;
+  totalDeltaWei: string;
+  added: { address: string; amountWei: string; reason?: string }[];
+  removed: { address: string; amountWei: string; reason?: string }[];
+  changed: AmountChange[];
+  unchanged: number;
+  warnings: { address: string; message: string }[];
+}
+
+const CLAIM_CHECK_CONCURRENCY = 10;
+
+/**
+ * Whether a JSON file looks like generator output (entries carry amountWei)
+ */
+function isDetailedOutput(filePath: string): boolean {
+  if (path.extname(filePath).toLowerCase() !== '.json') return false;
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const head = Buffer.alloc(4096);
+    const bytes = fs.readSync(fd, head, 0, head.length, 0);
+    return /"amountWei"\s*:/.test(head.toString('utf8', 0, bytes));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Load an eligibility input (CSV/JSON) or an eligible-users-detailed.json
+ * output and rebuild its Merkle root
+ */
+export async function loadSnapshot(filePath: string, options: SnapshotOptions = {}): Promise<Snapshot> {
+  const entries = new Map<string, SnapshotEntry>();
+  const detailed = isDetailedOutput(filePath);
+
+  // Generator outputs default to the settings recorded next to them
+  let decimals = options.decimals ?? 18;
+  let leafEncoding = options.leafEncoding;
+  const configPath = path.join(path.dirname(filePath), 'deployment-config.json');
+  if (detailed && fs.existsSync(configPath)) {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    decimals = options.decimals ?? config.tokenDecimals ?? decimals;
+    leafEncoding = leafEncoding ?? config.leafEncoding;
+  }
+
+  if (detailed) {
+    // Generator output already holds normalized, exact wei amounts
+    const records = readEligibilityFile(filePath, { format: 'json', columns: { address: 'address', amount: 'amountWei' } });
+    for await (const { user, line } of records) {
+      const key = user.address.toLowerCase();
+      if (entries.has(key)) {
+        throw new Error(`${filePath}:${line}: duplicate address ${user.address}`);
+      }
+      entries.set(key, { address: ethers.getAddress(user.address), amountWei: BigInt(user.amount), reason: user.reason });
+    }
+  } else {
+    // Raw inputs go through the same validation as generation
+    const validator = new EligibilityValidator({ decimals, duplicates: options.duplicates });
+    for await (const record of readEligibilityFile(filePath, options)) {
+      validator.add(record);
+    }
+    const { users, report } = validator.result();
+    if (!report.valid) {
+      const first = report.issues.find(issue => issue.severity === 'error')!;
+      throw new Error(`${filePath} has ${report.totals.errors} validation error(s), first: ${first.message}`);
+    }
+    for (const user of users) {
+      entries.set(user.address.toLowerCase(), {
+        address: user.address,
+        amountWei: ethers.parseUnits(user.amount, decimals),
+        reason: user.reason
+      });
+    }
+  }
+
+  const builder = new AirdropTreeBuilder({ decimals, leafEncoding });
+  let totalWei = 0n;
+  for (const entry of entries.values()) {
+    builder.addWei(entry.address, entry.amountWei, entry.reason);
+    totalWei += entry.amountWei;
+  }
+
+  return {
+    source: filePath,
+    kind: detailed ? 'detailed' : 'input',
+    entries,
+    totalWei,
+    merkleRoot: entries.size > 0 ? builder.build().root : ethers.ZeroHash
+  };
+}
+
+/**
+ * Compare two snapshots
+ */
+export function diffSnapshots(oldSnapshot: Snapshot, newSnapshot: Snapshot): AirdropDiff {
+  const added: AirdropDiff['added'] = [];
+  const removed: AirdropDiff['removed'] = [];
+  const changed: AmountChange[] = [];
+  let unchanged = 0;
+
+  for (const [key, entry] of newSnapshot.entries) {
+    const previous = oldSnapshot.entries.get(key);
+    if (!previous) {
+      added.push({ address: entry.address, amountWei: entry.amountWei.toString(), reason: entry.reason });
+    } else if (previous.amountWei !== entry.amountWei) {
+      changed.push({
+        address: entry.address,
+        oldAmountWei: previous.amountWei.toString(),
+        newAmountWei: entry.amountWei.toString(),
+        deltaWei: (entry.amountWei - previous.amountWei).toString()
+      });
+    } else {
+      unchanged++;
+    }
+  }
+
+  for (const [key, entry] of oldSnapshot.entries) {
+    if (!newSnapshot.entries.has(key)) {
+      removed.push({ address: entry.address, amountWei: entry.amountWei.toString(), reason: entry.reason });
+    }
+  }
+
+  const summary = (snapshot: Snapshot) => ({
+    source: snapshot.source,
+    merkleRoot: snapshot.merkleRoot,
+    totalUsers: snapshot.entries.size,
+    totalWei: snapshot.totalWei.toString()
+  });
+
+  return {
+    old: summary(oldSnapshot),
+    new: summary(newSnapshot),
+    rootChanged: oldSnapshot.merkleRoot !== newSnapshot.merkleRoot,
+    totalDeltaWei: (newSnapshot.totalWei - oldSnapshot.totalWei).toString(),
+    added,
+    removed,
+    changed,
+    unchanged,
+    warnings: []
+  };
+}
+
+/**
+ * Warn about amount changes for addresses that already claimed under the old
+ * root: the contract will not let them claim again, so the change never lands
+ */
+export async function flagClaimedChanges(
+  diff: AirdropDiff,
+  isClaimed: (address: string) => Promise<boolean>
+) {
+  const queue = [...diff.changed];
+
+  const worker = async () => {
+    for (let change = queue.shift(); change; change = queue.shift()) {
+      if (await isClaimed(change.address)) {
+        diff.warnings.push({
+          address: change.address,
+          message: `${change.address} already claimed ${change.oldAmountWei} wei under the old root; ` +
+            `the new amount ${change.newAmountWei} wei cannot be claimed`
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: CLAIM_CHECK_CONCURRENCY }, worker));
+  diff.warnings.sort((a, b) => a.address.localeCompare(b.address));
+}
+
+/**
+ * Print a human-readable summary of a diff
+ */
+export function printDiff(diff: AirdropDiff, decimals = 18, maxRows = 20) {
+  const tokens = (wei: string) => formatTokenAmount(BigInt(wei), decimals);
+  const signed = (wei: string) => (BigInt(wei) > 0n ? '+' : '') + tokens(wei);
+
+  console.log('\n🔀 Airdrop Diff:');
+  console.log(`- Old: ${diff.old.source} (${diff.old.totalUsers} users, ${tokens(diff.old.totalWei)} tokens)`);
+  console.log(`- New: ${diff.new.source} (${diff.new.totalUsers} users, ${tokens(diff.new.totalWei)} tokens)`);
+  console.log(`- Old root: ${diff.old.merkleRoot}`);
+  console.log(`- New root: ${diff.new.merkleRoot}${diff.rootChanged ? '' : ' (unchanged)'}`);
+  console.log(`- Total delta: ${signed(diff.totalDeltaWei)} tokens`);
+  console.log(`- Added: ${diff.added.length}, removed: ${diff.removed.length}, changed: ${diff.changed.length}, unchanged: ${diff.unchanged}`);
+
+  const section = <T>(title: string, rows: T[], format: (row: T) => string) => {
+    if (rows.length === 0) return;
+    console.log(`\n${title}`);
+    rows.slice(0, maxRows).forEach(row => console.log(`  ${format(row)}`));
+    if (rows.length > maxRows) console.log(`  ... and ${rows.length - maxRows} more`);
+  };
+
+  section('➕ Added:', diff.added, row => `${row.address} ${tokens(row.amountWei)}`);
+  section('➖ Removed:', diff.removed, row => `${row.address} ${tokens(row.amountWei)}`);
+  section('✏️  Amount changed:', diff.changed, row =>
+    `${row.address} ${tokens(row.oldAmountWei)} → ${tokens(row.newAmountWei)} (${signed(row.deltaWei)})`
+  );
+  section('⚠️  Warnings:', diff.warnings, row => row.message);
+}
+
+export interface DiffCommandOptions extends SnapshotOptions {
+  files: string[];
+  claimedFile?: string;
+  rpcUrl?: string;
+  contractAddress?: string;
+  json?: boolean;
+  outFile?: string;
+  strict?: boolean;
+}
+
+/**
+ * Parse diff-airdrop command line arguments.
+ * Usage: diff-airdrop <old> <new> [--decimals 18] [--leaf-format packed|standard]
+ *        [--columns address=wallet,amount=tokens] [--duplicates merge|keep-first|fail]
+ *        [--claimed claimed.txt] [--rpc <url> --contract <airdrop address>]
+ *        [--json] [--out diff.json] [--strict]
+ * Each side may be an eligibility input (CSV/JSON) or an eligible-users-detailed.json.
+ */
+export function parseDiffArgs(args: string[]): DiffCommandOptions {
+  const options: DiffCommandOptions = { files: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--decimals') options.decimals = Number(args[++i]);
+    else if (arg === '--leaf-format') options.leafEncoding = args[++i] as LeafEncoding;
+    else if (arg === '--columns') options.columns = parseColumnMapping(args[++i] || '');
+    else if (arg === '--duplicates') options.duplicates = args[++i] as DuplicateStrategy;
+    else if (arg === '--claimed') options.claimedFile = args[++i];
+    else if (arg === '--rpc') options.rpcUrl = args[++i];
+    else if (arg === '--contract') options.contractAddress = args[++i];
+    else if (arg === '--json') options.json = true;
+    else if (arg === '--out') options.outFile = args[++i];
+    else if (arg === '--strict') options.strict = true;
+    else options.files.push(arg);
+  }
+
+  if (options.files.length !== 2) {
+    throw new Error('Usage: diff-airdrop <old> <new> [options]');
+  }
+  return options;
+}
+
+/**
+ * Load both sides, diff them, check claimed addresses and save the report
+ */
+export async function runDiff(options: DiffCommandOptions): Promise<AirdropDiff> {
+  const [oldFile, newFile] = options.files;
+  const diff = diffSnapshots(await loadSnapshot(oldFile, options), await loadSnapshot(newFile, options));
+
+  if (options.claimedFile) {
+    const claimed = new Set(loadAddressList(options.claimedFile).map(address => address.toLowerCase()));
+    await flagClaimedChanges(diff, async address => claimed.has(address.toLowerCase()));
+  } else if (options.rpcUrl && options.contractAddress) {
+    const provider = new ethers.JsonRpcProvider(options.rpcUrl);
+    const airdrop = new ethers.Contract(
+      options.contractAddress,
+      ['function hasClaimed(address user) external view returns (bool)'],
+      provider
+    );
+    await flagClaimedChanges(diff, address => airdrop.hasClaimed(address));
+  }
+
+  if (options.outFile) {
+    fs.writeFileSync(options.outFile, JSON.stringify(diff, null, 2));
+  }
+  return diff;
+}
+
+async function main(args: string[]) {
+  const options = parseDiffArgs(args);
+  const diff = await runDiff(options);
+
+  if (options.json) {
+    console.log(JSON.stringify(diff, null, 2));
+  } else {
+    printDiff(diff, options.decimals);
+    if (options.outFile) console.log(`\n📄 Diff report written to ${options.outFile}`);
+  }
+
+  if (options.strict && diff.warnings.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,417 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { EligibleUser } from './types';
+
+// Types
+export interface ColumnMapping {
+  address: string;
+  amount: string;
+  reason?: string;
+}
+
+export interface InputOptions {
+  format?: 'csv' | 'json'; // Detected from the file extension when omitted
+  columns?: Partial<ColumnMapping>; // Header names (CSV) or keys (JSON) to read
+  delimiter?: string; // CSV only, defaults to ","
+}
+
+export interface InputRecord {
+  user: EligibleUser;
+  line: number; // 1-based line the entry starts on
+}
+
+export interface JsonElement {
+  key?: string; // Member name when streaming a JSON object
+  value: Record<string, unknown>;
+  line: number; // 1-based line the element starts on
+}
+
+export const DEFAULT_COLUMNS: ColumnMapping = {
+  address: 'address',
+  amount: 'amount',
+  reason: 'reason'
+};
+
+/**
+ * Error raised for malformed input, pointing at the offending line
+ */
+export class EligibilityInputError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly line: number,
+    message: string
+  ) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'EligibilityInputError';
+  }
+}
+
+/**
+ * Parse a "address=wallet,amount=tokens" style column mapping
+ */
+export function parseColumnMapping(spec: string): Partial<ColumnMapping> {
+  const mapping: Partial<ColumnMapping> = {};
+
+  for (const pair of spec.split(',')) {
+    const [key, column] = pair.split('=').map(part => part.trim());
+    if (!column || !['address', 'amount', 'reason'].includes(key)) {
+      throw new Error(`Invalid column mapping "${pair}" (expected address=,amount=,reason=)`);
+    }
+    mapping[key as keyof ColumnMapping] = column;
+  }
+
+  return mapping;
+}
+
+/**
+ * Detect the input format from the file extension
+ */
+function detectFormat(filePath: string, options: InputOptions): 'csv' | 'json' {
+  if (options.format) return options.format;
+
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.csv') return 'csv';
+  if (ext === '.json') return 'json';
+
+  throw new Error(`Cannot detect input format of ${filePath}, pass format explicitly`);
+}
+
+/**
+ * Split a single CSV record into fields, honouring quotes and "" escapes
+ */
+function splitCsvRecord(record: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Whether a partial CSV record still has an open quoted field
+ */
+function hasOpenQuote(record: string): boolean {
+  let quotes = 0;
+  for (const char of record) {
+    if (char === '"') quotes++;
+  }
+  return quotes % 2 === 1;
+}
+
+/**
+ * Turn a raw amount value into the decimal string used by the tree
+ */
+function normalizeAmount(value: unknown, file: string, line: number): string {
+  if (typeof value === 'number') {
+    const text = value.toString();
+    if (!Number.isFinite(value) || /e/i.test(text)) {
+      throw new EligibilityInputError(file, line, `amount ${text} cannot be represented exactly, quote it as a string`);
+    }
+    return text;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+
+  throw new EligibilityInputError(file, line, 'missing amount');
+}
+
+/**
+ * Build an EligibleUser from a mapped row
+ */
+function toEligibleUser(
+  row: Record<string, unknown>,
+  columns: ColumnMapping,
+  file: string,
+  line: number
+): EligibleUser {
+  const address = row[columns.address];
+  if (typeof address !== 'string' || address.trim() === '') {
+    throw new EligibilityInputError(file, line, `missing address (column "${columns.address}")`);
+  }
+
+  const user: EligibleUser = {
+    address: address.trim(),
+    amount: normalizeAmount(row[columns.amount], file, line)
+  };
+
+  const reason = columns.reason ? row[columns.reason] : undefined;
+  if (typeof reason === 'string' && reason.trim() !== '') {
+    user.reason = reason.trim();
+  }
+
+  return user;
+}
+
+/**
+ * Stream the rows of a CSV file with a header row, keyed by lowercase
+ * header name. The header is passed to onHeader before the first row.
+ */
+export async function* readCsvRows(
+  filePath: string,
+  delimiter = ',',
+  onHeader?: (header: string[], line: number) => void
+): AsyncGenerator<{ row: Record<string, string>; line: number }> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity
+  });
+
+  let header: string[] | null = null;
+  let pending = '';
+  let startLine = 0;
+  let lineNumber = 0;
+
+  for await (const rawLine of lines) {
+    lineNumber++;
+
+    // Quoted fields may span several physical lines
+    if (pending) {
+      pending += '\n' + rawLine;
+    } else {
+      if (rawLine.trim() === '' || rawLine.trimStart().startsWith('#')) continue;
+      pending = lineNumber === 1 ? rawLine.replace(/^\uFEFF/, '') : rawLine;
+      startLine = lineNumber;
+    }
+    if (hasOpenQuote(pending)) continue;
+
+    const fields = splitCsvRecord(pending, delimiter);
+    pending = '';
+
+    if (!header) {
+      header = fields.map(field => field.toLowerCase());
+      onHeader?.(header, startLine);
+      continue;
+    }
+
+    if (fields.length !== header.length) {
+      throw new EligibilityInputError(
+        filePath,
+        startLine,
+        `expected ${header.length} columns, found ${fields.length}`
+      );
+    }
+
+    const row: Record<string, string> = {};
+    header.forEach((name, index) => {
+      row[name] = fields[index];
+    });
+    yield { row, line: startLine };
+  }
+
+  if (pending) {
+    throw new EligibilityInputError(filePath, startLine, 'unterminated quoted field');
+  }
+  if (!header) {
+    throw new EligibilityInputError(filePath, lineNumber, 'file is empty, expected a header row');
+  }
+}
+
+/**
+ * Stream entries from a CSV file with a header row
+ */
+async function* readCsv(
+  filePath: string,
+  columns: ColumnMapping,
+  delimiter: string
+): AsyncGenerator<InputRecord> {
+  const checkHeader = (header: string[], line: number) => {
+    for (const key of ['address', 'amount'] as const) {
+      if (!header.includes(columns[key].toLowerCase())) {
+        throw new EligibilityInputError(filePath, line, `header has no "${columns[key]}" column for ${key}`);
+      }
+    }
+  };
+
+  for await (const { row, line } of readCsvRows(filePath, delimiter, checkHeader)) {
+    const mapped: Record<string, unknown> = {};
+    for (const name of Object.values(columns)) {
+      if (name) mapped[name] = row[name.toLowerCase()];
+    }
+    yield { user: toEligibleUser(mapped, columns, filePath, line), line };
+  }
+}
+
+/**
+ * Stream the object elements of a top-level JSON array, or the object values
+ * of a top-level JSON object, without loading the whole file. Each element is
+ * cut out of the character stream and parsed on its own.
+ */
+export async function* streamJsonElements(
+  filePath: string,
+  container: 'array' | 'object' = 'array'
+): AsyncGenerator<JsonElement> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+  const [open, close] = container === 'array' ? ['[', ']'] : ['{', '}'];
+
+  let line = 1;
+  let started = false;
+  let finished = false;
+  let expectElement = true;
+  let element = '';
+  let elementLine = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  // Object members only: the key being read and the one awaiting its value
+  let key: string | undefined;
+  let readingKey = false;
+  let expectColon = false;
+  let keyText = '';
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    for (const char of chunk) {
+      if (depth > 0) {
+        element += char;
+        if (char === '\n') line++;
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') depth++;
+        else if (char === '}' || char === ']') depth--;
+
+        if (depth === 0) {
+          let value: unknown;
+          try {
+            value = JSON.parse(element);
+          } catch (err: any) {
+            throw new EligibilityInputError(filePath, elementLine, `invalid JSON: ${err.message}`);
+          }
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new EligibilityInputError(filePath, elementLine, `${container} entries must be objects`);
+          }
+          yield { ...(key !== undefined && { key }), value: value as Record<string, unknown>, line: elementLine };
+          element = '';
+          key = undefined;
+          expectElement = false;
+        }
+        continue;
+      }
+
+      if (readingKey) {
+        keyText += char;
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') {
+          key = JSON.parse(keyText);
+          readingKey = false;
+          expectColon = true;
+        }
+        continue;
+      }
+
+      if (char === '\n') {
+        line++;
+        continue;
+      }
+      if (/\s/.test(char)) continue;
+
+      if (finished) {
+        throw new EligibilityInputError(filePath, line, `unexpected "${char}" after end of ${container}`);
+      }
+      if (!started) {
+        if (char !== open) {
+          throw new EligibilityInputError(filePath, line, `expected a JSON ${container} of entries`);
+        }
+        started = true;
+      } else if (expectColon) {
+        if (char !== ':') {
+          throw new EligibilityInputError(filePath, line, `expected ":" after key ${JSON.stringify(key)}`);
+        }
+        expectColon = false;
+      } else if (char === close && key === undefined) {
+        finished = true;
+      } else if (char === ',' && !expectElement) {
+        expectElement = true;
+      } else if (char === '"' && expectElement && container === 'object' && key === undefined) {
+        readingKey = true;
+        keyText = char;
+      } else if (char === '{' && expectElement && (container === 'array' || key !== undefined)) {
+        element = char;
+        elementLine = line;
+        depth = 1;
+      } else {
+        throw new EligibilityInputError(filePath, line, `unexpected "${char}"`);
+      }
+    }
+  }
+
+  if (!started || !finished || depth > 0) {
+    throw new EligibilityInputError(filePath, line, 'unexpected end of file');
+  }
+}
+
+/**
+ * Stream entries from a JSON array of objects
+ */
+async function* readJsonArray(filePath: string, columns: ColumnMapping): AsyncGenerator<InputRecord> {
+  for await (const { value, line } of streamJsonElements(filePath, 'array')) {
+    yield { user: toEligibleUser(value, columns, filePath, line), line };
+  }
+}
+
+/**
+ * Stream eligibility entries from a CSV or JSON file
+ */
+export function readEligibilityFile(filePath: string, options: InputOptions = {}): AsyncGenerator<InputRecord> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Input file not found: ${filePath}`);
+  }
+
+  const columns: ColumnMapping = { ...DEFAULT_COLUMNS, ...options.columns };
+
+  return detectFormat(filePath, options) === 'csv'
+    ? readCsv(filePath, columns, options.delimiter || ',')
+    : readJsonArray(filePath, columns);
+}
+
+/**
+ * Load every eligibility entry from a CSV or JSON file
+ */
+export async function loadEligibleUsers(filePath: string, options: InputOptions = {}): Promise<EligibleUser[]> {
+  const records = await loadEligibilityRecords(filePath, options);
+  return records.map(record => record.user);
+}
+
+/**
+ * Load every eligibility entry along with the line it came from
+ */
+export async function loadEligibilityRecords(filePath: string, options: InputOptions = {}): Promise<InputRecord[]> {
+  const records: InputRecord[] = [];
+  for await (const record of readEligibilityFile(filePath, options)) {
+    records.push(record);
+  }
+  return records;
+}
@@ -1,15 +1,68 @@
 import { ethers } from 'ethers';
-import { MerkleTree } from 'merkletreejs';
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree';
 import * as fs from 'fs';
+import * as path from 'path';
+import { EligibleUser, LeafEncoding } from './types';
+import { formatTokenAmount } from './amounts';
+import {
+  InputOptions,
+  loadEligibleUsers,
+  parseColumnMapping,
+  readEligibilityFile
+} from './eligibility-input';
+import {
+  DuplicateStrategy,
+  EligibilityEntry,
+  ValidationOptions,
+  loadAddressList,
+  printValidationSummary,
+  validateEligibilityStream,
+  writeValidationReport
+} from './validate-eligibility';
+import {
+  AirdropTreeBuilder,
+  BuilderOptions,
+  BuiltMerkleTree,
+  TreeEntry,
+  TreeOptions,
+  computeLeaf,
+  verifyMerkleProof
+} from './merkle-builder';
+import { OutputFile, createProgressLogger } from './output-stream';
+import { ShardOptions, writeProofShards } from './proof-shards';
+import { printVerificationReport, verifyAirdropFiles } from './verify-airdrop';
+import { AllocationResult, computeAllocations, loadAllocationRules, printAllocationSummary } from './allocation-rules';
+import { applySybilFilters, loadSybilFilters, printSybilSummary } from './sybil-filter';
+import {
+  CampaignOptions,
+  DEFAULT_DATA_DIR,
+  archiveCampaignVersion,
+  getCampaignDir,
+  loadCampaign,
+  saveCampaign
+} from './campaigns';
+import { CampaignMetadata, DEFAULT_CAMPAIGN, DEFAULT_CLAIM_PERIOD_DAYS } from '../lib/campaigns';
 
 // Types
-interface EligibleUser {
-  address: string;
-  amount: string; // In ether (e.g., "1000" for 1000 tokens)
-  reason?: string; // Why they're eligible
+// [address, amount in wei] as stored in a standard tree dump
+type StandardLeafValue = [string, string];
+
+// The "standard-v1" JSON dump produced by StandardMerkleTree.dump()
+type StandardTreeDump = ReturnType<StandardMerkleTree<StandardLeafValue>['dump']>;
+
+const STANDARD_LEAF_ENCODING = ['address', 'uint256'];
+
+interface GenerateOptions extends ValidationOptions {
+  leafEncoding?: LeafEncoding;
+  dataDir?: string; // Defaults to ./airdrop-data
+  campaign?: CampaignOptions; // Output goes to <dataDir>/<campaign id>
+  shards?: ShardOptions & { dir?: string }; // Shard directory defaults to <campaign dir>/proofs
+  skipVerify?: boolean; // Skip reading every file back; run `airdrop verify` before deploying instead
+  rules?: string; // Allocation rules file; replaces the entries with the computed allocations
+  sybil?: string; // Sybil filter config; filters run on the validated list before the tree is built
 }
 
-// Mock eligible users data
+// Mock eligible users data, used when no input file is given
 // In real implementation, this would come from:
 // - PayCrypt early users
 // - Community contributors  
@@ -17,12 +70,12 @@ interface EligibleUser {
 // - Social media participants
 const ELIGIBLE_USERS: EligibleUser[] = [
   {
-    address: "0x742d35Cc6661C0532108D3CE8c8FCfb4F88CA7C5",
+    address: "0x742d35cc6661C0532108d3ce8c8FCfb4f88cA7C5",
     amount: "1000",
     reason: "Early PayCrypt user"
   },
   {
-    address: "0x8ba1f109551bD432803012645Hac136c",
+    address: "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
     amount: "500", 
     reason: "Beta tester"
   },
@@ -48,135 +101,467 @@ const ELIGIBLE_USERS: EligibleUser[] = [
  * Generate Merkle tree for airdrop eligibility
  */
 export class AirdropMerkleTree {
-  private tree: MerkleTree;
-  private eligibleUsers: EligibleUser[];
+  private tree: BuiltMerkleTree;
   
-  constructor(users: EligibleUser[]) {
-    this.eligibleUsers = users;
-    this.tree = this.generateMerkleTree();
+  constructor(source: EligibleUser[] | BuiltMerkleTree, options: BuilderOptions = {}) {
+    if (source instanceof BuiltMerkleTree) {
+      this.tree = source;
+      return;
+    }
+    
+    const builder = new AirdropTreeBuilder(options);
+    for (const user of source) {
+      builder.add(user);
+    }
+    this.tree = builder.build();
   }
   
   /**
-   * Create leaf hash for a user
+   * Build a tree from a CSV or JSON eligibility file
    */
-  private createLeaf(address: string, amount: string): Buffer {
-    // Convert amount to wei
-    const amountWei = ethers.parseEther(amount);
-    
-    // Create hash of address + amount (same as in smart contract)
-    const hash = ethers.solidityPackedKeccak256(
-      ['address', 'uint256'],
-      [address, amountWei]
-    );
-    
-    return Buffer.from(hash.slice(2), 'hex');
+  static async fromFile(
+    filePath: string,
+    options: InputOptions = {},
+    treeOptions: BuilderOptions = {}
+  ): Promise<AirdropMerkleTree> {
+    const users = await loadEligibleUsers(filePath, options);
+    return new AirdropMerkleTree(users, treeOptions);
   }
   
   /**
-   * Generate the Merkle tree
+   * Load a tree from an OpenZeppelin StandardMerkleTree dump ("standard-v1").
+   * Reasons are not part of the dump, so loaded users have none.
    */
-  private generateMerkleTree(): MerkleTree {
-    // Create leaves
-    const leaves = this.eligibleUsers.map(user => 
-      this.createLeaf(user.address, user.amount)
-    );
+  static fromStandardDump(
+    data: StandardTreeDump,
+    options: Omit<TreeOptions, 'leafEncoding'> = {}
+  ): AirdropMerkleTree {
+    if (data.format !== 'standard-v1') {
+      throw new Error(`Unsupported tree dump format "${data.format}"`);
+    }
+    if (data.leafEncoding.join(',') !== STANDARD_LEAF_ENCODING.join(',')) {
+      throw new Error(`Unsupported leaf encoding [${data.leafEncoding.join(', ')}], expected [address, uint256]`);
+    }
     
-    // Create tree using keccak256 hash function
-    const tree = new MerkleTree(leaves, ethers.keccak256, { 
-      sortPairs: true 
-    });
+    // load() re-hashes every node, so a tampered dump is rejected here
+    const loaded = StandardMerkleTree.load(data);
+    const builder = new AirdropTreeBuilder({ ...options, leafEncoding: 'standard' });
+    for (const { value: [address, amountWei] } of data.values) {
+      builder.addWei(address, BigInt(amountWei));
+    }
+    
+    const tree = new AirdropMerkleTree(builder.build());
+    if (tree.getMerkleRoot() !== loaded.root) {
+      throw new Error(`Rebuilt root ${tree.getMerkleRoot()} does not match dump root ${loaded.root}`);
+    }
     
     return tree;
   }
   
+  /**
+   * Convert an amount to base units (wei).
+   * Strings are token amounts ("1000"), bigints are already in base units.
+   */
+  private toBaseUnits(amount: string | bigint): bigint {
+    return typeof amount === 'bigint' ? amount : ethers.parseUnits(amount, this.tree.decimals);
+  }
+  
   /**
    * Get Merkle root
    */
   getMerkleRoot(): string {
-    return this.tree.getHexRoot();
+    return this.tree.root;
   }
   
   /**
    * Get proof for a specific address
    */
-  getProof(address: string, amount: string): string[] {
-    const leaf = this.createLeaf(address, amount);
-    const proof = this.tree.getHexProof(leaf);
-    return proof;
+  getProof(address: string, amount: string | bigint): string[] {
+    const index = this.tree.indexOf(address, this.toBaseUnits(amount));
+    return index === -1 ? [] : this.tree.getProof(index);
   }
   
   /**
    * Verify a proof
    */
-  verifyProof(address: string, amount: string, proof: string[]): boolean {
-    const leaf = this.createLeaf(address, amount);
-    return this.tree.verify(proof, leaf, this.getMerkleRoot());
+  verifyProof(address: string, amount: string | bigint, proof: string[]): boolean {
+    const leaf = computeLeaf(address, this.toBaseUnits(amount), this.tree.leafEncoding);
+    return verifyMerkleProof(this.getMerkleRoot(), leaf, proof);
+  }
+  
+  /**
+   * Export the tree in the OpenZeppelin StandardMerkleTree JSON format
+   */
+  dump(): StandardTreeDump {
+    const tree = Array.from(this.tree.standardNodes());
+    const values = Array.from(this.tree.entries(), entry => ({
+      value: [entry.address, entry.amountWei.toString()] as StandardLeafValue,
+      treeIndex: this.tree.treeIndex(entry.index)
+    }));
+    
+    return { format: 'standard-v1', leafEncoding: STANDARD_LEAF_ENCODING, tree, values };
+  }
+  
+  /**
+   * Iterate eligible users with their proofs, one at a time
+   */
+  *iterateEligibleWithProofs() {
+    for (const entry of this.tree.entries()) {
+      yield this.withProof(entry);
+    }
   }
   
   /**
    * Get all eligible users with their proofs
    */
   getAllEligibleWithProofs() {
-    return this.eligibleUsers.map(user => ({
-      address: user.address,
-      amount: user.amount,
-      amountWei: ethers.parseEther(user.amount).toString(),
-      proof: this.getProof(user.address, user.amount),
-      reason: user.reason
+    return Array.from(this.iterateEligibleWithProofs());
+  }
+  
+  private withProof(entry: TreeEntry) {
+    return {
+      address: entry.address,
+      amount: formatTokenAmount(entry.amountWei, this.tree.decimals),
+      amountWei: entry.amountWei.toString(),
+      proof: this.tree.getProof(entry.index),
+      reason: entry.reason
+    };
+  }
+  
+  /**
+   * Get the users the tree was built from
+   */
+  getEligibleUsers(): EligibleUser[] {
+    return Array.from(this.tree.entries(), entry => ({
+      address: entry.address,
+      amount: formatTokenAmount(entry.amountWei, this.tree.decimals),
+      ...(entry.reason && { reason: entry.reason })
     }));
   }
   
+  /**
+   * Get the token decimals amounts are expressed in
+   */
+  getDecimals(): number {
+    return this.tree.decimals;
+  }
+  
+  /**
+   * Get the leaf encoding the tree was built with
+   */
+  getLeafEncoding(): LeafEncoding {
+    return this.tree.leafEncoding;
+  }
+  
   /**
    * Get statistics
    */
   getStats() {
-    const totalUsers = this.eligibleUsers.length;
-    const totalTokens = this.eligibleUsers.reduce(
-      (sum, user) => sum + parseFloat(user.amount), 
-      0
-    );
+    const totalWei = this.tree.totalWei;
     
     return {
-      totalEligibleUsers: totalUsers,
-      totalTokensToDistribute: totalTokens,
+      totalEligibleUsers: this.tree.length,
+      totalTokensToDistribute: formatTokenAmount(totalWei, this.tree.decimals),
+      totalTokensWei: totalWei,
+      decimals: this.tree.decimals,
+      leafEncoding: this.tree.leafEncoding,
       merkleRoot: this.getMerkleRoot(),
-      treeHeight: this.tree.getDepth()
+      treeHeight: this.tree.height
     };
   }
 }
 
+/**
+ * Stream the frontend lookup file: { [lowercase address]: { address, amount, proof } }
+ */
+async function writeEligibleAddresses(tree: AirdropMerkleTree, filePath: string) {
+  const file = new OutputFile(filePath);
+  let first = true;
+  
+  await file.write('{\n');
+  for (const user of tree.iterateEligibleWithProofs()) {
+    const entry = { address: user.address, amount: user.amountWei, proof: user.proof };
+    await file.write(`${first ? '' : ',\n'}  ${JSON.stringify(user.address.toLowerCase())}: ${JSON.stringify(entry)}`);
+    first = false;
+  }
+  await file.write('\n}\n');
+  await file.close();
+}
+
+/**
+ * Stream the detailed list and return the sum of every emitted amount
+ */
+async function writeDetailedUsers(
+  tree: AirdropMerkleTree,
+  filePath: string,
+  onProgress: (done: number, total: number) => void
+): Promise<bigint> {
+  const file = new OutputFile(filePath);
+  const total = tree.getStats().totalEligibleUsers;
+  let emittedWei = 0n;
+  let done = 0;
+  
+  await file.write('[\n');
+  for (const user of tree.iterateEligibleWithProofs()) {
+    await file.write(`${done === 0 ? '' : ',\n'}  ${JSON.stringify(user)}`);
+    emittedWei += BigInt(user.amountWei);
+    onProgress(++done, total);
+  }
+  await file.write('\n]\n');
+  await file.close();
+  
+  return emittedWei;
+}
+
+/**
+ * Stream the per-address explanation of which allocation rules fired
+ */
+async function writeAllocations(allocation: AllocationResult, filePath: string) {
+  const file = new OutputFile(filePath);
+  
+  await file.write(`{\n  "summary": ${JSON.stringify(allocation.summary)},\n  "allocations": [`);
+  let first = true;
+  for (const entry of allocation.allocations) {
+    await file.write(`${first ? '' : ','}\n    ${JSON.stringify(entry)}`);
+    first = false;
+  }
+  await file.write('\n  ]\n}\n');
+  await file.close();
+}
+
+/**
+ * Stream the OpenZeppelin "standard-v1" tree dump
+ */
+async function writeStandardDump(tree: BuiltMerkleTree, filePath: string) {
+  const file = new OutputFile(filePath);
+  
+  await file.write(`{\n  "format": "standard-v1",\n  "leafEncoding": ${JSON.stringify(STANDARD_LEAF_ENCODING)},\n  "tree": [`);
+  let first = true;
+  for (const node of tree.standardNodes()) {
+    await file.write(`${first ? '' : ','}\n    "${node}"`);
+    first = false;
+  }
+  
+  await file.write('\n  ],\n  "values": [');
+  for (const entry of tree.entries()) {
+    const value = { value: [entry.address, entry.amountWei.toString()], treeIndex: tree.treeIndex(entry.index) };
+    await file.write(`${entry.index === 0 ? '' : ','}\n    ${JSON.stringify(value)}`);
+  }
+  await file.write('\n  ]\n}\n');
+  await file.close();
+}
+
+/**
+ * Claim window from the command line, falling back to the previous version
+ */
+function resolveClaimWindow(options: CampaignOptions, previous: CampaignMetadata | null) {
+  const periodDays = options.claimPeriodDays ?? previous?.claimWindow.periodDays ?? DEFAULT_CLAIM_PERIOD_DAYS;
+  if (!Number.isInteger(periodDays) || periodDays <= 0) {
+    throw new Error(`Claim period must be a positive number of days, got ${periodDays}`);
+  }
+
+  const end = options.claimEnd ?? previous?.claimWindow.end;
+  if (end !== undefined && Number.isNaN(Date.parse(end))) {
+    throw new Error(`Invalid claim end date "${end}"`);
+  }
+
+  return { periodDays, ...(end && { end: new Date(end).toISOString() }) };
+}
+
+/**
+ * Campaign metadata for a new version, keeping earlier versions from the
+ * previous run. The deployment only carries over while the contract verifies
+ * the new root; otherwise it stays with the version it was deployed for.
+ */
+function buildCampaignMetadata(
+  id: string,
+  options: CampaignOptions,
+  previous: CampaignMetadata | null,
+  generated: Pick<CampaignMetadata, 'claimWindow' | 'proofs' | 'generatedAt'> & {
+    stats: ReturnType<AirdropMerkleTree['getStats']>;
+    archivedDir?: string; // Where the previous version's files were moved
+  }
+): CampaignMetadata {
+  const { stats } = generated;
+  const deployment = previous?.deployment;
+  const deploymentCurrent = deployment?.merkleRoot.toLowerCase() === stats.merkleRoot.toLowerCase();
+  const history = previous
+    ? [
+        ...previous.history,
+        {
+          version: previous.version,
+          merkleRoot: previous.merkleRoot,
+          totalUsers: previous.totalUsers,
+          totalTokensWei: previous.totalTokensWei,
+          generatedAt: previous.generatedAt,
+          ...(generated.archivedDir && { dir: generated.archivedDir }),
+          ...(deployment && !deploymentCurrent && { deployment })
+        }
+      ]
+    : [];
+
+  const chainId = options.chainId ?? previous?.chainId;
+  const network = options.network ?? previous?.network;
+  const tokenAddress = options.tokenAddress ?? previous?.token.address;
+
+  return {
+    id,
+    name: options.name ?? previous?.name ?? id,
+    version: (previous?.version ?? 0) + 1,
+    ...(chainId !== undefined && { chainId }),
+    ...(network && { network }),
+    token: {
+      ...(tokenAddress && { address: ethers.getAddress(tokenAddress) }),
+      symbol: options.tokenSymbol ?? previous?.token.symbol ?? 'PCRYPT',
+      decimals: stats.decimals
+    },
+    claimWindow: generated.claimWindow,
+    merkleRoot: stats.merkleRoot,
+    leafEncoding: stats.leafEncoding,
+    totalUsers: stats.totalEligibleUsers,
+    totalTokensWei: stats.totalTokensWei.toString(),
+    proofs: generated.proofs,
+    generatedAt: generated.generatedAt,
+    ...(deployment && deploymentCurrent && { deployment }),
+    history
+  };
+}
+
 /**
  * Generate airdrop data and save to files
  */
-async function generateAirdropData() {
-  console.log('🌱 Generating Merkle tree for PayCrypt airdrop...');
+async function generateAirdropData(
+  entries: Iterable<EligibilityEntry> | AsyncIterable<EligibilityEntry> = ELIGIBLE_USERS,
+  options: GenerateOptions = {}
+) {
+  const dataDir = options.dataDir || DEFAULT_DATA_DIR;
+  const campaignOptions = options.campaign || {};
+  const campaignId = campaignOptions.id || DEFAULT_CAMPAIGN;
+  const outputDir = getCampaignDir(dataDir, campaignId);
+  const previous = loadCampaign(dataDir, campaignId);
+  const claimWindow = resolveClaimWindow(campaignOptions, previous);
+  const timings: Record<string, number> = {};
+  let phaseStarted = Date.now();
+  const endPhase = (name: string) => {
+    timings[name] = Date.now() - phaseStarted;
+    phaseStarted = Date.now();
+  };
+  
+  // Allocation rules replace the input list
+  let allocation: AllocationResult | undefined;
+  if (options.rules) {
+    console.log(`🧮 Computing allocations from ${options.rules}`);
+    allocation = await computeAllocations(loadAllocationRules(options.rules), { decimals: options.decimals });
+    printAllocationSummary(allocation);
+    entries = allocation.users;
+  }
+  
+  // Validate and normalize the input before anything is written
+  const validation = await validateEligibilityStream(entries, options);
+  const reportPath = `${outputDir}/validation-report.json`;
+  writeValidationReport(validation.report, reportPath);
+  printValidationSummary(validation.report);
+  endPhase('loadAndValidate');
+  
+  if (!validation.report.valid) {
+    throw new Error(
+      `Input has ${validation.report.totals.errors} blocking error(s), no airdrop files were generated. See ${reportPath}`
+    );
+  }
+  
+  // Drop or flag farmed wallets before anything is hashed
+  if (options.sybil) {
+    const sybil = await applySybilFilters(validation.users, loadSybilFilters(options.sybil), options.decimals);
+    fs.writeFileSync(`${outputDir}/sybil-report.json`, JSON.stringify(sybil.report, null, 2));
+    printSybilSummary(sybil.report);
+    if (sybil.users.length === 0) {
+      throw new Error(`Sybil filtering removed every address, see ${outputDir}/sybil-report.json`);
+    }
+    validation.users = sybil.users;
+  }
+  
+  console.log(`\n🌱 Generating Merkle tree for campaign "${campaignId}"${previous ? ` (version ${previous.version + 1})` : ''}...`);
   
   // Create Merkle tree
-  const airdropTree = new AirdropMerkleTree(ELIGIBLE_USERS);
+  const logLeaves = createProgressLogger('Hashing leaves');
+  const logNodes = createProgressLogger('Hashing nodes');
+  const builder = new AirdropTreeBuilder({
+    decimals: options.decimals,
+    leafEncoding: options.leafEncoding,
+    onProgress: ({ phase, done, total }) => (phase === 'leaves' ? logLeaves : logNodes)(done, total)
+  });
+  for (const user of validation.users) {
+    builder.add(user);
+  }
+  validation.users.length = 0; // The builder keeps its own compact copy
+  
+  const builtTree = builder.build();
+  const airdropTree = new AirdropMerkleTree(builtTree);
+  endPhase('buildTree');
   
   // Get statistics
   const stats = airdropTree.getStats();
   console.log('\n📊 Airdrop Statistics:');
   console.log(`- Eligible users: ${stats.totalEligibleUsers}`);
-  console.log(`- Total tokens: ${stats.totalTokensToDistribute.toLocaleString()}`);
+  console.log(`- Total tokens: ${stats.totalTokensToDistribute} (${stats.totalTokensWei} base units, ${stats.decimals} decimals)`);
   console.log(`- Merkle root: ${stats.merkleRoot}`);
   console.log(`- Tree height: ${stats.treeHeight}`);
+  console.log(`- Leaf encoding: ${stats.leafEncoding}`);
+  if (stats.leafEncoding === 'standard') {
+    console.log('⚠️  Standard leaves are not accepted by PayCryptAirdrop.claimTokens, use them for tooling and audits');
+  }
+  
+  // The deployed contract keeps verifying the previous root until updateAirdrop,
+  // so its proofs are moved aside instead of being overwritten
+  const deployedRoot = previous?.deployment?.merkleRoot.toLowerCase();
+  let archivedDir: string | undefined;
+  if (previous && deployedRoot === previous.merkleRoot.toLowerCase() && deployedRoot !== stats.merkleRoot.toLowerCase()) {
+    archivedDir = archiveCampaignVersion(dataDir, previous);
+    console.log(`\n📦 Version ${previous.version} is deployed, its files were moved to ${path.join(outputDir, archivedDir)}`);
+  }
+  
+  console.log('\n💾 Writing files...');
+  
+  // Save which rules fired for every address
+  if (allocation) {
+    await writeAllocations(allocation, `${outputDir}/allocations.json`);
+  }
+  
+  // Save eligible addresses with proofs (for frontend)
+  await writeEligibleAddresses(airdropTree, `${outputDir}/eligible-addresses.json`);
+  
+  // Save detailed list (for verification)
+  const emittedWei = await writeDetailedUsers(
+    airdropTree,
+    `${outputDir}/eligible-users-detailed.json`,
+    createProgressLogger('Writing proofs')
+  );
+  
+  // The emitted total must equal the sum of every leaf written above
+  if (emittedWei !== stats.totalTokensWei) {
+    throw new Error(`Total mismatch: stats report ${stats.totalTokensWei} wei but leaves sum to ${emittedWei} wei`);
+  }
   
-  // Get all users with proofs
-  const eligibleWithProofs = airdropTree.getAllEligibleWithProofs();
+  // Save per-shard proof files (for the claim page)
+  const shardDir = options.shards?.dir || `${outputDir}/proofs`;
+  const manifest = await writeProofShards(builtTree, shardDir, options.shards);
   
-  // Create output directory
-  const outputDir = './airdrop-data';
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir);
+  // Save the OpenZeppelin-compatible tree dump (for third-party tools)
+  if (stats.leafEncoding === 'standard') {
+    await writeStandardDump(builtTree, `${outputDir}/merkle-tree.json`);
   }
   
-  // Save merkle root and stats
+  // Save merkle root and stats last, once everything else checked out
   const deploymentData = {
+    campaign: campaignId,
     merkleRoot: stats.merkleRoot,
     totalTokens: stats.totalTokensToDistribute,
+    totalTokensWei: stats.totalTokensWei.toString(),
+    tokenDecimals: stats.decimals,
+    leafEncoding: stats.leafEncoding,
     totalUsers: stats.totalEligibleUsers,
-    claimPeriodDays: 30, // 30 days to claim
+    claimPeriodDays: claimWindow.periodDays,
+    ...(claimWindow.end && { claimEnd: claimWindow.end }),
     generatedAt: new Date().toISOString()
   };
   
@@ -185,104 +570,85 @@ async function generateAirdropData() {
     JSON.stringify(deploymentData, null, 2)
   );
   
-  // Save eligible addresses with proofs (for frontend)
-  const frontendData = eligibleWithProofs.reduce((acc, user) => {
-    acc[user.address.toLowerCase()] = {
-      address: user.address,
-      amount: user.amountWei,
-      proof: user.proof
-    };
-    return acc;
-  }, {} as Record<string, any>);
-  
-  fs.writeFileSync(
-    `${outputDir}/eligible-addresses.json`,
-    JSON.stringify(frontendData, null, 2)
-  );
-  
-  // Save detailed list (for verification)
-  fs.writeFileSync(
-    `${outputDir}/eligible-users-detailed.json`,
-    JSON.stringify(eligibleWithProofs, null, 2)
-  );
+  // Record the campaign and list it in the campaign index
+  const campaign = buildCampaignMetadata(campaignId, campaignOptions, previous, {
+    claimWindow,
+    stats,
+    proofs: {
+      dir: path.relative(outputDir, shardDir) || '.',
+      keyType: manifest.keyType,
+      keyLength: manifest.keyLength
+    },
+    generatedAt: deploymentData.generatedAt,
+    archivedDir
+  });
+  saveCampaign(dataDir, campaign);
+  endPhase('writeFiles');
   
-  // Generate deployment script
-  const deploymentScript = `
-// Deployment configuration for PayCrypt Airdrop
-export const AIRDROP_CONFIG = {
-  MERKLE_ROOT: "${stats.merkleRoot}",
-  TOTAL_TOKENS: "${ethers.parseEther(stats.totalTokensToDistribute.toString())}",
-  CLAIM_PERIOD_DAYS: 30,
-  TOKEN_NAME: "PayCrypt Token",
-  TOKEN_SYMBOL: "PCRYPT"
-};
-
-// Deployment function
-async function deployAirdrop() {
-  const [deployer] = await ethers.getSigners();
-  console.log("Deploying airdrop with account:", deployer.address);
-  
-  // Deploy token first (if needed)
-  const Token = await ethers.getContractFactory("PayCryptToken");
-  const token = await Token.deploy();
-  await token.waitForDeployment();
-  console.log("Token deployed to:", await token.getAddress());
-  
-  // Deploy airdrop contract
-  const claimPeriodEnd = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60); // 30 days
-  
-  const Airdrop = await ethers.getContractFactory("PayCryptAirdrop");
-  const airdrop = await Airdrop.deploy(
-    await token.getAddress(),
-    AIRDROP_CONFIG.MERKLE_ROOT,
-    claimPeriodEnd,
-    AIRDROP_CONFIG.TOTAL_TOKENS
-  );
-  await airdrop.waitForDeployment();
-  console.log("Airdrop deployed to:", await airdrop.getAddress());
-  
-  // Transfer tokens to airdrop contract
-  await token.transfer(await airdrop.getAddress(), AIRDROP_CONFIG.TOTAL_TOKENS);
-  console.log("Tokens transferred to airdrop contract");
-}
-`;
-  
-  fs.writeFileSync(`${outputDir}/deploy.ts`, deploymentScript);
+  if (previous?.deployment && !campaign.deployment) {
+    console.log(`\n⚠️  ${previous.deployment.contractAddress} still verifies root ${previous.deployment.merkleRoot}, so version ${campaign.version} is not deployed yet`);
+    console.log('   Call updateAirdrop with the new root, then run `npm run airdrop -- record-update` to make it the campaign deployment again');
+  }
   
   console.log('\n✅ Files generated:');
   console.log(`- ${outputDir}/deployment-config.json`);
   console.log(`- ${outputDir}/eligible-addresses.json`);
   console.log(`- ${outputDir}/eligible-users-detailed.json`);
-  console.log(`- ${outputDir}/deploy.ts`);
-  
-  // Verify some proofs
-  console.log('\n🔍 Verifying proofs for first 3 users:');
-  for (let i = 0; i < Math.min(3, eligibleWithProofs.length); i++) {
-    const user = eligibleWithProofs[i];
-    const isValid = airdropTree.verifyProof(
-      user.address, 
-      ELIGIBLE_USERS[i].amount, 
-      user.proof
-    );
-    console.log(`- ${user.address}: ${isValid ? '✅ Valid' : '❌ Invalid'}`);
+  console.log(`- ${shardDir}/index.json (+${Object.keys(manifest.shards).length} shard files, ${manifest.keyType} keys)`);
+  console.log(`- ${reportPath}`);
+  console.log(`- ${outputDir}/campaign.json (version ${campaign.version})`);
+  console.log(`- ${dataDir}/campaigns.json`);
+  if (stats.leafEncoding === 'standard') {
+    console.log(`- ${outputDir}/merkle-tree.json`);
+  }
+  if (allocation) {
+    console.log(`- ${outputDir}/allocations.json`);
+  }
+  if (options.sybil) {
+    console.log(`- ${outputDir}/sybil-report.json`);
+  }
+  
+  // Read everything back from disk and check every proof before anyone deploys it
+  if (options.skipVerify) {
+    console.log('\n⚠️  Verification skipped, run `npm run airdrop -- verify` before deploying');
+  } else {
+    const verification = await verifyAirdropFiles(outputDir);
+    printVerificationReport(verification);
+    endPhase('verify');
+    if (!verification.valid) {
+      throw new Error(`Verification of ${outputDir} found ${verification.issueCount} mismatch(es), do not deploy this data`);
+    }
+  }
+  
+  console.log('\n⏱️  Timings:');
+  for (const [phase, ms] of Object.entries(timings)) {
+    console.log(`- ${phase}: ${(ms / 1000).toFixed(1)}s`);
   }
   
   return {
     merkleRoot: stats.merkleRoot,
-    eligibleUsers: eligibleWithProofs,
-    stats
+    campaign,
+    outputDir,
+    tree: airdropTree,
+    validationReport: validation.report,
+    stats,
+    timings
   };
 }
 
 /**
  * Add new eligible users (for future airdrops)
  */
-function addEligibleUsers(newUsers: EligibleUser[]) {
-  const updatedUsers = [...ELIGIBLE_USERS, ...newUsers];
-  const tree = new AirdropMerkleTree(updatedUsers);
+function addEligibleUsers(
+  newUsers: EligibleUser[],
+  existingUsers: EligibleUser[] = ELIGIBLE_USERS,
+  decimals = 18
+) {
+  const updatedUsers = [...existingUsers, ...newUsers];
+  const tree = new AirdropMerkleTree(updatedUsers, { decimals });
   
   console.log('Updated airdrop with new users:');
-  console.log(`- Previous users: ${ELIGIBLE_USERS.length}`);
+  console.log(`- Previous users: ${existingUsers.length}`);
   console.log(`- New users: ${newUsers.length}`);
   console.log(`- Total users: ${updatedUsers.length}`);
   console.log(`- New merkle root: ${tree.getMerkleRoot()}`);
@@ -293,8 +659,8 @@ function addEligibleUsers(newUsers: EligibleUser[]) {
 /**
  * Verify if an address is eligible
  */
-function checkEligibility(address: string): EligibleUser | null {
-  return ELIGIBLE_USERS.find(
+function checkEligibility(address: string, users: EligibleUser[] = ELIGIBLE_USERS): EligibleUser | null {
+  return users.find(
     user => user.address.toLowerCase() === address.toLowerCase()
   ) || null;
 }
@@ -302,25 +668,29 @@ function checkEligibility(address: string): EligibleUser | null {
 /**
  * Generate CSV for non-technical team members
  */
-function generateCSV() {
-  const tree = new AirdropMerkleTree(ELIGIBLE_USERS);
-  const users = tree.getAllEligibleWithProofs();
+async function generateCSV(
+  source: AirdropMerkleTree | EligibleUser[] = ELIGIBLE_USERS,
+  options: TreeOptions = {},
+  outputDir = './airdrop-data'
+) {
+  const tree = source instanceof AirdropMerkleTree ? source : new AirdropMerkleTree(source, options);
+  const filePath = `${outputDir}/eligible-users.csv`;
+  const file = new OutputFile(filePath);
   
-  const csvHeader = 'Address,Amount (Tokens),Amount (Wei),Reason,Proof (first 3)\n';
-  const csvRows = users.map(user => {
+  await file.write('Address,Amount (Tokens),Amount (Wei),Reason,Proof (first 3)\n');
+  for (const user of tree.iterateEligibleWithProofs()) {
     const proofPreview = user.proof.slice(0, 3).join(';');
-    const reason = ELIGIBLE_USERS.find(u => u.address === user.address)?.reason || '';
-    return `${user.address},${user.amount},${user.amountWei},"${reason}","${proofPreview}..."`;
-  }).join('\n');
+    const reason = (user.reason || '').replace(/"/g, '""');
+    await file.write(`${user.address},${user.amount},${user.amountWei},"${reason}","${proofPreview}..."\n`);
+  }
+  await file.close();
   
-  const csvContent = csvHeader + csvRows;
-  fs.writeFileSync('./airdrop-data/eligible-users.csv', csvContent);
-  console.log('📄 CSV file generated: ./airdrop-data/eligible-users.csv');
+  console.log(`📄 CSV file generated: ${filePath}`);
 }
 
 // Export for use in other files
+export type { EligibleUser };
 export {
-  AirdropMerkleTree,
   generateAirdropData,
   addEligibleUsers,
   checkEligibility,
@@ -328,18 +698,120 @@ export {
   ELIGIBLE_USERS
 };
 
+/**
+ * Load entries from the input file given on the command line, if any.
+ * Usage: generate-merkle [input.csv|input.json] [--columns address=wallet,amount=tokens] [--delimiter ";"]
+ *        [--duplicates merge|keep-first|fail] [--contracts known-contracts.txt] [--decimals 18]
+ *        [--leaf-format packed|standard] [--shard-key prefix|hash] [--shard-length 2] [--shards-dir dir]
+ *        [--data-dir ./airdrop-data] [--campaign id] [--campaign-name "Season 1"] [--claim-days 30]
+ *        [--claim-end 2025-12-31T00:00:00Z] [--token-address 0x...] [--token-symbol PCRYPT]
+ *        [--chain-id 8453] [--network base] [--skip-verify] [--rules allocation-rules.json]
+ *        [--sybil sybil-filters.json]
+ * With --rules, allocations are computed from the rules' datasets instead of an input file.
+ */
+export function loadEntriesFromArgs(args: string[]) {
+  const inputOptions: InputOptions = {};
+  const options: GenerateOptions = {};
+  let inputFile: string | undefined;
+  
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--columns') {
+      inputOptions.columns = parseColumnMapping(args[++i] || '');
+    } else if (args[i] === '--delimiter') {
+      inputOptions.delimiter = args[++i];
+    } else if (args[i] === '--duplicates') {
+      const strategy = args[++i];
+      if (!['merge', 'keep-first', 'fail'].includes(strategy)) {
+        throw new Error(`Unknown duplicate strategy "${strategy}" (expected merge, keep-first or fail)`);
+      }
+      options.duplicates = strategy as DuplicateStrategy;
+    } else if (args[i] === '--decimals') {
+      const decimals = Number(args[++i]);
+      if (!Number.isInteger(decimals) || decimals < 0 || decimals > 77) {
+        throw new Error(`Invalid token decimals "${args[i]}"`);
+      }
+      options.decimals = decimals;
+    } else if (args[i] === '--contracts') {
+      options.contractAddresses = loadAddressList(args[++i]);
+    } else if (args[i] === '--leaf-format') {
+      const encoding = args[++i];
+      if (encoding !== 'packed' && encoding !== 'standard') {
+        throw new Error(`Unknown leaf format "${encoding}" (expected packed or standard)`);
+      }
+      options.leafEncoding = encoding;
+    } else if (args[i] === '--shard-key') {
+      const keyType = args[++i];
+      if (keyType !== 'prefix' && keyType !== 'hash') {
+        throw new Error(`Unknown shard key "${keyType}" (expected prefix or hash)`);
+      }
+      options.shards = { ...options.shards, keyType };
+    } else if (args[i] === '--shard-length') {
+      options.shards = { ...options.shards, keyLength: Number(args[++i]) };
+    } else if (args[i] === '--shards-dir') {
+      options.shards = { ...options.shards, dir: args[++i] };
+    } else if (args[i] === '--data-dir') {
+      options.dataDir = args[++i];
+    } else if (args[i] === '--campaign') {
+      options.campaign = { ...options.campaign, id: args[++i] };
+    } else if (args[i] === '--campaign-name') {
+      options.campaign = { ...options.campaign, name: args[++i] };
+    } else if (args[i] === '--claim-days') {
+      options.campaign = { ...options.campaign, claimPeriodDays: Number(args[++i]) };
+    } else if (args[i] === '--claim-end') {
+      options.campaign = { ...options.campaign, claimEnd: args[++i] };
+    } else if (args[i] === '--token-address') {
+      options.campaign = { ...options.campaign, tokenAddress: args[++i] };
+    } else if (args[i] === '--token-symbol') {
+      options.campaign = { ...options.campaign, tokenSymbol: args[++i] };
+    } else if (args[i] === '--chain-id') {
+      options.campaign = { ...options.campaign, chainId: Number(args[++i]) };
+    } else if (args[i] === '--network') {
+      options.campaign = { ...options.campaign, network: args[++i] };
+    } else if (args[i] === '--skip-verify') {
+      options.skipVerify = true;
+    } else if (args[i] === '--rules') {
+      options.rules = args[++i];
+    } else if (args[i] === '--sybil') {
+      options.sybil = args[++i];
+    } else {
+      inputFile = args[i];
+    }
+  }
+  
+  if (options.rules) {
+    if (inputFile) {
+      throw new Error('Pass either an input file or --rules, not both');
+    }
+    return { entries: [] as Iterable<EligibilityEntry>, options };
+  }
+  
+  if (!inputFile) {
+    console.log('ℹ️  No input file given, using the built-in ELIGIBLE_USERS list');
+    return { entries: ELIGIBLE_USERS as Iterable<EligibilityEntry>, options };
+  }
+  
+  // Entries are streamed straight into validation rather than loaded up front
+  console.log(`📥 Loading eligibility list from ${inputFile}`);
+  return { entries: readEligibilityFile(inputFile, inputOptions) as AsyncIterable<EligibilityEntry>, options };
+}
+
 // Run if called directly
 if (require.main === module) {
-  generateAirdropData()
-    .then(() => {
-      generateCSV();
+  Promise.resolve()
+    .then(() => loadEntriesFromArgs(process.argv.slice(2)))
+    .then(async ({ entries, options }) => {
+      const result = await generateAirdropData(entries, options);
+      await generateCSV(result.tree, {}, result.outputDir);
       console.log('\n🚀 Airdrop data generation complete!');
       console.log('\nNext steps:');
       console.log('1. Review the generated files');
-      console.log('2. Deploy the airdrop contract using deploy.ts');
+      console.log(`2. Deploy with AIRDROP_CAMPAIGN=${result.campaign.id} npm run deploy:base`);
       console.log('3. Update frontend with contract address');
       console.log('4. Test with a few eligible addresses');
       console.log('5. Announce the airdrop! 🎉');
     })
-    .catch(console.error);
+    .catch(err => {
+      console.error(err instanceof Error ? err.message : err);
+      process.exitCode = 1;
+    });
 }
\ No newline at end of file
@@ -0,0 +1,400 @@
+import { ethers } from 'ethers';
+import { EligibleUser, LeafEncoding } from './types';
+
+// Types
+export interface TreeOptions {
+  decimals?: number; // Token decimals, defaults to 18
+  leafEncoding?: LeafEncoding; // Defaults to "packed", the format PayCryptAirdrop verifies
+}
+
+export interface BuilderOptions extends TreeOptions {
+  onProgress?: (progress: BuildProgress) => void;
+}
+
+export interface BuildProgress {
+  phase: 'leaves' | 'nodes';
+  done: number;
+  total: number;
+}
+
+export interface TreeEntry {
+  index: number; // Position in input order
+  address: string;
+  amountWei: bigint;
+  reason?: string;
+}
+
+const HASH_SIZE = 32;
+const PROGRESS_INTERVAL = 25_000;
+
+/**
+ * keccak256 of data, written straight into target at offset
+ */
+function keccakInto(data: Uint8Array, target: Buffer, offset: number) {
+  target.write(ethers.keccak256(data).slice(2), offset, HASH_SIZE, 'hex');
+}
+
+/**
+ * Hash two nodes in sorted order (OpenZeppelin MerkleProof / merkletreejs sortPairs)
+ */
+function hashPairInto(
+  source: Buffer,
+  left: number,
+  right: number,
+  target: Buffer,
+  offset: number,
+  scratch: Buffer
+) {
+  const leftFirst = source.compare(source, right, right + HASH_SIZE, left, left + HASH_SIZE) <= 0;
+  source.copy(scratch, 0, leftFirst ? left : right, (leftFirst ? left : right) + HASH_SIZE);
+  source.copy(scratch, HASH_SIZE, leftFirst ? right : left, (leftFirst ? right : left) + HASH_SIZE);
+  keccakInto(scratch, target, offset);
+}
+
+/**
+ * Compute the leaf hash for an address and amount
+ */
+export function computeLeaf(address: string, amountWei: bigint, leafEncoding: LeafEncoding = 'packed'): string {
+  if (leafEncoding === 'standard') {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [address, amountWei]);
+    return ethers.keccak256(ethers.keccak256(encoded));
+  }
+  return ethers.solidityPackedKeccak256(['address', 'uint256'], [address, amountWei]);
+}
+
+/**
+ * Fold a proof into the root it implies (sorted-pair hashing, as in MerkleProof.verify)
+ */
+export function processProof(leaf: string, proof: string[]): string {
+  return proof.reduce((node, sibling) => {
+    const [first, second] = node.toLowerCase() <= sibling.toLowerCase() ? [node, sibling] : [sibling, node];
+    return ethers.keccak256(ethers.concat([first, second]));
+  }, leaf);
+}
+
+/**
+ * Check a proof against a root
+ */
+export function verifyMerkleProof(root: string, leaf: string, proof: string[]): boolean {
+  return processProof(leaf, proof).toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Collects entries in compact form and builds the Merkle tree in one pass.
+ * Leaves and nodes live in flat buffers, and proofs are read from the layers
+ * by index, so no leaf lookups are needed while emitting output.
+ */
+export class AirdropTreeBuilder {
+  private addresses: string[] = [];
+  private amounts: bigint[] = [];
+  private reasonIds: number[] = [];
+  private reasons: string[] = [''];
+  private reasonLookup = new Map<string, number>([['', 0]]);
+  private decimals: number;
+  private leafEncoding: LeafEncoding;
+  private onProgress?: (progress: BuildProgress) => void;
+
+  constructor(options: BuilderOptions = {}) {
+    this.decimals = options.decimals ?? 18;
+    this.leafEncoding = options.leafEncoding || 'packed';
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Add a user with a token amount ("1000")
+   */
+  add(user: EligibleUser): number {
+    return this.addWei(user.address, ethers.parseUnits(user.amount, this.decimals), user.reason);
+  }
+
+  /**
+   * Add a user with an amount already in base units
+   */
+  addWei(address: string, amountWei: bigint, reason?: string): number {
+    if (!ethers.isHexString(address, 20)) {
+      throw new Error(`Invalid address "${address}"`);
+    }
+    if (amountWei < 0n || amountWei >= 2n ** 256n) {
+      throw new Error(`Amount ${amountWei} for ${address} does not fit in uint256`);
+    }
+
+    let reasonId = this.reasonLookup.get(reason || '');
+    if (reasonId === undefined) {
+      reasonId = this.reasons.length;
+      this.reasons.push(reason!);
+      this.reasonLookup.set(reason!, reasonId);
+    }
+
+    this.addresses.push(address);
+    this.amounts.push(amountWei);
+    this.reasonIds.push(reasonId);
+    return this.addresses.length - 1;
+  }
+
+  get size(): number {
+    return this.addresses.length;
+  }
+
+  /**
+   * Hash every leaf and every internal node
+   */
+  build(): BuiltMerkleTree {
+    const count = this.addresses.length;
+    if (count === 0) {
+      throw new Error('Cannot build a Merkle tree without entries');
+    }
+
+    const leaves = this.hashLeaves();
+    const layout = this.leafEncoding === 'standard'
+      ? this.buildStandard(leaves)
+      : this.buildPacked(leaves);
+
+    return new BuiltMerkleTree({
+      addresses: this.addresses,
+      amounts: this.amounts,
+      reasonIds: this.reasonIds,
+      reasons: this.reasons,
+      decimals: this.decimals,
+      leafEncoding: this.leafEncoding,
+      ...layout
+    });
+  }
+
+  private report(phase: BuildProgress['phase'], done: number, total: number) {
+    if (this.onProgress && (done % PROGRESS_INTERVAL === 0 || done === total)) {
+      this.onProgress({ phase, done, total });
+    }
+  }
+
+  /**
+   * Hash all leaves into one flat buffer, in input order
+   */
+  private hashLeaves(): Buffer {
+    const count = this.addresses.length;
+    const leaves = Buffer.alloc(count * HASH_SIZE);
+    const standard = this.leafEncoding === 'standard';
+
+    // packed: address (20) ++ uint256 (32); standard: abi.encode pads the address to 32 bytes
+    const encoded = Buffer.alloc(standard ? 64 : 52);
+    const addressOffset = standard ? 12 : 0;
+    const amountOffset = standard ? 32 : 20;
+    const inner = Buffer.alloc(HASH_SIZE);
+
+    for (let i = 0; i < count; i++) {
+      encoded.write(this.addresses[i].slice(2), addressOffset, 20, 'hex');
+      encoded.write(this.amounts[i].toString(16).padStart(64, '0'), amountOffset, HASH_SIZE, 'hex');
+
+      if (standard) {
+        keccakInto(encoded, inner, 0);
+        keccakInto(inner, leaves, i * HASH_SIZE);
+      } else {
+        keccakInto(encoded, leaves, i * HASH_SIZE);
+      }
+      this.report('leaves', i + 1, count);
+    }
+
+    return leaves;
+  }
+
+  /**
+   * merkletreejs layout: pair neighbours, promote an odd last node unchanged
+   */
+  private buildPacked(leaves: Buffer) {
+    const count = leaves.length / HASH_SIZE;
+    const layers = [leaves];
+    const scratch = Buffer.alloc(HASH_SIZE * 2);
+    let done = 0;
+
+    while (layers[layers.length - 1].length > HASH_SIZE) {
+      const current = layers[layers.length - 1];
+      const nodes = current.length / HASH_SIZE;
+      const next = Buffer.alloc(Math.ceil(nodes / 2) * HASH_SIZE);
+
+      for (let i = 0; i < nodes; i += 2) {
+        const target = (i / 2) * HASH_SIZE;
+        if (i + 1 === nodes) {
+          current.copy(next, target, i * HASH_SIZE, (i + 1) * HASH_SIZE);
+        } else {
+          hashPairInto(current, i * HASH_SIZE, (i + 1) * HASH_SIZE, next, target, scratch);
+        }
+        this.report('nodes', ++done, count - 1);
+      }
+
+      layers.push(next);
+    }
+
+    return { layers };
+  }
+
+  /**
+   * OpenZeppelin StandardMerkleTree layout: leaves sorted by hash, stored
+   * in reverse at the end of a flat array-backed complete binary tree
+   */
+  private buildStandard(leaves: Buffer) {
+    const count = leaves.length / HASH_SIZE;
+    const order = new Uint32Array(count).map((_, i) => i);
+    order.sort((a, b) =>
+      leaves.compare(leaves, b * HASH_SIZE, (b + 1) * HASH_SIZE, a * HASH_SIZE, (a + 1) * HASH_SIZE) || a - b
+    );
+
+    const nodes = 2 * count - 1;
+    const tree = Buffer.alloc(nodes * HASH_SIZE);
+    const treeIndexes = new Uint32Array(count);
+
+    for (let k = 0; k < count; k++) {
+      const position = nodes - 1 - k;
+      leaves.copy(tree, position * HASH_SIZE, order[k] * HASH_SIZE, (order[k] + 1) * HASH_SIZE);
+      treeIndexes[order[k]] = position;
+    }
+
+    const scratch = Buffer.alloc(HASH_SIZE * 2);
+    for (let i = nodes - 1 - count, done = 1; i >= 0; i--, done++) {
+      hashPairInto(tree, (2 * i + 1) * HASH_SIZE, (2 * i + 2) * HASH_SIZE, tree, i * HASH_SIZE, scratch);
+      this.report('nodes', done, count - 1);
+    }
+
+    return { tree, treeIndexes };
+  }
+}
+
+interface BuiltTreeData {
+  addresses: string[];
+  amounts: bigint[];
+  reasonIds: number[];
+  reasons: string[];
+  decimals: number;
+  leafEncoding: LeafEncoding;
+  layers?: Buffer[]; // packed layout, leaves first
+  tree?: Buffer; // standard layout, root first
+  treeIndexes?: Uint32Array; // standard layout, tree position per entry
+}
+
+/**
+ * A fully hashed tree; proofs are read straight from the stored nodes
+ */
+export class BuiltMerkleTree {
+  private leafIndex?: Map<string, number>;
+
+  constructor(private data: BuiltTreeData) {}
+
+  get length(): number {
+    return this.data.addresses.length;
+  }
+
+  get decimals(): number {
+    return this.data.decimals;
+  }
+
+  get leafEncoding(): LeafEncoding {
+    return this.data.leafEncoding;
+  }
+
+  get root(): string {
+    const { layers, tree } = this.data;
+    const top = tree ? tree.subarray(0, HASH_SIZE) : layers![layers!.length - 1];
+    return '0x' + top.toString('hex');
+  }
+
+  get height(): number {
+    return this.data.layers
+      ? this.data.layers.length - 1
+      : Math.ceil(Math.log2(this.length));
+  }
+
+  get totalWei(): bigint {
+    return this.data.amounts.reduce((sum, amount) => sum + amount, 0n);
+  }
+
+  /**
+   * Get the entry at an input position
+   */
+  entry(index: number): TreeEntry {
+    const reason = this.data.reasons[this.data.reasonIds[index]];
+    return {
+      index,
+      address: this.data.addresses[index],
+      amountWei: this.data.amounts[index],
+      ...(reason && { reason })
+    };
+  }
+
+  /**
+   * Iterate entries in input order
+   */
+  *entries(): IterableIterator<TreeEntry> {
+    for (let i = 0; i < this.length; i++) {
+      yield this.entry(i);
+    }
+  }
+
+  /**
+   * Get the leaf hash of the entry at an input position
+   */
+  leaf(index: number): string {
+    const { layers, tree, treeIndexes } = this.data;
+    const position = tree ? treeIndexes![index] : index;
+    return '0x' + (tree || layers![0]).toString('hex', position * HASH_SIZE, (position + 1) * HASH_SIZE);
+  }
+
+  /**
+   * Get the proof for the entry at an input position
+   */
+  getProof(index: number): string[] {
+    const proof: string[] = [];
+    const { layers, tree, treeIndexes } = this.data;
+
+    if (tree) {
+      for (let i = treeIndexes![index]; i > 0; i = Math.floor((i - 1) / 2)) {
+        const sibling = i % 2 === 1 ? i + 1 : i - 1;
+        proof.push('0x' + tree.toString('hex', sibling * HASH_SIZE, (sibling + 1) * HASH_SIZE));
+      }
+      return proof;
+    }
+
+    let i = index;
+    for (const layer of layers!.slice(0, -1)) {
+      const sibling = i % 2 === 1 ? i - 1 : i + 1;
+      if (sibling * HASH_SIZE < layer.length) {
+        proof.push('0x' + layer.toString('hex', sibling * HASH_SIZE, (sibling + 1) * HASH_SIZE));
+      }
+      i = Math.floor(i / 2);
+    }
+    return proof;
+  }
+
+  /**
+   * Find the input position of an address and amount, or -1
+   */
+  indexOf(address: string, amountWei: bigint): number {
+    if (!this.leafIndex) {
+      this.leafIndex = new Map();
+      for (let i = 0; i < this.length; i++) {
+        this.leafIndex.set(this.leaf(i), i);
+      }
+    }
+    return this.leafIndex.get(computeLeaf(address, amountWei, this.leafEncoding)) ?? -1;
+  }
+
+  /**
+   * Node hashes in StandardMerkleTree dump order (standard layout only)
+   */
+  *standardNodes(): IterableIterator<string> {
+    const { tree } = this.data;
+    if (!tree) {
+      throw new Error('Tree dumps are only available with the "standard" leaf encoding');
+    }
+    for (let offset = 0; offset < tree.length; offset += HASH_SIZE) {
+      yield '0x' + tree.toString('hex', offset, offset + HASH_SIZE);
+    }
+  }
+
+  /**
+   * Tree position of the entry at an input position (standard layout only)
+   */
+  treeIndex(index: number): number {
+    if (!this.data.treeIndexes) {
+      throw new Error('Tree indexes are only available with the "standard" leaf encoding');
+    }
+    return this.data.treeIndexes[index];
+  }
+}
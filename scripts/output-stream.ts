@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+
+/**
+ * Write-stream wrapper that waits for the file to drain, so large outputs
+ * are written incrementally instead of being built as one string
+ */
+export class OutputFile {
+  private stream: fs.WriteStream;
+
+  constructor(public readonly path: string) {
+    this.stream = fs.createWriteStream(path, { encoding: 'utf8' });
+  }
+
+  async write(chunk: string) {
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+  }
+
+  async close() {
+    this.stream.end();
+    await finished(this.stream);
+  }
+}
+
+/**
+ * Log progress of a long-running phase roughly every 10%
+ */
+export function createProgressLogger(label: string) {
+  const started = Date.now();
+  let nextPercent = 10;
+
+  return (done: number, total: number) => {
+    const percent = total === 0 ? 100 : Math.floor((done / total) * 100);
+    if (percent < nextPercent && done !== total) return;
+
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+    console.log(`  ${label}: ${done.toLocaleString()}/${total.toLocaleString()} (${percent}%, ${seconds}s)`);
+    nextPercent = Math.floor(percent / 10) * 10 + 10;
+  };
+}
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuiltMerkleTree } from './merkle-builder';
+import { OutputFile } from './output-stream';
+import { ProofShardManifest, ShardKeyType, getShardKey } from '../lib/proofShards';
+
+// Types
+export interface ShardOptions {
+  keyType?: ShardKeyType; // Defaults to "prefix"
+  keyLength?: number; // Hex characters per key, defaults to 2 (256 shards)
+}
+
+const SHARD_FILE_PATTERN = /^[0-9a-f]+\.json$/;
+
+/**
+ * Write one proof file per shard plus an index.json manifest, so the claim
+ * page only downloads the slice of the list that can contain its address
+ */
+export async function writeProofShards(
+  tree: BuiltMerkleTree,
+  shardDir: string,
+  options: ShardOptions = {}
+): Promise<ProofShardManifest> {
+  const keyType = options.keyType || 'prefix';
+  const keyLength = options.keyLength ?? 2;
+  if (!Number.isInteger(keyLength) || keyLength < 1 || keyLength > 6) {
+    throw new Error(`Shard key length must be between 1 and 6, got ${keyLength}`);
+  }
+
+  // Group entry positions by shard first, so each shard is written in one go
+  const buckets = new Map<string, number[]>();
+  for (const entry of tree.entries()) {
+    const key = getShardKey(entry.address, keyType, keyLength);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = [];
+      buckets.set(key, bucket);
+    }
+    bucket.push(entry.index);
+  }
+
+  // Remove shards left over from a previous run; only files we would write are touched
+  fs.mkdirSync(shardDir, { recursive: true });
+  for (const file of fs.readdirSync(shardDir)) {
+    if (SHARD_FILE_PATTERN.test(file) || file === 'index.json') {
+      fs.unlinkSync(path.join(shardDir, file));
+    }
+  }
+
+  const manifest: ProofShardManifest = {
+    version: 1,
+    merkleRoot: tree.root,
+    keyType,
+    keyLength,
+    totalUsers: tree.length,
+    shards: {}
+  };
+
+  for (const key of Array.from(buckets.keys()).sort()) {
+    const indexes = buckets.get(key)!;
+    const file = new OutputFile(path.join(shardDir, `${key}.json`));
+
+    await file.write('{');
+    for (let i = 0; i < indexes.length; i++) {
+      const entry = tree.entry(indexes[i]);
+      const value = {
+        amount: entry.amountWei.toString(),
+        proof: tree.getProof(entry.index),
+        ...(entry.reason && { reason: entry.reason })
+      };
+      await file.write(`${i === 0 ? '' : ','}\n  ${JSON.stringify(entry.address.toLowerCase())}: ${JSON.stringify(value)}`);
+    }
+    await file.write('\n}\n');
+    await file.close();
+
+    manifest.shards[key] = { file: `${key}.json`, entries: indexes.length };
+  }
+
+  fs.writeFileSync(path.join(shardDir, 'index.json'), JSON.stringify(manifest, null, 2));
+  return manifest;
+}
@@ -0,0 +1,422 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTokenAmount } from './amounts';
+import { streamJsonElements } from './eligibility-input';
+import { DEFAULT_DATA_DIR, getCampaignDir, requireCampaign } from './campaigns';
+import { OutputFile, createProgressLogger } from './output-stream';
+import { DEFAULT_CAMPAIGN } from '../lib/campaigns';
+
+// Types
+export interface ReconcileOptions {
+  dataDir?: string;
+  campaign?: string;
+  rpcUrl?: string;
+  provider?: ethers.Provider; // Used instead of rpcUrl when given
+  contractAddress?: string; // Defaults to the campaign's deployment
+  fromBlock?: number; // Defaults to the deployment block
+  toBlock?: number; // Defaults to the latest block
+  blockRange?: number; // Blocks per eth_getLogs request
+  outputDir?: string; // Defaults to <campaign dir>/reconciliation
+}
+
+export interface ReconciledClaim {
+  address: string;
+  eligibleWei?: string; // Unset for addresses that are not in the list
+  claimedWei?: string; // Unset when no TokensClaimed event was found
+  reason?: string;
+  blockNumber?: number;
+  transactionHash?: string;
+  issue?: string; // Why an entry is unexpected
+}
+
+interface ClaimEvent {
+  address: string;
+  amountWei: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface ReconciliationReport {
+  campaign: string;
+  version: number;
+  chainId: number;
+  contractAddress: string;
+  merkleRoot: { campaign: string; onChain: string };
+  fromBlock: number;
+  toBlock: number;
+  claimPeriodEnd: string;
+  windowClosed: boolean;
+  totals: {
+    eligibleUsers: number;
+    eligibleWei: string;
+    claimedUsers: number;
+    claimedWei: string;
+    unclaimedUsers: number;
+    unclaimedWei: string;
+    unexpected: number;
+    contractBalanceWei: string;
+  };
+  claimed: ReconciledClaim[];
+  unclaimed: ReconciledClaim[];
+  unexpected: ReconciledClaim[];
+  warnings: string[];
+  files: string[];
+}
+
+const AIRDROP_ABI = [
+  'function hasClaimed(address user) external view returns (bool)',
+  'function merkleRoot() external view returns (bytes32)',
+  'function claimPeriodEnd() external view returns (uint256)',
+  'function token() external view returns (address)',
+  'event TokensClaimed(address indexed claimer, uint256 amount, uint256 timestamp)'
+];
+const ERC20_ABI = ['function balanceOf(address account) external view returns (uint256)'];
+
+const DEFAULT_BLOCK_RANGE = 5000;
+const CLAIM_CHECK_CONCURRENCY = 10;
+
+/**
+ * Read TokensClaimed events in chunks, halving the chunk whenever the RPC
+ * rejects a range as too large
+ */
+async function fetchClaimEvents(
+  airdrop: ethers.Contract,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number
+): Promise<ClaimEvent[]> {
+  const events: ClaimEvent[] = [];
+  const logProgress = createProgressLogger('Reading TokensClaimed events');
+  let range = blockRange;
+
+  for (let start = fromBlock; start <= toBlock; ) {
+    const end = Math.min(start + range - 1, toBlock);
+    let logs;
+    try {
+      logs = await airdrop.queryFilter(airdrop.filters.TokensClaimed(), start, end);
+    } catch (err) {
+      if (range === 1) throw err;
+      range = Math.max(1, Math.floor(range / 2));
+      continue;
+    }
+
+    for (const log of logs as ethers.EventLog[]) {
+      events.push({
+        address: ethers.getAddress(log.args.claimer),
+        amountWei: log.args.amount,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash
+      });
+    }
+    logProgress(end - fromBlock + 1, toBlock - fromBlock + 1);
+    start = end + 1;
+  }
+  return events;
+}
+
+/**
+ * Read hasClaimed for every address, a few requests at a time
+ */
+async function fetchClaimedFlags(airdrop: ethers.Contract, addresses: string[]): Promise<Set<string>> {
+  const claimed = new Set<string>();
+  const queue = [...addresses];
+  const logProgress = createProgressLogger('Reading hasClaimed');
+  let done = 0;
+
+  const worker = async () => {
+    for (let address = queue.shift(); address; address = queue.shift()) {
+      if (await airdrop.hasClaimed(address)) claimed.add(address.toLowerCase());
+      logProgress(++done, addresses.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: CLAIM_CHECK_CONCURRENCY }, worker));
+  return claimed;
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeCsv(filePath: string, header: string[], rows: unknown[][]) {
+  const file = new OutputFile(filePath);
+  await file.write(`${header.join(',')}\n`);
+  for (const row of rows) {
+    await file.write(`${row.map(csvField).join(',')}\n`);
+  }
+  await file.close();
+}
+
+/**
+ * Compare a campaign's eligibility list with what happened on-chain and
+ * write claimed, unclaimed and unexpected reports plus a rollover input
+ */
+export async function reconcileAirdrop(options: ReconcileOptions): Promise<ReconciliationReport> {
+  const dataDir = options.dataDir || DEFAULT_DATA_DIR;
+  const campaign = requireCampaign(dataDir, options.campaign || DEFAULT_CAMPAIGN);
+  const campaignDir = getCampaignDir(dataDir, campaign.id);
+  const decimals = campaign.token.decimals;
+  const warnings: string[] = [];
+
+  if (!options.rpcUrl && !options.provider) {
+    throw new Error('An RPC endpoint is required (--rpc <url>)');
+  }
+  const contractAddress = options.contractAddress || campaign.deployment?.contractAddress;
+  if (!contractAddress) {
+    throw new Error(`Campaign "${campaign.id}" has no recorded deployment; pass --contract <address>`);
+  }
+
+  const provider = options.provider ?? new ethers.JsonRpcProvider(options.rpcUrl);
+  const airdrop = new ethers.Contract(ethers.getAddress(contractAddress), AIRDROP_ABI, provider);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const isRecordedDeployment = campaign.deployment?.contractAddress.toLowerCase() === contractAddress.toLowerCase();
+
+  if (isRecordedDeployment && campaign.deployment!.chainId !== chainId) {
+    throw new Error(`Campaign was deployed on chain ${campaign.deployment!.chainId}, but the RPC endpoint is chain ${chainId}`);
+  }
+  if ((await provider.getCode(contractAddress)) === '0x') {
+    throw new Error(`No contract at ${contractAddress} on chain ${chainId}`);
+  }
+
+  const onChainRoot: string = await airdrop.merkleRoot();
+  const claimPeriodEnd = Number(await airdrop.claimPeriodEnd());
+  const latestBlock = (await provider.getBlock('latest'))!;
+  const fromBlock = options.fromBlock ?? (isRecordedDeployment ? campaign.deployment!.blockNumber : 0);
+  const toBlock = options.toBlock ?? latestBlock.number;
+  const windowClosed = latestBlock.timestamp > claimPeriodEnd;
+
+  console.log(`🔎 Reconciling campaign "${campaign.name}" (${campaign.id}, version ${campaign.version})`);
+  console.log(`- Contract ${contractAddress} on chain ${chainId}, blocks ${fromBlock}-${toBlock}`);
+
+  if (onChainRoot.toLowerCase() !== campaign.merkleRoot.toLowerCase()) {
+    warnings.push(`On-chain root ${onChainRoot} differs from campaign root ${campaign.merkleRoot}; claims may follow another version`);
+  }
+  if (!windowClosed) {
+    warnings.push(`Claim window is still open until ${new Date(claimPeriodEnd * 1000).toISOString()}; unclaimed users can still claim`);
+  }
+
+  // Eligibility list, keyed by lowercase address
+  const eligible = new Map<string, { address: string; amountWei: bigint; reason?: string }>();
+  for await (const { value } of streamJsonElements(path.join(campaignDir, 'eligible-users-detailed.json'), 'array')) {
+    const entry = value as { address: string; amountWei: string; reason?: string };
+    eligible.set(entry.address.toLowerCase(), {
+      address: ethers.getAddress(entry.address),
+      amountWei: BigInt(entry.amountWei),
+      reason: entry.reason || undefined
+    });
+  }
+
+  // On-chain state
+  const events = await fetchClaimEvents(airdrop, fromBlock, toBlock, options.blockRange || DEFAULT_BLOCK_RANGE);
+  const eventsByAddress = new Map<string, ClaimEvent[]>();
+  for (const event of events) {
+    const key = event.address.toLowerCase();
+    eventsByAddress.set(key, [...(eventsByAddress.get(key) || []), event]);
+  }
+  const claimedFlags = await fetchClaimedFlags(
+    airdrop,
+    [...new Set([...eligible.values()].map(entry => entry.address).concat(events.map(event => event.address)))]
+  );
+
+  // Join the two
+  const claimed: ReconciledClaim[] = [];
+  const unclaimed: ReconciledClaim[] = [];
+  const unexpected: ReconciledClaim[] = [];
+
+  for (const [key, entry] of eligible) {
+    const matches = eventsByAddress.get(key) || [];
+    const base = { address: entry.address, eligibleWei: entry.amountWei.toString(), reason: entry.reason };
+
+    if (matches.length === 0) {
+      if (claimedFlags.has(key)) {
+        unexpected.push({ ...base, issue: `hasClaimed is true but no TokensClaimed event was found in blocks ${fromBlock}-${toBlock}` });
+      } else {
+        unclaimed.push(base);
+      }
+      continue;
+    }
+
+    const event = matches[0];
+    const claim = { ...base, claimedWei: event.amountWei.toString(), blockNumber: event.blockNumber, transactionHash: event.transactionHash };
+    if (matches.length > 1) {
+      unexpected.push({ ...claim, issue: `claimed ${matches.length} times` });
+    } else if (event.amountWei !== entry.amountWei) {
+      unexpected.push({ ...claim, issue: 'claimed amount differs from the eligible amount' });
+    } else {
+      claimed.push(claim);
+    }
+  }
+
+  for (const [key, matches] of eventsByAddress) {
+    if (eligible.has(key)) continue;
+    for (const event of matches) {
+      unexpected.push({
+        address: event.address,
+        claimedWei: event.amountWei.toString(),
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        issue: 'not in the eligibility list'
+      });
+    }
+  }
+
+  const sum = (items: ReconciledClaim[], field: 'eligibleWei' | 'claimedWei') =>
+    items.reduce((total, item) => total + BigInt(item[field] || 0), 0n);
+  const token = new ethers.Contract(await airdrop.token(), ERC20_ABI, provider);
+  const contractBalance: bigint = await token.balanceOf(contractAddress);
+  const unclaimedWei = sum(unclaimed, 'eligibleWei');
+  if (contractBalance < unclaimedWei) {
+    warnings.push(`Contract holds ${formatTokenAmount(contractBalance, decimals)} tokens, less than the ${formatTokenAmount(unclaimedWei, decimals)} unclaimed`);
+  }
+
+  // Reports
+  const outputDir = options.outputDir || path.join(campaignDir, 'reconciliation');
+  fs.mkdirSync(outputDir, { recursive: true });
+  const files = {
+    report: path.join(outputDir, 'reconciliation.json'),
+    claimed: path.join(outputDir, 'claimed.csv'),
+    unclaimed: path.join(outputDir, 'unclaimed.csv'),
+    unexpected: path.join(outputDir, 'unexpected.csv'),
+    rollover: path.join(outputDir, 'rollover-eligibility.csv')
+  };
+
+  const tokens = (wei?: string) => (wei === undefined ? '' : formatTokenAmount(BigInt(wei), decimals));
+  await writeCsv(
+    files.claimed,
+    ['address', 'amount', 'amountWei', 'blockNumber', 'transactionHash', 'reason'],
+    claimed.map(item => [item.address, tokens(item.claimedWei), item.claimedWei, item.blockNumber, item.transactionHash, item.reason])
+  );
+  await writeCsv(
+    files.unclaimed,
+    ['address', 'amount', 'amountWei', 'reason'],
+    unclaimed.map(item => [item.address, tokens(item.eligibleWei), item.eligibleWei, item.reason])
+  );
+  await writeCsv(
+    files.unexpected,
+    ['address', 'issue', 'eligibleWei', 'claimedWei', 'blockNumber', 'transactionHash'],
+    unexpected.map(item => [item.address, item.issue, item.eligibleWei, item.claimedWei, item.blockNumber, item.transactionHash])
+  );
+  // Same columns as an eligibility input, so it can be fed to the generator as is
+  await writeCsv(
+    files.rollover,
+    ['address', 'amount', 'reason'],
+    unclaimed.map(item => [
+      item.address,
+      tokens(item.eligibleWei),
+      item.reason ? `Unclaimed in ${campaign.id}: ${item.reason}` : `Unclaimed in ${campaign.id}`
+    ])
+  );
+
+  const report: ReconciliationReport = {
+    campaign: campaign.id,
+    version: campaign.version,
+    chainId,
+    contractAddress: ethers.getAddress(contractAddress),
+    merkleRoot: { campaign: campaign.merkleRoot, onChain: onChainRoot },
+    fromBlock,
+    toBlock,
+    claimPeriodEnd: new Date(claimPeriodEnd * 1000).toISOString(),
+    windowClosed,
+    totals: {
+      eligibleUsers: eligible.size,
+      eligibleWei: [...eligible.values()].reduce((total, entry) => total + entry.amountWei, 0n).toString(),
+      claimedUsers: claimed.length,
+      claimedWei: sum(claimed, 'claimedWei').toString(),
+      unclaimedUsers: unclaimed.length,
+      unclaimedWei: unclaimedWei.toString(),
+      unexpected: unexpected.length,
+      contractBalanceWei: contractBalance.toString()
+    },
+    claimed,
+    unclaimed,
+    unexpected,
+    warnings,
+    files: Object.values(files)
+  };
+  fs.writeFileSync(files.report, JSON.stringify(report, null, 2));
+
+  return report;
+}
+
+/**
+ * Print a human-readable summary of a reconciliation
+ */
+export function printReconciliation(report: ReconciliationReport, decimals = 18, maxRows = 20) {
+  const { totals } = report;
+  const tokens = (wei: string) => formatTokenAmount(BigInt(wei), decimals);
+
+  console.log(`\n📊 Reconciliation for campaign "${report.campaign}" (version ${report.version}):`);
+  console.log(`- Eligible: ${totals.eligibleUsers} users, ${tokens(totals.eligibleWei)} tokens`);
+  console.log(`- Claimed: ${totals.claimedUsers} users, ${tokens(totals.claimedWei)} tokens`);
+  console.log(`- Unclaimed: ${totals.unclaimedUsers} users, ${tokens(totals.unclaimedWei)} tokens`);
+  console.log(`- Unexpected: ${totals.unexpected}`);
+  console.log(`- Contract balance: ${tokens(totals.contractBalanceWei)} tokens`);
+  console.log(`- Claim window: ${report.windowClosed ? 'closed' : 'open'} (ends ${report.claimPeriodEnd})`);
+
+  if (report.unexpected.length > 0) {
+    console.log('\n⚠️  Unexpected:');
+    report.unexpected.slice(0, maxRows).forEach(item => console.log(`  ${item.address}: ${item.issue}`));
+    if (report.unexpected.length > maxRows) console.log(`  ... and ${report.unexpected.length - maxRows} more`);
+  }
+  if (report.warnings.length > 0) {
+    console.log('\n⚠️  Warnings:');
+    report.warnings.forEach(warning => console.log(`  ${warning}`));
+  }
+
+  console.log('\n📄 Reports:');
+  report.files.forEach(file => console.log(`- ${file}`));
+}
+
+/**
+ * Parse reconcile-airdrop command line arguments.
+ * Usage: reconcile-airdrop --rpc <url> [--campaign id] [--data-dir ./airdrop-data]
+ *        [--contract <airdrop address>] [--from-block n] [--to-block n] [--block-range 5000]
+ *        [--out <dir>] [--json]
+ */
+export function parseReconcileArgs(args: string[]): ReconcileOptions & { json?: boolean } {
+  const options: ReconcileOptions & { json?: boolean } = {};
+  const number = (name: string, value: string | undefined) => {
+    if (!value || !/^\d+$/.test(value)) throw new Error(`${name} must be a whole number`);
+    return Number(value);
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--rpc') options.rpcUrl = args[++i];
+    else if (arg === '--campaign') options.campaign = args[++i];
+    else if (arg === '--data-dir') options.dataDir = args[++i];
+    else if (arg === '--contract') options.contractAddress = args[++i];
+    else if (arg === '--from-block') options.fromBlock = number(arg, args[++i]);
+    else if (arg === '--to-block') options.toBlock = number(arg, args[++i]);
+    else if (arg === '--block-range') options.blockRange = number(arg, args[++i]);
+    else if (arg === '--out') options.outputDir = args[++i];
+    else if (arg === '--json') options.json = true;
+    else throw new Error(`Unknown argument "${arg}"`);
+  }
+
+  options.rpcUrl = options.rpcUrl || process.env.AIRDROP_RPC_URL;
+  return options;
+}
+
+async function main(args: string[]) {
+  const options = parseReconcileArgs(args);
+  if (options.json) console.log = console.error;
+
+  const report = await reconcileAirdrop(options);
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    const campaign = requireCampaign(options.dataDir || DEFAULT_DATA_DIR, report.campaign);
+    printReconciliation(report, campaign.token.decimals);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,396 @@
+import { ethers } from 'ethers';
+import * as http from 'http';
+import { DEFAULT_DATA_DIR, requireCampaign } from './campaigns';
+import { DEFAULT_CAMPAIGN, getLatestDeployment } from '../lib/campaigns';
+import { decodeClaimError } from '../lib/claimErrors';
+import {
+  CLAIM_SIGNATURE_TTL_SECONDS,
+  RelayedClaimRequest,
+  getClaimDomain,
+  recoverClaimSigner
+} from '../lib/relayedClaims';
+
+// Types
+export interface RelayerOptions {
+  dataDir?: string;
+  campaign?: string;
+  rpcUrl?: string;
+  privateKey?: string; // Only read from RELAYER_PRIVATE_KEY by the CLI
+  contractAddress?: string; // Defaults to the campaign's deployment
+  port?: number;
+  allowedOrigin?: string; // CORS origin of the claim page
+  maxClaimsPerAddress?: number; // Relayed claims per address per window
+  maxRequestsPerIp?: number; // Requests of any kind per IP per window
+  windowMinutes?: number;
+  minBalanceEth?: string; // Below this the relayer reports itself unavailable
+}
+
+export interface RelayerContext {
+  provider: ethers.Provider;
+  relayerAddress: string;
+  signer: ethers.NonceManager;
+  airdrop: ethers.Contract;
+  contractAddress: string;
+  chainId: bigint;
+  domain: ethers.TypedDataDomain;
+  minBalanceWei: bigint;
+  allowedOrigin: string;
+  addressLimiter: RateLimiter;
+  ipLimiter: RateLimiter;
+  inFlight: Set<string>; // Lowercase claimers with a pending relayed transaction
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly reason?: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const AIRDROP_ABI = [
+  'function claimTokensWithSignature(address claimer, address recipient, uint256 amount, bytes32[] calldata merkleProof, uint256 deadline, bytes calldata signature) external',
+  'function nonces(address owner) external view returns (uint256)'
+];
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_MAX_CLAIMS_PER_ADDRESS = 3;
+const DEFAULT_MAX_REQUESTS_PER_IP = 30;
+const DEFAULT_WINDOW_MINUTES = 60;
+const DEFAULT_MIN_BALANCE_ETH = '0.002';
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_PROOF_LENGTH = 64;
+const DEADLINE_SLACK_SECONDS = 60; // Tolerated clock drift between browser and relayer
+
+/**
+ * Sliding-window request counter per key, kept in memory
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  /**
+   * Record a hit; returns 0 when allowed, otherwise seconds until the next slot frees up
+   */
+  take(key: string, now = Date.now()): number {
+    const recent = (this.hits.get(key) || []).filter(time => time > now - this.windowMs);
+    if (recent.length >= this.max) {
+      this.hits.set(key, recent);
+      return Math.ceil((recent[0] + this.windowMs - now) / 1000);
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  /**
+   * Drop keys without hits in the current window
+   */
+  sweep(now = Date.now()) {
+    for (const [key, times] of this.hits) {
+      if (times[times.length - 1] <= now - this.windowMs) this.hits.delete(key);
+    }
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Check the shape of a claim request before touching the chain
+ */
+export function parseClaimRequest(body: unknown): RelayedClaimRequest {
+  const request = body as Partial<RelayedClaimRequest> | null;
+  if (!request || typeof request !== 'object') throw new HttpError(400, 'Expected a JSON object');
+  if (typeof request.claimer !== 'string' || !ethers.isAddress(request.claimer)) {
+    throw new HttpError(400, 'claimer must be an address');
+  }
+  if (typeof request.recipient !== 'string' || !ethers.isAddress(request.recipient)) {
+    throw new HttpError(400, 'recipient must be an address');
+  }
+  if (typeof request.amount !== 'string' || !/^[1-9]\d{0,77}$/.test(request.amount)) {
+    throw new HttpError(400, 'amount must be a positive whole number of wei');
+  }
+  if (
+    !Array.isArray(request.proof) ||
+    request.proof.length > MAX_PROOF_LENGTH ||
+    !request.proof.every(node => typeof node === 'string' && ethers.isHexString(node, 32))
+  ) {
+    throw new HttpError(400, 'proof must be an array of 32-byte hex strings');
+  }
+  if (!Number.isSafeInteger(request.deadline)) throw new HttpError(400, 'deadline must be a Unix timestamp');
+  if (typeof request.signature !== 'string' || !ethers.isHexString(request.signature, 65)) {
+    throw new HttpError(400, 'signature must be a 65-byte hex string');
+  }
+  return {
+    claimer: ethers.getAddress(request.claimer),
+    recipient: ethers.getAddress(request.recipient),
+    amount: request.amount,
+    proof: request.proof,
+    deadline: request.deadline!,
+    signature: request.signature
+  };
+}
+
+async function handleHealth(context: RelayerContext, res: http.ServerResponse) {
+  const balance = await context.provider.getBalance(context.relayerAddress);
+  const healthy = balance >= context.minBalanceWei;
+  sendJson(res, healthy ? 200 : 503, {
+    status: healthy ? 'ok' : 'low-balance',
+    relayer: context.relayerAddress,
+    chainId: Number(context.chainId),
+    contract: context.contractAddress,
+    balance: ethers.formatEther(balance)
+  });
+}
+
+/**
+ * POST /claim: check the request and signature, apply the per-address limit and
+ * send the claim. Refusals are thrown as HttpError; 429 and 202 are answered here.
+ */
+export async function handleClaim(context: RelayerContext, req: http.IncomingMessage, res: http.ServerResponse) {
+  const request = parseClaimRequest(await readJsonBody(req));
+  const key = request.claimer.toLowerCase();
+
+  const now = Math.floor(Date.now() / 1000);
+  if (request.deadline <= now) throw new HttpError(400, 'Signature has expired, sign the claim again', 'SignatureExpired');
+  if (request.deadline > now + CLAIM_SIGNATURE_TTL_SECONDS + DEADLINE_SLACK_SECONDS) {
+    throw new HttpError(400, `deadline must be within ${CLAIM_SIGNATURE_TTL_SECONDS / 60} minutes`);
+  }
+
+  // Only the claimer can produce a valid signature, so checking it before the
+  // per-address limit stops others from using up someone else's quota
+  const nonce: bigint = await context.airdrop.nonces(request.claimer);
+  const message = { claimer: request.claimer, recipient: request.recipient, amount: BigInt(request.amount), nonce, deadline: BigInt(request.deadline) };
+  let signer: string;
+  try {
+    signer = recoverClaimSigner(context.domain, message, request.signature);
+  } catch {
+    throw new HttpError(400, 'Signature could not be decoded', 'InvalidSignature');
+  }
+  if (signer !== request.claimer) {
+    throw new HttpError(400, 'Signature does not match the claimer or has already been used', 'InvalidSignature');
+  }
+
+  if (context.inFlight.has(key)) {
+    throw new HttpError(409, 'A relayed claim for this address is already pending');
+  }
+  const retryAfter = context.addressLimiter.take(key);
+  if (retryAfter > 0) {
+    sendJson(res, 429, { error: 'Too many relayed claims for this address' }, { 'Retry-After': String(retryAfter) });
+    return;
+  }
+
+  const args = [request.claimer, request.recipient, request.amount, request.proof, request.deadline, request.signature];
+  context.inFlight.add(key);
+  try {
+    // Never pay for a transaction that is going to revert
+    try {
+      await context.airdrop.claimTokensWithSignature.staticCall(...args);
+    } catch (err) {
+      const decoded = decodeClaimError(err);
+      if (decoded.kind === 'contract') throw new HttpError(422, decoded.message, decoded.code);
+      throw err;
+    }
+
+    let tx: ethers.TransactionResponse;
+    try {
+      tx = await context.airdrop.claimTokensWithSignature(...args);
+    } catch (err) {
+      // NonceManager counts the nonce before the send can fail; count again from
+      // the chain so later relays do not use a nonce that was never sent
+      context.signer.reset();
+      throw err;
+    }
+    const destination = request.recipient === request.claimer ? '' : ` to ${request.recipient}`;
+    console.log(`📤 Relayed claim for ${request.claimer}${destination}: ${tx.hash}`);
+    sendJson(res, 202, { transactionHash: tx.hash });
+
+    // Keep the address locked until the transaction settles
+    tx.wait()
+      .then(receipt => console.log(`✅ ${tx.hash} confirmed in block ${receipt?.blockNumber}`))
+      .catch(err => console.error(`❌ ${tx.hash} failed: ${err instanceof Error ? err.message : err}`))
+      .finally(() => context.inFlight.delete(key));
+  } catch (err) {
+    context.inFlight.delete(key);
+    throw err;
+  }
+}
+
+/**
+ * Everything the handlers need to relay claims to one contract from one wallet
+ */
+export async function createRelayerContext(
+  wallet: ethers.Signer,
+  contractAddress: string,
+  options: RelayerOptions = {}
+): Promise<RelayerContext> {
+  const provider = wallet.provider;
+  if (!provider) throw new Error('The relayer wallet must be connected to a provider');
+  const { chainId } = await provider.getNetwork();
+
+  // NonceManager keeps concurrent relays from reusing a transaction nonce
+  const signer = new ethers.NonceManager(wallet);
+  const windowMs = (options.windowMinutes ?? DEFAULT_WINDOW_MINUTES) * 60_000;
+  return {
+    provider,
+    relayerAddress: await wallet.getAddress(),
+    signer,
+    airdrop: new ethers.Contract(ethers.getAddress(contractAddress), AIRDROP_ABI, signer),
+    contractAddress: ethers.getAddress(contractAddress),
+    chainId,
+    domain: getClaimDomain(chainId, ethers.getAddress(contractAddress)),
+    minBalanceWei: ethers.parseEther(options.minBalanceEth || DEFAULT_MIN_BALANCE_ETH),
+    allowedOrigin: options.allowedOrigin || '*',
+    addressLimiter: new RateLimiter(options.maxClaimsPerAddress ?? DEFAULT_MAX_CLAIMS_PER_ADDRESS, windowMs),
+    ipLimiter: new RateLimiter(options.maxRequestsPerIp ?? DEFAULT_MAX_REQUESTS_PER_IP, windowMs),
+    inFlight: new Set()
+  };
+}
+
+/**
+ * Connect to the chain and start serving claim requests:
+ *   GET  /health  relayer address, balance and whether it can pay for claims
+ *   POST /claim   RelayedClaimRequest, answered with the transaction hash
+ */
+export async function startRelayer(options: RelayerOptions): Promise<http.Server> {
+  const dataDir = options.dataDir || DEFAULT_DATA_DIR;
+  const campaign = requireCampaign(dataDir, options.campaign || DEFAULT_CAMPAIGN);
+  if (!options.rpcUrl) throw new Error('An RPC endpoint is required (--rpc or RELAYER_RPC_URL)');
+  if (!options.privateKey) throw new Error('RELAYER_PRIVATE_KEY is not set');
+
+  // Proofs come with each request, so a contract still on an earlier version's root is fine
+  const deployment = getLatestDeployment(campaign);
+  const contractAddress = options.contractAddress || deployment?.contractAddress;
+  if (!contractAddress) {
+    throw new Error(`Campaign "${campaign.id}" has no recorded deployment; pass --contract <address>`);
+  }
+
+  const provider = new ethers.JsonRpcProvider(options.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  const isRecordedDeployment = deployment?.contractAddress.toLowerCase() === contractAddress.toLowerCase();
+  if (isRecordedDeployment && BigInt(deployment!.chainId) !== chainId) {
+    throw new Error(`Campaign was deployed on chain ${deployment!.chainId}, but the RPC endpoint is chain ${chainId}`);
+  }
+  if ((await provider.getCode(contractAddress)) === '0x') {
+    throw new Error(`No contract at ${contractAddress} on chain ${chainId}`);
+  }
+
+  const context = await createRelayerContext(new ethers.Wallet(options.privateKey, provider), contractAddress, options);
+
+  const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', context.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://relayer');
+    try {
+      if (req.method === 'GET' && url.pathname === '/health') {
+        await handleHealth(context, res);
+        return;
+      }
+      if (req.method !== 'POST' || url.pathname !== '/claim') {
+        throw new HttpError(404, 'Not found');
+      }
+
+      const retryAfter = context.ipLimiter.take(req.socket.remoteAddress || 'unknown');
+      if (retryAfter > 0) {
+        sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(retryAfter) });
+        return;
+      }
+      await handleClaim(context, req, res);
+    } catch (err) {
+      if (res.headersSent) return;
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message, ...(err.reason && { reason: err.reason }) });
+      } else {
+        console.error(`⚠️  ${req.method} ${url.pathname} failed:`, err instanceof Error ? err.message : err);
+        sendJson(res, 503, { error: 'Relayer could not submit the claim' });
+      }
+    }
+  });
+
+  const sweeper = setInterval(() => {
+    context.addressLimiter.sweep();
+    context.ipLimiter.sweep();
+  }, (options.windowMinutes ?? DEFAULT_WINDOW_MINUTES) * 60_000);
+  sweeper.unref();
+  server.on('close', () => clearInterval(sweeper));
+
+  const port = options.port ?? DEFAULT_PORT;
+  await new Promise<void>(resolve => server.listen(port, resolve));
+
+  const balance = await provider.getBalance(context.relayerAddress);
+  console.log(`⛽ Relaying claims for campaign "${campaign.name}" (${campaign.id}) on chain ${chainId}`);
+  console.log(`- Contract: ${context.contractAddress}`);
+  console.log(`- Relayer:  ${context.relayerAddress} (${ethers.formatEther(balance)} ETH)`);
+  console.log(`- Listening on http://localhost:${port}`);
+  if (balance < context.minBalanceWei) {
+    console.log(`⚠️  Balance is below ${ethers.formatEther(context.minBalanceWei)} ETH; /health reports the relayer as unavailable`);
+  }
+  return server;
+}
+
+export function parseRelayerArgs(args: string[]): RelayerOptions {
+  const options: RelayerOptions = {};
+  const number = (name: string, value: string | undefined) => {
+    if (!value || !/^\d+$/.test(value)) throw new Error(`${name} must be a whole number`);
+    return Number(value);
+  };
+  const env = (name: string) => (process.env[name] ? number(name, process.env[name]) : undefined);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--rpc') options.rpcUrl = args[++i];
+    else if (arg === '--campaign') options.campaign = args[++i];
+    else if (arg === '--data-dir') options.dataDir = args[++i];
+    else if (arg === '--contract') options.contractAddress = args[++i];
+    else if (arg === '--port') options.port = number(arg, args[++i]);
+    else if (arg === '--origin') options.allowedOrigin = args[++i];
+    else if (arg === '--max-per-address') options.maxClaimsPerAddress = number(arg, args[++i]);
+    else if (arg === '--max-per-ip') options.maxRequestsPerIp = number(arg, args[++i]);
+    else if (arg === '--window-minutes') options.windowMinutes = number(arg, args[++i]);
+    else if (arg === '--min-balance') options.minBalanceEth = args[++i];
+    else throw new Error(`Unknown argument "${arg}"`);
+  }
+
+  // The key stays out of argv so it does not end up in shell history or ps output
+  options.privateKey = process.env.RELAYER_PRIVATE_KEY;
+  options.rpcUrl = options.rpcUrl || process.env.RELAYER_RPC_URL || process.env.AIRDROP_RPC_URL;
+  options.port = options.port ?? env('RELAYER_PORT');
+  options.allowedOrigin = options.allowedOrigin || process.env.RELAYER_ALLOWED_ORIGIN;
+  options.maxClaimsPerAddress = options.maxClaimsPerAddress ?? env('RELAYER_MAX_PER_ADDRESS');
+  options.maxRequestsPerIp = options.maxRequestsPerIp ?? env('RELAYER_MAX_PER_IP');
+  options.windowMinutes = options.windowMinutes ?? env('RELAYER_WINDOW_MINUTES');
+  options.minBalanceEth = options.minBalanceEth || process.env.RELAYER_MIN_BALANCE;
+  return options;
+}
+
+// Run if called directly
+if (require.main === module) {
+  startRelayer(parseRelayerArgs(process.argv.slice(2))).catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,272 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTokenAmount } from './amounts';
+import { readCsvRows, streamJsonElements } from './eligibility-input';
+import { DEFAULT_DATA_DIR, findCampaignClaim, getCampaignDir, requireCampaign } from './campaigns';
+import { createProgressLogger } from './output-stream';
+import { DEFAULT_CAMPAIGN } from '../lib/campaigns';
+import { SafeInfo, buildSafeClaimBatch, detectSafe } from '../lib/safeTransactions';
+
+// Types
+export interface SafeClaimOptions {
+  dataDir?: string;
+  campaign?: string;
+  addresses?: string[]; // Safes to generate batches for
+  inputFile?: string; // CSV with an address column and an optional recipient column
+  detect?: boolean; // Scan every eligible address for Safes (needs rpcUrl)
+  rpcUrl?: string; // Enables Safe detection and skipping of claimed addresses
+  contractAddress?: string; // Defaults to the campaign's deployment
+  chainId?: number; // Defaults to the deployment's chain
+  outputDir?: string; // Defaults to <campaign dir>/safe-claims
+}
+
+interface SafeClaimTarget {
+  address: string;
+  recipient?: string;
+}
+
+export interface SafeClaimEntry {
+  address: string;
+  amountWei: string;
+  recipient?: string;
+  safe?: SafeInfo; // Only known when an RPC endpoint was given
+  file: string;
+}
+
+export interface SafeClaimReport {
+  campaign: string;
+  chainId: number;
+  contractAddress: string;
+  checkedOnChain: boolean;
+  generated: SafeClaimEntry[];
+  skipped: { address: string; reason: string }[];
+  outputDir: string;
+}
+
+const AIRDROP_ABI = ['function hasClaimed(address user) external view returns (bool)'];
+const CHECK_CONCURRENCY = 10;
+
+/**
+ * Run fn over items a few at a time
+ */
+async function forEachConcurrently<T>(items: T[], fn: (item: T) => Promise<void>, label: string) {
+  const queue = [...items];
+  const logProgress = createProgressLogger(label);
+  let done = 0;
+
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await fn(item);
+      logProgress(++done, items.length);
+    }
+  };
+  await Promise.all(Array.from({ length: CHECK_CONCURRENCY }, worker));
+}
+
+async function readTargets(options: SafeClaimOptions): Promise<SafeClaimTarget[]> {
+  const targets: SafeClaimTarget[] = (options.addresses || []).map(address => ({ address }));
+
+  if (options.inputFile) {
+    const onHeader = (header: string[]) => {
+      if (!header.includes('address')) throw new Error(`${options.inputFile} needs an "address" column`);
+    };
+    for await (const { row } of readCsvRows(options.inputFile, ',', onHeader)) {
+      targets.push({ address: row.address, recipient: row.recipient || undefined });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Find the Safes among a campaign's eligible addresses
+ */
+async function detectEligibleSafes(provider: ethers.JsonRpcProvider, campaignDir: string): Promise<SafeClaimTarget[]> {
+  const addresses: string[] = [];
+  for await (const { value } of streamJsonElements(path.join(campaignDir, 'eligible-users-detailed.json'), 'array')) {
+    addresses.push((value as { address: string }).address);
+  }
+
+  const safes: SafeClaimTarget[] = [];
+  await forEachConcurrently(addresses, async address => {
+    if (await detectSafe(provider, address)) safes.push({ address });
+  }, 'Scanning eligible addresses for Safes');
+  return safes;
+}
+
+/**
+ * Write one Transaction Builder batch per Safe from the campaign's proofs
+ */
+export async function generateSafeClaimBatches(options: SafeClaimOptions): Promise<SafeClaimReport> {
+  const dataDir = options.dataDir || DEFAULT_DATA_DIR;
+  const campaign = requireCampaign(dataDir, options.campaign || DEFAULT_CAMPAIGN);
+  const campaignDir = getCampaignDir(dataDir, campaign.id);
+
+  const contractAddress = options.contractAddress || campaign.deployment?.contractAddress;
+  if (!contractAddress) {
+    throw new Error(`Campaign "${campaign.id}" has no recorded deployment; pass --contract <address>`);
+  }
+  const chainId = options.chainId ?? campaign.deployment?.chainId ?? campaign.chainId;
+  if (chainId === undefined) {
+    throw new Error(`Campaign "${campaign.id}" has no chain; pass --chain-id <id>`);
+  }
+  if (options.detect && !options.rpcUrl) {
+    throw new Error('--detect needs an RPC endpoint (--rpc or AIRDROP_RPC_URL)');
+  }
+
+  const provider = options.rpcUrl ? new ethers.JsonRpcProvider(options.rpcUrl) : null;
+  if (provider) {
+    const rpcChainId = Number((await provider.getNetwork()).chainId);
+    if (rpcChainId !== Number(chainId)) {
+      throw new Error(`Batches are for chain ${chainId}, but the RPC endpoint is chain ${rpcChainId}`);
+    }
+  }
+
+  const targets = await readTargets(options);
+  if (options.detect) targets.push(...await detectEligibleSafes(provider!, campaignDir));
+  if (targets.length === 0) {
+    throw new Error('No addresses given; pass addresses, --input <csv> or --detect');
+  }
+
+  console.log(`🔐 Preparing Safe claim batches for campaign "${campaign.name}" (${campaign.id}) on chain ${chainId}`);
+
+  const generated: SafeClaimEntry[] = [];
+  const skipped: SafeClaimReport['skipped'] = [];
+  const seen = new Set<string>();
+  let pending: { entry: Omit<SafeClaimEntry, 'file'>; proof: string[] }[] = [];
+
+  for (const target of targets) {
+    if (!ethers.isAddress(target.address)) {
+      skipped.push({ address: target.address, reason: 'invalid address' });
+      continue;
+    }
+    const address = ethers.getAddress(target.address.toLowerCase());
+    if (seen.has(address)) continue;
+    seen.add(address);
+
+    let recipient: string | undefined;
+    if (target.recipient) {
+      if (!ethers.isAddress(target.recipient) || BigInt(target.recipient) === 0n) {
+        skipped.push({ address, reason: `invalid recipient "${target.recipient}"` });
+        continue;
+      }
+      recipient = ethers.getAddress(target.recipient.toLowerCase());
+      if (recipient === address) recipient = undefined;
+    }
+
+    const claim = findCampaignClaim(dataDir, campaign.id, address);
+    if (!claim) {
+      skipped.push({ address, reason: 'not eligible in this campaign' });
+      continue;
+    }
+    pending.push({ entry: { address, amountWei: claim.amount, recipient }, proof: claim.proof });
+  }
+
+  // Only Safes can import a Transaction Builder batch, and claimed ones have nothing left
+  if (provider) {
+    const airdrop = new ethers.Contract(contractAddress, AIRDROP_ABI, provider);
+    const rejected = new Map<string, string>();
+    await forEachConcurrently(pending, async item => {
+      const safe = await detectSafe(provider, item.entry.address);
+      if (!safe) {
+        rejected.set(item.entry.address, 'not a Safe on this chain; claim from the claim page instead');
+      } else if (await airdrop.hasClaimed(item.entry.address)) {
+        rejected.set(item.entry.address, 'already claimed');
+      } else {
+        item.entry.safe = safe;
+      }
+    }, 'Checking Safes on-chain');
+
+    for (const [address, reason] of rejected) skipped.push({ address, reason });
+    pending = pending.filter(item => !rejected.has(item.entry.address));
+  }
+
+  const outputDir = options.outputDir || path.join(campaignDir, 'safe-claims');
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  for (const { entry, proof } of pending) {
+    const batch = buildSafeClaimBatch({
+      chainId,
+      airdropAddress: contractAddress,
+      safeAddress: entry.address,
+      amount: entry.amountWei,
+      proof,
+      recipient: entry.recipient,
+      symbol: campaign.token.symbol,
+      decimals: campaign.token.decimals
+    });
+    const file = path.join(outputDir, `${entry.address}.json`);
+    fs.writeFileSync(file, JSON.stringify(batch, null, 2));
+    generated.push({ ...entry, file });
+  }
+
+  const report: SafeClaimReport = {
+    campaign: campaign.id,
+    chainId: Number(chainId),
+    contractAddress: ethers.getAddress(contractAddress),
+    checkedOnChain: !!provider,
+    generated,
+    skipped,
+    outputDir
+  };
+  fs.writeFileSync(path.join(outputDir, 'index.json'), JSON.stringify(report, null, 2));
+  return report;
+}
+
+export function printSafeClaimReport(report: SafeClaimReport, decimals: number) {
+  console.log(`\n📦 ${report.generated.length} batch file(s) written to ${report.outputDir}`);
+  for (const entry of report.generated) {
+    const signers = entry.safe ? ` (Safe ${entry.safe.version}, ${entry.safe.threshold} of ${entry.safe.owners.length})` : '';
+    const destination = entry.recipient ? ` -> ${entry.recipient}` : '';
+    console.log(`- ${entry.address}${signers}: ${formatTokenAmount(BigInt(entry.amountWei), decimals)}${destination}`);
+  }
+
+  if (report.skipped.length > 0) {
+    console.log(`\n⚠️  Skipped ${report.skipped.length} address(es):`);
+    for (const { address, reason } of report.skipped) console.log(`- ${address}: ${reason}`);
+  }
+  if (!report.checkedOnChain) {
+    console.log('\nℹ️  No RPC endpoint given: addresses were not checked for being Safes or having claimed already');
+  }
+  console.log('\nImport each file in Safe{Wallet} under Apps > Transaction Builder, then collect the owners\' signatures.');
+}
+
+export function parseSafeClaimArgs(args: string[]): SafeClaimOptions {
+  const options: SafeClaimOptions = { addresses: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--rpc') options.rpcUrl = args[++i];
+    else if (arg === '--campaign') options.campaign = args[++i];
+    else if (arg === '--data-dir') options.dataDir = args[++i];
+    else if (arg === '--contract') options.contractAddress = args[++i];
+    else if (arg === '--input') options.inputFile = args[++i];
+    else if (arg === '--detect') options.detect = true;
+    else if (arg === '--out') options.outputDir = args[++i];
+    else if (arg === '--chain-id') {
+      const value = args[++i];
+      if (!value || !/^\d+$/.test(value)) throw new Error('--chain-id must be a whole number');
+      options.chainId = Number(value);
+    } else if (arg.startsWith('--')) throw new Error(`Unknown argument "${arg}"`);
+    else options.addresses!.push(arg);
+  }
+
+  options.rpcUrl = options.rpcUrl || process.env.AIRDROP_RPC_URL;
+  return options;
+}
+
+async function main(args: string[]) {
+  const options = parseSafeClaimArgs(args);
+  const report = await generateSafeClaimBatches(options);
+  const campaign = requireCampaign(options.dataDir || DEFAULT_DATA_DIR, report.campaign);
+  printSafeClaimReport(report, campaign.token.decimals);
+  if (report.generated.length === 0) process.exitCode = 1;
+}
+
+// Run if called directly
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
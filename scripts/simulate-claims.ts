@@ -0,0 +1,324 @@
+import { ethers, network } from 'hardhat';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTokenAmount } from './amounts';
+import { DEFAULT_DATA_DIR, getCampaignDir, requireCampaign } from './campaigns';
+import { createProgressLogger } from './output-stream';
+import { DEFAULT_CAMPAIGN } from '../lib/campaigns';
+import { decodeClaimError } from '../lib/claimErrors';
+import { ProofShard, ProofShardManifest, ShardedClaim } from '../lib/proofShards';
+
+// Claims every entry of a generated campaign against a freshly deployed
+// PayCryptAirdrop on the in-process Hardhat network. Options come from the
+// environment, as with the deploy script:
+//   AIRDROP_CAMPAIGN             campaign to simulate (default "default")
+//   AIRDROP_DATA_DIR             data directory (default ./airdrop-data)
+//   AIRDROP_SIMULATION_LIMIT     only claim the first N entries
+//   AIRDROP_SIMULATION_REPORT    write the full report, including every claim, to this JSON file
+
+// Types
+export interface ClaimResult {
+  address: string;
+  amountWei: string;
+  proofLength: number;
+  status: 'claimed' | 'failed';
+  gasUsed?: number;
+  error?: string; // Custom error name, or the revert message if it could not be decoded
+}
+
+export interface GasSummary {
+  min: number;
+  max: number;
+  average: number;
+  total: number;
+}
+
+export interface SimulationOptions {
+  dataDir?: string;
+  campaign?: string;
+  limit?: number; // Only claim the first N entries
+}
+
+export interface SimulationReport {
+  campaign: string;
+  version: number;
+  merkleRoot: string;
+  contractAddress: string;
+  limit?: number;
+  attempted: number;
+  claimed: number;
+  failed: number;
+  failuresByError: Record<string, number>;
+  gas: GasSummary | null;
+  gasByProofLength: Record<string, GasSummary>;
+  checks: { name: string; passed: boolean; detail: string }[];
+  stats: {
+    totalClaimable: string;
+    totalClaimed: string;
+    remainingTokens: string;
+    claimPeriodEnd: string;
+    isActive: boolean;
+  };
+  claims: ClaimResult[];
+  passed: boolean; // Every claim succeeded and every check passed
+}
+
+/**
+ * Name of the custom error a failed call reverted with, otherwise the error message
+ */
+function decodeRevert(err: unknown): string {
+  const decoded = decodeClaimError(err);
+  return decoded.kind === 'contract' ? decoded.code : decoded.message;
+}
+
+function summarizeGas(values: number[]): GasSummary | null {
+  if (values.length === 0) return null;
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    average: Math.round(total / values.length),
+    total
+  };
+}
+
+/**
+ * Yield every claim in the campaign's proof shards, the same data the claim
+ * page and proof API serve
+ */
+function* readShardClaims(proofsDir: string): Generator<ShardedClaim> {
+  const manifest: ProofShardManifest = JSON.parse(fs.readFileSync(path.join(proofsDir, 'index.json'), 'utf8'));
+  for (const key of Object.keys(manifest.shards).sort()) {
+    const shard: ProofShard = JSON.parse(fs.readFileSync(path.join(proofsDir, manifest.shards[key].file), 'utf8'));
+    for (const [address, entry] of Object.entries(shard)) {
+      yield { address: ethers.getAddress(address), ...entry };
+    }
+  }
+}
+
+/**
+ * Deploy the campaign's airdrop on the in-process Hardhat network, claim from
+ * every address in its proof shards and check the contract's totals afterwards
+ */
+export async function simulateClaims(options: SimulationOptions = {}): Promise<SimulationReport> {
+  if (network.name !== 'hardhat') {
+    throw new Error(`The simulation impersonates recipients and only runs on the in-process hardhat network, not ${network.name}`);
+  }
+  if (options.limit !== undefined && !(Number.isInteger(options.limit) && options.limit > 0)) {
+    throw new Error(`AIRDROP_SIMULATION_LIMIT must be a positive whole number, got ${options.limit}`);
+  }
+
+  const dataDir = options.dataDir || DEFAULT_DATA_DIR;
+  const campaign = requireCampaign(dataDir, options.campaign || DEFAULT_CAMPAIGN);
+  const campaignDir = getCampaignDir(dataDir, campaign.id);
+  const config = JSON.parse(fs.readFileSync(path.join(campaignDir, 'deployment-config.json'), 'utf8'));
+  const totalWei = BigInt(config.totalTokensWei);
+  const limit = options.limit ?? Infinity;
+  const expected = Math.min(campaign.totalUsers, limit);
+
+  console.log(`🧪 Simulating claims for campaign "${campaign.name}" (${campaign.id}, version ${campaign.version})`);
+
+  if (config.leafEncoding !== 'packed') {
+    throw new Error(`PayCryptAirdrop verifies packed leaves, but this campaign uses "${config.leafEncoding}" leaves`);
+  }
+
+  // Deploy and fund the contracts exactly as the deploy script would
+  const [deployer] = await ethers.getSigners();
+  const Token = await ethers.getContractFactory('PayCryptToken');
+  const token = await Token.deploy();
+  await token.waitForDeployment();
+  const tokenAddress = await token.getAddress();
+
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const claimPeriodEnd = campaign.claimWindow.end
+    ? Math.floor(Date.parse(campaign.claimWindow.end) / 1000)
+    : latestBlock!.timestamp + campaign.claimWindow.periodDays * 24 * 60 * 60;
+  if (claimPeriodEnd <= latestBlock!.timestamp) {
+    throw new Error(`Claim window ended at ${campaign.claimWindow.end}`);
+  }
+
+  const deployerBalance: bigint = await token.balanceOf(deployer.address);
+  if (deployerBalance < totalWei) {
+    throw new Error(
+      `The test token only mints ${formatTokenAmount(deployerBalance, 18)} tokens to the deployer, ` +
+      `but the campaign needs ${formatTokenAmount(totalWei, 18)} base units`
+    );
+  }
+
+  const Airdrop = await ethers.getContractFactory('PayCryptAirdrop');
+  const airdrop = await Airdrop.deploy(tokenAddress, config.merkleRoot, claimPeriodEnd, totalWei);
+  await airdrop.waitForDeployment();
+  const airdropAddress = await airdrop.getAddress();
+  await (await token.transfer(airdropAddress, totalWei)).wait();
+  console.log(`📦 Airdrop deployed to ${airdropAddress} and funded with ${config.totalTokens} tokens`);
+
+  // Claim from every address in turn
+  const claims: ClaimResult[] = [];
+  let firstClaim: ShardedClaim | undefined;
+  const logProgress = createProgressLogger('Claiming');
+
+  for (const claim of readShardClaims(path.resolve(campaignDir, campaign.proofs.dir))) {
+    if (claims.length >= limit) break;
+
+    const result: ClaimResult = {
+      address: claim.address,
+      amountWei: claim.amount,
+      proofLength: claim.proof.length,
+      status: 'failed'
+    };
+
+    try {
+      const signer = await ethers.getImpersonatedSigner(claim.address);
+      await network.provider.send('hardhat_setBalance', [claim.address, ethers.toQuantity(ethers.parseEther('1'))]);
+
+      const before: bigint = await token.balanceOf(claim.address);
+      const tx = await (airdrop.connect(signer) as typeof airdrop).claimTokens(claim.amount, claim.proof);
+      const receipt = await tx.wait();
+      const received = (await token.balanceOf(claim.address)) - before;
+
+      if (received !== BigInt(claim.amount)) {
+        result.error = `Received ${received} base units instead of ${claim.amount}`;
+      } else {
+        result.status = 'claimed';
+        result.gasUsed = Number(receipt!.gasUsed);
+        firstClaim = firstClaim ?? claim;
+      }
+    } catch (err) {
+      result.error = decodeRevert(err);
+    }
+
+    claims.push(result);
+    logProgress(claims.length, expected);
+  }
+
+  const succeeded = claims.filter(claim => claim.status === 'claimed');
+  const failures = claims.filter(claim => claim.status === 'failed');
+  const failuresByError: Record<string, number> = {};
+  for (const failure of failures) {
+    failuresByError[failure.error!] = (failuresByError[failure.error!] || 0) + 1;
+  }
+
+  const gasByLength = new Map<number, number[]>();
+  for (const claim of succeeded) {
+    gasByLength.set(claim.proofLength, [...(gasByLength.get(claim.proofLength) || []), claim.gasUsed!]);
+  }
+  const gasByProofLength: Record<string, GasSummary> = {};
+  for (const [length, values] of [...gasByLength].sort((a, b) => a[0] - b[0])) {
+    gasByProofLength[length] = summarizeGas(values)!;
+  }
+
+  // The contract must refuse a second claim and report the totals we expect
+  const checks: SimulationReport['checks'] = [];
+  const check = (name: string, passed: boolean, detail: string) => checks.push({ name, passed, detail });
+
+  if (firstClaim) {
+    let error = 'no revert';
+    try {
+      const signer = await ethers.getImpersonatedSigner(firstClaim.address);
+      await (await (airdrop.connect(signer) as typeof airdrop).claimTokens(firstClaim.amount, firstClaim.proof)).wait();
+    } catch (err) {
+      error = decodeRevert(err);
+    }
+    check('second claim is refused', error === 'AlreadyClaimed', `${firstClaim.address}: ${error}`);
+  }
+
+  const claimedWei = succeeded.reduce((sum, claim) => sum + BigInt(claim.amountWei), 0n);
+  const [totalClaimable, totalClaimed, remainingTokens, statsPeriodEnd, isActive] = await airdrop.getAirdropStats();
+  const contractBalance: bigint = await token.balanceOf(airdropAddress);
+
+  check('totalClaimed matches successful claims', totalClaimed === claimedWei, `${totalClaimed} on-chain, ${claimedWei} claimed`);
+  check('contract balance covers the remainder', contractBalance === remainingTokens, `${contractBalance} held, ${remainingTokens} remaining`);
+  if (claims.length === campaign.totalUsers) {
+    check('every address in the campaign was found in the proof shards', true, `${claims.length} claims`);
+    check('nothing remains unclaimed', remainingTokens === 0n, `${remainingTokens} remaining`);
+  } else if (limit === Infinity) {
+    check('every address in the campaign was found in the proof shards', false, `${claims.length} of ${campaign.totalUsers}`);
+  }
+
+  const gas = summarizeGas(succeeded.map(claim => claim.gasUsed!));
+  return {
+    campaign: campaign.id,
+    version: campaign.version,
+    merkleRoot: config.merkleRoot,
+    contractAddress: airdropAddress,
+    limit: options.limit,
+    attempted: claims.length,
+    claimed: succeeded.length,
+    failed: failures.length,
+    failuresByError,
+    gas,
+    gasByProofLength,
+    checks,
+    stats: {
+      totalClaimable: totalClaimable.toString(),
+      totalClaimed: totalClaimed.toString(),
+      remainingTokens: remainingTokens.toString(),
+      claimPeriodEnd: new Date(Number(statsPeriodEnd) * 1000).toISOString(),
+      isActive
+    },
+    claims,
+    passed: failures.length === 0 && checks.every(item => item.passed)
+  };
+}
+
+/**
+ * Print a human-readable summary of a simulation
+ */
+export function printSimulation(report: SimulationReport, decimals = 18) {
+  const { gas, gasByProofLength, failuresByError, checks, stats } = report;
+  const failures = report.claims.filter(claim => claim.status === 'failed');
+
+  console.log('\n📊 Simulation results:');
+  console.log(`- Claims attempted: ${report.attempted}${report.limit === undefined ? '' : ` (limited to ${report.limit})`}`);
+  console.log(`- Succeeded: ${report.claimed}`);
+  console.log(`- Failed: ${report.failed}`);
+  for (const [error, count] of Object.entries(failuresByError).sort((a, b) => b[1] - a[1])) {
+    console.log(`  - ${error}: ${count}`);
+  }
+  failures.slice(0, 10).forEach(failure => console.log(`  ❌ ${failure.address} (${failure.amountWei}): ${failure.error}`));
+  if (failures.length > 10) console.log(`  ... and ${failures.length - 10} more`);
+
+  if (gas) {
+    console.log(`\n⛽ Gas per claim: min ${gas.min}, average ${gas.average}, max ${gas.max} (total ${gas.total})`);
+    for (const [length, summary] of Object.entries(gasByProofLength)) {
+      console.log(`- Proof length ${length}: average ${summary.average}`);
+    }
+  }
+
+  console.log('\n📈 getAirdropStats:');
+  console.log(`- Total claimable: ${formatTokenAmount(BigInt(stats.totalClaimable), decimals)}`);
+  console.log(`- Total claimed: ${formatTokenAmount(BigInt(stats.totalClaimed), decimals)}`);
+  console.log(`- Remaining: ${formatTokenAmount(BigInt(stats.remainingTokens), decimals)}`);
+  console.log(`- Claim period end: ${stats.claimPeriodEnd}`);
+  console.log(`- Active: ${stats.isActive}`);
+
+  console.log('\n🔍 Checks:');
+  checks.forEach(item => console.log(`${item.passed ? '✅' : '❌'} ${item.name} (${item.detail})`));
+
+  console.log(report.passed ? '\n✅ Every claim succeeded' : '\n❌ Simulation failed, do not launch this campaign');
+}
+
+async function main() {
+  const dataDir = process.env.AIRDROP_DATA_DIR || DEFAULT_DATA_DIR;
+  const limit = process.env.AIRDROP_SIMULATION_LIMIT;
+  const report = await simulateClaims({
+    dataDir,
+    campaign: process.env.AIRDROP_CAMPAIGN,
+    limit: limit === undefined || limit === '' ? undefined : Number(limit)
+  });
+  printSimulation(report, requireCampaign(dataDir, report.campaign).token.decimals);
+
+  if (process.env.AIRDROP_SIMULATION_REPORT) {
+    fs.writeFileSync(process.env.AIRDROP_SIMULATION_REPORT, JSON.stringify(report, null, 2));
+    console.log(`\n📝 Report written to ${process.env.AIRDROP_SIMULATION_REPORT}`);
+  }
+  if (!report.passed) process.exitCode = 1;
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
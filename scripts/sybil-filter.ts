@@ -0,0 +1,427 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EligibleUser } from './types';
+import { formatTokenAmount } from './amounts';
+import { readCsvRows } from './eligibility-input';
+import { loadAddressList } from './validate-eligibility';
+
+// Sybil and abuse filtering between validation and tree generation. Each
+// filter reads its own side data and reports findings: single addresses or
+// clusters of addresses that look like one farmer. Findings either remove
+// the addresses from the list or only flag them for review.
+
+// Types
+export type SybilAction = 'remove' | 'flag';
+
+export interface SybilFinding {
+  filter: string;
+  addresses: string[]; // Checksummed; more than one for a cluster
+  reason: string;
+  keep?: string; // Cluster member that is kept when the filter keeps one per cluster
+}
+
+export interface SybilFilter {
+  name: string;
+  action: SybilAction;
+  run(users: EligibleUser[]): Promise<SybilFinding[]>;
+}
+
+// Shared options every filter accepts in the config
+export interface FilterConfig {
+  action?: SybilAction; // Defaults to the config's action
+  keepOne?: boolean; // Keep the largest allocation of each cluster
+  [option: string]: unknown;
+}
+
+export interface SybilConfig {
+  action?: SybilAction; // Defaults to "remove"
+  filters: Record<string, FilterConfig>; // Filter name -> options
+}
+
+export type SybilFilterFactory = (config: FilterConfig, baseDir: string, defaults: { action: SybilAction }) => SybilFilter;
+
+export interface ExcludedUser {
+  address: string;
+  amount: string;
+  reasons: string[]; // "<filter>: <reason>"
+}
+
+export interface SybilReport {
+  generatedAt: string;
+  filters: { name: string; action: SybilAction; findings: number; addresses: number }[];
+  totals: {
+    checked: number;
+    removed: number;
+    flagged: number;
+    removedTokens: string;
+    remainingTokens: string;
+  };
+  removed: ExcludedUser[];
+  flagged: ExcludedUser[]; // Kept in the list, for manual review
+  findings: SybilFinding[];
+}
+
+export interface SybilResult {
+  users: EligibleUser[]; // With removed addresses dropped
+  report: SybilReport;
+}
+
+/**
+ * Union-find over addresses and their linking keys (funders, deposit addresses)
+ */
+class Clusters {
+  private parent = new Map<string, string>();
+
+  find(node: string): string {
+    let root = node;
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root)!;
+    this.parent.set(node, root);
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootA, rootB);
+  }
+}
+
+function resolveFile(baseDir: string, config: FilterConfig, name: string): string {
+  if (typeof config.file !== 'string') {
+    throw new Error(`Sybil filter "${name}" needs a "file"`);
+  }
+  return path.resolve(baseDir, config.file);
+}
+
+function normalize(address: string) {
+  return address.trim().toLowerCase();
+}
+
+/**
+ * Read (address, key) pairs from a CSV with configurable column names
+ */
+async function readLinks(file: string, addressColumn: string, keyColumn: string) {
+  const links: [string, string][] = [];
+  for await (const { row, line } of readCsvRows(file)) {
+    const address = row[addressColumn.toLowerCase()];
+    const key = row[keyColumn.toLowerCase()];
+    if (!address || !ethers.isAddress(normalize(address))) {
+      throw new Error(`${file}:${line}: invalid address in "${addressColumn}"`);
+    }
+    if (key) links.push([normalize(address), normalize(key)]);
+  }
+  return links;
+}
+
+/**
+ * Group eligible addresses connected through shared keys, and report every
+ * group with more than maxClusterSize members. With chain, keys are wallets
+ * themselves, so links through intermediate wallets join the same group.
+ */
+function findLinkedClusters(
+  filter: string,
+  users: EligibleUser[],
+  links: [string, string][],
+  options: { maxClusterSize: number; ignore: Set<string>; chain: boolean },
+  describe: (keys: string[]) => string
+): SybilFinding[] {
+  const clusters = new Clusters();
+  const keyNode = (key: string) => `${options.chain ? 'a' : 'k'}:${key}`;
+  const active = links.filter(([, key]) => !options.ignore.has(key));
+  for (const [address, key] of active) {
+    clusters.union(`a:${address}`, keyNode(key));
+  }
+
+  const keysByRoot = new Map<string, Set<string>>();
+  for (const [address, key] of active) {
+    const root = clusters.find(`a:${address}`);
+    keysByRoot.set(root, (keysByRoot.get(root) || new Set()).add(key));
+  }
+
+  const members = new Map<string, string[]>();
+  for (const user of users) {
+    const root = clusters.find(`a:${normalize(user.address)}`);
+    members.set(root, [...(members.get(root) || []), user.address]);
+  }
+
+  const findings: SybilFinding[] = [];
+  for (const [root, addresses] of members) {
+    if (addresses.length <= options.maxClusterSize) continue;
+    const keys = [...(keysByRoot.get(root) || [])];
+    findings.push({ filter, addresses, reason: `${addresses.length} eligible addresses ${describe(keys)}` });
+  }
+  return findings;
+}
+
+function clusterOptions(config: FilterConfig, name: string, defaultMax: number) {
+  const maxClusterSize = config.maxClusterSize === undefined ? defaultMax : Number(config.maxClusterSize);
+  if (!Number.isInteger(maxClusterSize) || maxClusterSize < 1) {
+    throw new Error(`Sybil filter "${name}": maxClusterSize must be a positive whole number`);
+  }
+  const ignore = new Set(((config.ignore as string[] | undefined) || []).map(normalize));
+  return { maxClusterSize, ignore };
+}
+
+const FILTERS: Record<string, SybilFilterFactory> = {
+  // Addresses on any of the given lists
+  denylist: (config, baseDir, defaults) => {
+    const files = (config.files as string[] | undefined) || (config.file ? [config.file as string] : []);
+    if (files.length === 0) throw new Error('Sybil filter "denylist" needs "files"');
+
+    return {
+      name: 'denylist',
+      action: config.action || defaults.action,
+      run: async users => {
+        const denied = new Map<string, string>();
+        for (const file of files) {
+          for (const address of loadAddressList(path.resolve(baseDir, file))) {
+            denied.set(normalize(address), path.basename(file));
+          }
+        }
+        return users
+          .filter(user => denied.has(normalize(user.address)))
+          .map(user => ({ filter: 'denylist', addresses: [user.address], reason: `listed in ${denied.get(normalize(user.address))}` }));
+      }
+    };
+  },
+
+  // Addresses funded, directly or through intermediate wallets, by the same source
+  fundingSource: (config, baseDir, defaults) => {
+    const file = resolveFile(baseDir, config, 'fundingSource');
+    const { maxClusterSize, ignore } = clusterOptions(config, 'fundingSource', 5);
+    const columns = { address: 'address', funder: 'funder', ...(config.columns as object) };
+
+    return {
+      name: 'fundingSource',
+      action: config.action || defaults.action,
+      run: async users => {
+        const links = await readLinks(file, columns.address, columns.funder);
+        return findLinkedClusters('fundingSource', users, links, { maxClusterSize, ignore, chain: true }, keys =>
+          `share funding source${keys.length === 1 ? '' : 's'} ${describeKeys(keys)}`
+        );
+      }
+    };
+  },
+
+  // Addresses that send to the same exchange deposit address
+  sharedDeposit: (config, baseDir, defaults) => {
+    const file = resolveFile(baseDir, config, 'sharedDeposit');
+    const { maxClusterSize, ignore } = clusterOptions(config, 'sharedDeposit', 1);
+    const columns = { address: 'address', deposit: 'deposit', ...(config.columns as object) };
+
+    return {
+      name: 'sharedDeposit',
+      action: config.action || defaults.action,
+      run: async users => {
+        const links = await readLinks(file, columns.address, columns.deposit);
+        return findLinkedClusters('sharedDeposit', users, links, { maxClusterSize, ignore, chain: false }, keys =>
+          `share deposit address${keys.length === 1 ? '' : 'es'} ${describeKeys(keys)}`
+        );
+      }
+    };
+  },
+
+  // Wallets that are too new, or were created in a burst
+  walletAge: (config, baseDir, defaults) => {
+    const file = resolveFile(baseDir, config, 'walletAge');
+    const asOf = config.asOf ? Date.parse(config.asOf as string) : Date.now();
+    const minAgeDays = config.minAgeDays === undefined ? undefined : Number(config.minAgeDays);
+    const burstSize = config.burstSize === undefined ? undefined : Number(config.burstSize);
+    const burstWindowMs = Number(config.burstWindowMinutes ?? 10) * 60 * 1000;
+    const columns = { address: 'address', created: 'created', ...(config.columns as object) };
+    if (Number.isNaN(asOf)) throw new Error(`Sybil filter "walletAge": invalid asOf "${config.asOf}"`);
+
+    return {
+      name: 'walletAge',
+      action: config.action || defaults.action,
+      run: async users => {
+        // Creation times as ISO dates or unix seconds
+        const created = new Map<string, number>();
+        for (const [address, value] of await readLinks(file, columns.address, columns.created)) {
+          const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+          if (!Number.isNaN(time)) created.set(address, time);
+        }
+
+        const findings: SybilFinding[] = [];
+        const dated = users
+          .filter(user => created.has(normalize(user.address)))
+          .map(user => ({ address: user.address, time: created.get(normalize(user.address))! }))
+          .sort((a, b) => a.time - b.time);
+
+        if (minAgeDays !== undefined) {
+          for (const { address, time } of dated) {
+            const ageDays = (asOf - time) / (24 * 60 * 60 * 1000);
+            if (ageDays < minAgeDays) {
+              findings.push({ filter: 'walletAge', addresses: [address], reason: `created ${ageDays.toFixed(1)} days before the snapshot, minimum is ${minAgeDays}` });
+            }
+          }
+        }
+
+        // Mark every wallet inside a window holding burstSize creations, then
+        // merge consecutive marked wallets into one burst each
+        if (burstSize !== undefined) {
+          const marked = new Array<boolean>(dated.length).fill(false);
+          let start = 0;
+          for (let end = 0; end < dated.length; end++) {
+            while (dated[end].time - dated[start].time > burstWindowMs) start++;
+            if (end - start + 1 >= burstSize) marked.fill(true, start, end + 1);
+          }
+
+          let burst: typeof dated = [];
+          dated.forEach((entry, index) => {
+            const last = burst[burst.length - 1];
+            if (marked[index] && last && (!marked[index - 1] || entry.time - last.time > burstWindowMs)) {
+              findings.push(burstFinding(burst, burstWindowMs));
+              burst = [];
+            }
+            if (marked[index]) burst.push(entry);
+          });
+          if (burst.length > 0) findings.push(burstFinding(burst, burstWindowMs));
+        }
+
+        return findings;
+      }
+    };
+  }
+};
+
+function describeKeys(keys: string[]) {
+  return keys.length > 3 ? `${keys.slice(0, 3).join(', ')} and ${keys.length - 3} more` : keys.join(', ');
+}
+
+function burstFinding(burst: { address: string; time: number }[], windowMs: number): SybilFinding {
+  return {
+    filter: 'walletAge',
+    addresses: burst.map(entry => entry.address),
+    reason: `${burst.length} wallets created in a burst (${windowMs / 60000} minute window) from ${new Date(burst[0].time).toISOString()}`
+  };
+}
+
+/**
+ * Make a custom filter available to sybil configs under the given name
+ */
+export function registerSybilFilter(name: string, factory: SybilFilterFactory) {
+  FILTERS[name] = factory;
+}
+
+/**
+ * Load a sybil config and build its filters. Side data paths are resolved
+ * against the directory the config is in.
+ */
+export function loadSybilFilters(configFile: string): SybilFilter[] {
+  const config = JSON.parse(fs.readFileSync(configFile, 'utf8')) as SybilConfig;
+  const action = config.action || 'remove';
+  if (!config.filters || Object.keys(config.filters).length === 0) {
+    throw new Error(`${configFile}: "filters" must configure at least one filter`);
+  }
+
+  return Object.entries(config.filters).map(([name, options]) => {
+    const factory = FILTERS[name];
+    if (!factory) {
+      throw new Error(`${configFile}: unknown sybil filter "${name}" (available: ${Object.keys(FILTERS).join(', ')})`);
+    }
+    const filter = factory(options, path.dirname(configFile), { action });
+    if (filter.action !== 'remove' && filter.action !== 'flag') {
+      throw new Error(`${configFile}: filter "${name}" action must be remove or flag`);
+    }
+    // keepOne spares the largest allocation of every cluster
+    if (!options.keepOne) return filter;
+    return { ...filter, run: async users => keepLargest(await filter.run(users), users) };
+  });
+}
+
+function keepLargest(findings: SybilFinding[], users: EligibleUser[]): SybilFinding[] {
+  const amounts = new Map(users.map(user => [user.address, Number(user.amount)]));
+  return findings.map(finding => {
+    if (finding.addresses.length < 2) return finding;
+    const keep = finding.addresses.reduce((best, address) => (amounts.get(address)! > amounts.get(best)! ? address : best));
+    return { ...finding, keep };
+  });
+}
+
+/**
+ * Run every filter over the validated list and drop the removed addresses
+ */
+export async function applySybilFilters(
+  users: EligibleUser[],
+  filters: SybilFilter[],
+  decimals = 18
+): Promise<SybilResult> {
+  const removed = new Map<string, string[]>();
+  const flagged = new Map<string, string[]>();
+  const findings: SybilFinding[] = [];
+  const filterStats: SybilReport['filters'] = [];
+
+  for (const filter of filters) {
+    const results = await filter.run(users);
+    const target = filter.action === 'remove' ? removed : flagged;
+    const touched = new Set<string>();
+
+    for (const finding of results) {
+      findings.push(finding);
+      for (const address of finding.addresses) {
+        if (address === finding.keep) continue;
+        target.set(address, [...(target.get(address) || []), `${filter.name}: ${finding.reason}`]);
+        touched.add(address);
+      }
+    }
+    filterStats.push({ name: filter.name, action: filter.action, findings: results.length, addresses: touched.size });
+  }
+
+  const toWei = (user: EligibleUser) => ethers.parseUnits(user.amount, decimals);
+  const kept: EligibleUser[] = [];
+  const removedUsers: ExcludedUser[] = [];
+  const flaggedUsers: ExcludedUser[] = [];
+  let removedWei = 0n;
+  let remainingWei = 0n;
+
+  for (const user of users) {
+    const reasons = removed.get(user.address);
+    if (reasons) {
+      removedUsers.push({ address: user.address, amount: user.amount, reasons });
+      removedWei += toWei(user);
+      continue;
+    }
+    kept.push(user);
+    remainingWei += toWei(user);
+    const flags = flagged.get(user.address);
+    if (flags) flaggedUsers.push({ address: user.address, amount: user.amount, reasons: flags });
+  }
+
+  return {
+    users: kept,
+    report: {
+      generatedAt: new Date().toISOString(),
+      filters: filterStats,
+      totals: {
+        checked: users.length,
+        removed: removedUsers.length,
+        flagged: flaggedUsers.length,
+        removedTokens: formatTokenAmount(removedWei, decimals),
+        remainingTokens: formatTokenAmount(remainingWei, decimals)
+      },
+      removed: removedUsers,
+      flagged: flaggedUsers,
+      findings
+    }
+  };
+}
+
+/**
+ * Print a short human-readable summary of a sybil report
+ */
+export function printSybilSummary(report: SybilReport, maxRows = 20) {
+  const { totals } = report;
+  console.log('\n🕵️  Sybil filtering:');
+  console.log(`- Checked: ${totals.checked}`);
+  console.log(`- Removed: ${totals.removed} (${totals.removedTokens} tokens)`);
+  console.log(`- Flagged for review: ${totals.flagged}`);
+  for (const filter of report.filters) {
+    console.log(`  - ${filter.name} (${filter.action}): ${filter.findings} finding(s), ${filter.addresses} address(es)`);
+  }
+
+  const rows = [...report.removed.map(user => ({ ...user, mark: '❌' })), ...report.flagged.map(user => ({ ...user, mark: '⚠️ ' }))];
+  rows.slice(0, maxRows).forEach(user => console.log(`  ${user.mark} ${user.address} (${user.amount}): ${user.reasons.join('; ')}`));
+  if (rows.length > maxRows) console.log(`  ... and ${rows.length - maxRows} more`);
+}
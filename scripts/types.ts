@@ -0,0 +1,12 @@
+// Shared types for the airdrop tooling
+
+export interface EligibleUser {
+  address: string;
+  amount: string; // In ether (e.g., "1000" for 1000 tokens)
+  reason?: string; // Why they're eligible
+}
+
+// How leaves are hashed:
+// - "packed": keccak256(abi.encodePacked(address, amount)), as verified by PayCryptAirdrop
+// - "standard": OpenZeppelin StandardMerkleTree (double-hashed abi.encode)
+export type LeafEncoding = 'packed' | 'standard';
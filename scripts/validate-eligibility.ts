@@ -0,0 +1,288 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EligibleUser } from './types';
+import { formatTokenAmount } from './amounts';
+import { InputRecord } from './eligibility-input';
+
+// Types
+export type DuplicateStrategy = 'merge' | 'keep-first' | 'fail';
+
+export type IssueCode =
+  | 'INVALID_ADDRESS'
+  | 'BAD_CHECKSUM'
+  | 'INVALID_AMOUNT'
+  | 'ZERO_AMOUNT'
+  | 'NEGATIVE_AMOUNT'
+  | 'TOO_MANY_DECIMALS'
+  | 'DUPLICATE_ADDRESS'
+  | 'CONTRACT_ADDRESS';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  code: IssueCode;
+  address: string;
+  line?: number;
+  message: string;
+}
+
+export interface ValidationOptions {
+  duplicates?: DuplicateStrategy; // Defaults to "fail"
+  contractAddresses?: Iterable<string>; // Known contract addresses to flag
+  decimals?: number; // Token decimals, defaults to 18
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  generatedAt: string;
+  options: {
+    duplicates: DuplicateStrategy;
+    decimals: number;
+    contractAddressesChecked: number;
+  };
+  totals: {
+    entries: number;
+    accepted: number;
+    rejected: number;
+    merged: number;
+    normalized: number;
+    errors: number;
+    warnings: number;
+  };
+  issues: ValidationIssue[];
+}
+
+export interface ValidationResult {
+  users: EligibleUser[];
+  report: ValidationReport;
+}
+
+// Entries may come straight from code or from an input file with line numbers
+export type EligibilityEntry = EligibleUser | InputRecord;
+
+/**
+ * Validates and normalizes eligibility entries one at a time, so entries can
+ * be fed straight from a file stream. Addresses are checksummed, amounts
+ * canonicalized and duplicates resolved; every problem is recorded in the
+ * report instead of throwing.
+ */
+export class EligibilityValidator {
+  private duplicates: DuplicateStrategy;
+  private decimals: number;
+  private contracts: Set<string>;
+  private issues: ValidationIssue[] = [];
+  private accepted = new Map<string, { user: EligibleUser; amount: bigint; line?: number }>();
+  private entries = 0;
+  private rejected = 0;
+  private merged = 0;
+  private normalized = 0;
+
+  constructor(options: ValidationOptions = {}) {
+    this.duplicates = options.duplicates || 'fail';
+    this.decimals = options.decimals ?? 18;
+    this.contracts = new Set(
+      Array.from(options.contractAddresses || [], address => address.toLowerCase())
+    );
+  }
+
+  private report(
+    severity: ValidationIssue['severity'],
+    code: IssueCode,
+    address: string,
+    line: number | undefined,
+    message: string
+  ) {
+    this.issues.push({ severity, code, address, ...(line !== undefined && { line }), message });
+  }
+
+  private reject(code: IssueCode, address: string, line: number | undefined, message: string) {
+    this.report('error', code, address, line, message);
+    this.rejected++;
+  }
+
+  /**
+   * Check a single entry
+   */
+  add(entry: EligibilityEntry) {
+    const { user, line } = 'user' in entry ? entry : { user: entry, line: undefined };
+    const where = line !== undefined ? `line ${line}` : user.address;
+    const decimals = this.decimals;
+    this.entries++;
+
+    // Address format and checksum
+    let address: string;
+    if (!ethers.isHexString(user.address, 20)) {
+      this.reject('INVALID_ADDRESS', user.address, line, `${where}: "${user.address}" is not a 20-byte hex address`);
+      return;
+    }
+    try {
+      address = ethers.getAddress(user.address);
+    } catch {
+      this.reject('BAD_CHECKSUM', user.address, line, `${where}: "${user.address}" has an invalid checksum (possible typo)`);
+      return;
+    }
+
+    // Amount format, sign and precision
+    const amountText = user.amount.trim();
+    if (!/^-?\d+(\.\d+)?$/.test(amountText)) {
+      this.reject('INVALID_AMOUNT', address, line, `${where}: amount "${user.amount}" is not a decimal number`);
+      return;
+    }
+    if (amountText.startsWith('-')) {
+      this.reject('NEGATIVE_AMOUNT', address, line, `${where}: amount ${amountText} is negative`);
+      return;
+    }
+    const fraction = amountText.split('.')[1] || '';
+    if (fraction.replace(/0+$/, '').length > decimals) {
+      this.reject('TOO_MANY_DECIMALS', address, line, `${where}: amount ${amountText} has more than ${decimals} decimals`);
+      return;
+    }
+    const amount = ethers.parseUnits(amountText.replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, ''), decimals);
+    if (amount === 0n) {
+      this.reject('ZERO_AMOUNT', address, line, `${where}: amount is zero`);
+      return;
+    }
+    if (address !== user.address || formatTokenAmount(amount, decimals) !== user.amount) this.normalized++;
+
+    if (this.contracts.has(address.toLowerCase())) {
+      this.report('warning', 'CONTRACT_ADDRESS', address, line, `${where}: ${address} is a known contract address`);
+    }
+
+    // Duplicate handling
+    const key = address.toLowerCase();
+    const existing = this.accepted.get(key);
+    if (existing) {
+      const firstSeen = existing.line !== undefined ? `line ${existing.line}` : 'an earlier entry';
+      if (this.duplicates === 'fail') {
+        this.reject('DUPLICATE_ADDRESS', address, line, `${where}: ${address} already listed at ${firstSeen}`);
+      } else if (this.duplicates === 'keep-first') {
+        this.report('warning', 'DUPLICATE_ADDRESS', address, line, `${where}: ${address} already listed at ${firstSeen}, keeping the first entry`);
+        this.rejected++;
+      } else {
+        existing.amount += amount;
+        existing.user.amount = formatTokenAmount(existing.amount, decimals);
+        if (user.reason && user.reason !== existing.user.reason) {
+          existing.user.reason = existing.user.reason ? `${existing.user.reason}; ${user.reason}` : user.reason;
+        }
+        this.report('warning', 'DUPLICATE_ADDRESS', address, line, `${where}: ${address} already listed at ${firstSeen}, amounts merged`);
+        this.merged++;
+      }
+      return;
+    }
+
+    this.accepted.set(key, {
+      user: {
+        address,
+        amount: formatTokenAmount(amount, decimals),
+        ...(user.reason && { reason: user.reason })
+      },
+      amount,
+      line
+    });
+  }
+
+  /**
+   * Get the accepted users and the final report
+   */
+  result(): ValidationResult {
+    const errors = this.issues.filter(issue => issue.severity === 'error').length;
+
+    return {
+      users: Array.from(this.accepted.values(), item => item.user),
+      report: {
+        valid: errors === 0,
+        generatedAt: new Date().toISOString(),
+        options: {
+          duplicates: this.duplicates,
+          decimals: this.decimals,
+          contractAddressesChecked: this.contracts.size
+        },
+        totals: {
+          entries: this.entries,
+          accepted: this.accepted.size,
+          rejected: this.rejected,
+          merged: this.merged,
+          normalized: this.normalized,
+          errors,
+          warnings: this.issues.length - errors
+        },
+        issues: this.issues
+      }
+    };
+  }
+}
+
+/**
+ * Validate and normalize eligibility entries before building the tree
+ */
+export function validateEligibleUsers(
+  entries: EligibilityEntry[],
+  options: ValidationOptions = {}
+): ValidationResult {
+  const validator = new EligibilityValidator(options);
+  entries.forEach(entry => validator.add(entry));
+  return validator.result();
+}
+
+/**
+ * Validate entries from a (possibly streaming) source
+ */
+export async function validateEligibilityStream(
+  entries: Iterable<EligibilityEntry> | AsyncIterable<EligibilityEntry>,
+  options: ValidationOptions = {}
+): Promise<ValidationResult> {
+  const validator = new EligibilityValidator(options);
+  for await (const entry of entries) {
+    validator.add(entry);
+  }
+  return validator.result();
+}
+
+/**
+ * Load a list of addresses from a JSON array or a one-per-line text file
+ */
+export function loadAddressList(filePath: string): string[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${filePath} must contain a JSON array of addresses`);
+    }
+    return parsed.map(String);
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map(line => line.split(',')[0].trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * Save the validation report as JSON
+ */
+export function writeValidationReport(report: ValidationReport, filePath: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
+}
+
+/**
+ * Print a short human-readable summary of a validation report
+ */
+export function printValidationSummary(report: ValidationReport, maxIssues = 20) {
+  const { totals } = report;
+  console.log('\n🧪 Input Validation:');
+  console.log(`- Entries: ${totals.entries}`);
+  console.log(`- Accepted: ${totals.accepted}`);
+  console.log(`- Rejected: ${totals.rejected}`);
+  console.log(`- Merged duplicates: ${totals.merged}`);
+  console.log(`- Normalized: ${totals.normalized}`);
+  console.log(`- Errors: ${totals.errors}, warnings: ${totals.warnings}`);
+
+  for (const issue of report.issues.slice(0, maxIssues)) {
+    console.log(`  ${issue.severity === 'error' ? '❌' : '⚠️ '} [${issue.code}] ${issue.message}`);
+  }
+  if (report.issues.length > maxIssues) {
+    console.log(`  ... and ${report.issues.length - maxIssues} more (see the report file)`);
+  }
+}
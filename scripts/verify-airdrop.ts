@@ -0,0 +1,357 @@
+import { ethers } from 'ethers';
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LeafEncoding } from './types';
+import { formatTokenAmount } from './amounts';
+import { streamJsonElements } from './eligibility-input';
+import { AirdropTreeBuilder, BuiltMerkleTree, computeLeaf, verifyMerkleProof } from './merkle-builder';
+import { createProgressLogger } from './output-stream';
+import { CAMPAIGN_FILE, CampaignMetadata } from '../lib/campaigns';
+import { ProofShardManifest, getShardKey } from '../lib/proofShards';
+
+// Types
+export interface VerificationIssue {
+  file: string;
+  line?: number;
+  address?: string;
+  message: string;
+}
+
+export interface VerificationReport {
+  valid: boolean;
+  dir: string;
+  merkleRoot: string; // Root recorded in deployment-config.json
+  rebuiltRoot: string | null; // Root recomputed from the detailed file
+  totalUsers: number;
+  totalTokensWei: string;
+  checked: {
+    detailedEntries: number;
+    addressEntries: number;
+    shardEntries: number;
+    shards: number;
+  };
+  issueCount: number;
+  issues: VerificationIssue[]; // The first MAX_REPORTED_ISSUES issues
+}
+
+interface DeploymentConfig {
+  merkleRoot: string;
+  totalTokens: string;
+  totalTokensWei: string;
+  tokenDecimals: number;
+  leafEncoding: LeafEncoding;
+  totalUsers: number;
+}
+
+const MAX_REPORTED_ISSUES = 100;
+const DETAILED_FILE = 'eligible-users-detailed.json';
+const ADDRESSES_FILE = 'eligible-addresses.json';
+const CONFIG_FILE = 'deployment-config.json';
+
+/**
+ * Collects issues and keeps the report small however many entries are wrong
+ */
+class IssueLog {
+  count = 0;
+  readonly issues: VerificationIssue[] = [];
+
+  add(file: string, message: string, details: { line?: number; address?: string } = {}) {
+    this.count++;
+    if (this.issues.length < MAX_REPORTED_ISSUES) {
+      this.issues.push({ file, ...details, message });
+    }
+  }
+}
+
+function sameProof(a: unknown, b: string[]): boolean {
+  return Array.isArray(a) && a.length === b.length && a.every((node, i) => String(node).toLowerCase() === b[i]);
+}
+
+/**
+ * Check one claim (address, amount, proof) read back from a file against the
+ * rebuilt tree. Hashing the proof up to the recorded root is the expensive
+ * part, so it is done once per entry rather than once per file.
+ */
+function checkClaim(
+  tree: BuiltMerkleTree,
+  index: number,
+  merkleRoot: string | null,
+  claim: { amount: unknown; proof: unknown },
+  report: (message: string) => void
+) {
+  const entry = tree.entry(index);
+  if (String(claim.amount) !== entry.amountWei.toString()) {
+    report(`amount ${claim.amount} does not match ${entry.amountWei} in ${DETAILED_FILE}`);
+    return;
+  }
+
+  const expected = tree.getProof(index);
+  if (!sameProof(claim.proof, expected)) {
+    report('proof does not match the proof recomputed from the tree');
+    return;
+  }
+
+  if (merkleRoot === null) return;
+  const leaf = computeLeaf(entry.address, entry.amountWei, tree.leafEncoding);
+  if (!verifyMerkleProof(merkleRoot, leaf, expected)) {
+    report(`proof does not verify against root ${merkleRoot}`);
+  }
+}
+
+/**
+ * Reload every file the generator wrote for a campaign, recompute every leaf
+ * and proof independently, and check that totals and roots agree everywhere
+ */
+export async function verifyAirdropFiles(dir: string): Promise<VerificationReport> {
+  const log = new IssueLog();
+  const checked = { detailedEntries: 0, addressEntries: 0, shardEntries: 0, shards: 0 };
+
+  const configPath = path.join(dir, CONFIG_FILE);
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`${configPath} not found, generate the campaign first`);
+  }
+  const config: DeploymentConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+
+  // Pass 1: rebuild the tree from the detailed list
+  const detailedPath = path.join(dir, DETAILED_FILE);
+  const builder = new AirdropTreeBuilder({ decimals: config.tokenDecimals, leafEncoding: config.leafEncoding });
+  const positions = new Map<string, number>(); // Lowercase address -> input position
+  let totalWei = 0n;
+
+  for await (const { value, line } of streamJsonElements(detailedPath)) {
+    const report = (message: string) => log.add(DETAILED_FILE, message, { line, address: String(value.address) });
+    const address = String(value.address);
+    const amountWei = String(value.amountWei);
+
+    if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+      report('address is not a checksummed address');
+      continue;
+    }
+    if (!/^\d+$/.test(amountWei)) {
+      report(`amountWei "${amountWei}" is not an integer`);
+      continue;
+    }
+    if (value.amount !== formatTokenAmount(BigInt(amountWei), config.tokenDecimals)) {
+      report(`amount ${value.amount} does not match amountWei ${amountWei}`);
+    }
+    if (positions.has(address.toLowerCase())) {
+      report('duplicate address');
+      continue;
+    }
+
+    positions.set(address.toLowerCase(), builder.addWei(address, BigInt(amountWei), value.reason as string | undefined));
+    totalWei += BigInt(amountWei);
+  }
+
+  const tree = builder.size > 0 ? builder.build() : null;
+  const rebuiltRoot = tree?.root ?? null;
+
+  if (rebuiltRoot !== config.merkleRoot) {
+    log.add(CONFIG_FILE, `merkleRoot ${config.merkleRoot} does not match root ${rebuiltRoot} rebuilt from ${DETAILED_FILE}`);
+  }
+  if (builder.size !== config.totalUsers) {
+    log.add(CONFIG_FILE, `totalUsers ${config.totalUsers} does not match ${builder.size} entries in ${DETAILED_FILE}`);
+  }
+  if (totalWei.toString() !== config.totalTokensWei) {
+    log.add(CONFIG_FILE, `totalTokensWei ${config.totalTokensWei} does not match the sum of entries ${totalWei}`);
+  }
+  if (config.totalTokens !== formatTokenAmount(totalWei, config.tokenDecimals)) {
+    log.add(CONFIG_FILE, `totalTokens ${config.totalTokens} does not match the sum of entries`);
+  }
+
+  // Campaign metadata must describe the same tree
+  const campaignPath = path.join(dir, CAMPAIGN_FILE);
+  const campaign: CampaignMetadata | null = fs.existsSync(campaignPath)
+    ? JSON.parse(fs.readFileSync(campaignPath, 'utf8'))
+    : null;
+  if (campaign) {
+    const expected: [keyof CampaignMetadata, unknown][] = [
+      ['merkleRoot', config.merkleRoot],
+      ['totalUsers', config.totalUsers],
+      ['totalTokensWei', config.totalTokensWei],
+      ['leafEncoding', config.leafEncoding]
+    ];
+    for (const [field, value] of expected) {
+      if (campaign[field] !== value) {
+        log.add(CAMPAIGN_FILE, `${field} ${campaign[field]} does not match ${value} in ${CONFIG_FILE}`);
+      }
+    }
+    if (campaign.token.decimals !== config.tokenDecimals) {
+      log.add(CAMPAIGN_FILE, `token decimals ${campaign.token.decimals} do not match ${config.tokenDecimals} in ${CONFIG_FILE}`);
+    }
+  }
+
+  if (tree) {
+    // Pass 2: every proof in the detailed list
+    const logProgress = createProgressLogger('Checking proofs');
+    let index = 0;
+    for await (const { value, line } of streamJsonElements(detailedPath)) {
+      const position = positions.get(String(value.address).toLowerCase());
+      if (position === undefined || position < index) continue; // Already reported in pass 1
+      checkClaim(tree, position, config.merkleRoot, { amount: value.amountWei, proof: value.proof }, message =>
+        log.add(DETAILED_FILE, message, { line, address: String(value.address) })
+      );
+      checked.detailedEntries++;
+      logProgress(++index, tree.length);
+    }
+
+    // The address map used by the frontend
+    const seen = new Uint8Array(tree.length);
+    for await (const { key, value, line } of streamJsonElements(path.join(dir, ADDRESSES_FILE), 'object')) {
+      const report = (message: string) => log.add(ADDRESSES_FILE, message, { line, address: key });
+      const position = positions.get(key!);
+      checked.addressEntries++;
+
+      if (position === undefined) {
+        report('address is not in the detailed list');
+      } else if (seen[position]) {
+        report('duplicate address');
+      } else {
+        seen[position] = 1;
+        if (String(value.address).toLowerCase() !== key) report(`key does not match address ${value.address}`);
+        checkClaim(tree, position, null, value as { amount: unknown; proof: unknown }, report);
+      }
+    }
+    if (checked.addressEntries !== tree.length) {
+      log.add(ADDRESSES_FILE, `has ${checked.addressEntries} entries, expected ${tree.length}`);
+    }
+
+    // Proof shards used by the claim page and the proof API
+    const proofsDir = path.resolve(dir, campaign?.proofs.dir || 'proofs');
+    const manifestPath = path.join(proofsDir, 'index.json');
+    if (!fs.existsSync(manifestPath)) {
+      log.add(path.relative(dir, manifestPath), 'proof shard manifest is missing');
+    } else {
+      const manifestFile = path.relative(dir, manifestPath);
+      const manifest: ProofShardManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      if (manifest.merkleRoot !== config.merkleRoot) {
+        log.add(manifestFile, `merkleRoot ${manifest.merkleRoot} does not match ${config.merkleRoot}`);
+      }
+      if (manifest.totalUsers !== tree.length) {
+        log.add(manifestFile, `totalUsers ${manifest.totalUsers} does not match ${tree.length}`);
+      }
+
+      seen.fill(0);
+      for (const [shardKey, shard] of Object.entries(manifest.shards)) {
+        const shardFile = path.relative(dir, path.join(proofsDir, shard.file));
+        let entries = 0;
+        if (!fs.existsSync(path.join(proofsDir, shard.file))) {
+          log.add(shardFile, 'proof shard listed in the manifest is missing');
+          continue;
+        }
+        checked.shards++;
+
+        for await (const { key, value, line } of streamJsonElements(path.join(proofsDir, shard.file), 'object')) {
+          const report = (message: string) => log.add(shardFile, message, { line, address: key });
+          const position = positions.get(key!);
+          entries++;
+
+          if (getShardKey(key!, manifest.keyType, manifest.keyLength) !== shardKey) {
+            report(`address belongs in shard ${getShardKey(key!, manifest.keyType, manifest.keyLength)}`);
+          } else if (position === undefined) {
+            report('address is not in the detailed list');
+          } else if (seen[position]) {
+            report('duplicate address');
+          } else {
+            seen[position] = 1;
+            checkClaim(tree, position, null, value as { amount: unknown; proof: unknown }, report);
+          }
+        }
+
+        if (entries !== shard.entries) {
+          log.add(shardFile, `has ${entries} entries, manifest says ${shard.entries}`);
+        }
+        checked.shardEntries += entries;
+      }
+
+      const missing = seen.reduce((count, flag) => count + (flag ? 0 : 1), 0);
+      if (missing > 0) {
+        log.add(manifestFile, `${missing} address(es) are missing from the proof shards`);
+      }
+    }
+
+    // OpenZeppelin dump, written for standard trees only
+    const dumpPath = path.join(dir, 'merkle-tree.json');
+    if (config.leafEncoding === 'standard') {
+      if (!fs.existsSync(dumpPath)) {
+        log.add('merkle-tree.json', 'standard tree dump is missing');
+      } else {
+        try {
+          const dump = StandardMerkleTree.load(JSON.parse(fs.readFileSync(dumpPath, 'utf8')));
+          if (dump.root !== config.merkleRoot) {
+            log.add('merkle-tree.json', `root ${dump.root} does not match ${config.merkleRoot}`);
+          }
+          if (dump.length !== tree.length) {
+            log.add('merkle-tree.json', `has ${dump.length} values, expected ${tree.length}`);
+          }
+        } catch (err) {
+          log.add('merkle-tree.json', `invalid tree dump: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+    }
+  }
+
+  return {
+    valid: log.count === 0,
+    dir,
+    merkleRoot: config.merkleRoot,
+    rebuiltRoot,
+    totalUsers: builder.size,
+    totalTokensWei: totalWei.toString(),
+    checked,
+    issueCount: log.count,
+    issues: log.issues
+  };
+}
+
+/**
+ * Print a verification report
+ */
+export function printVerificationReport(report: VerificationReport) {
+  console.log(`\n🔍 Verification of ${report.dir}:`);
+  console.log(`- Merkle root: ${report.merkleRoot}`);
+  console.log(`- Users: ${report.totalUsers}, total: ${report.totalTokensWei} base units`);
+  console.log(
+    `- Checked ${report.checked.detailedEntries} detailed entries, ${report.checked.addressEntries} address entries, ` +
+    `${report.checked.shardEntries} shard entries in ${report.checked.shards} shards`
+  );
+
+  if (report.valid) {
+    console.log('✅ Every leaf, proof, total and root is consistent');
+    return;
+  }
+
+  console.log(`❌ ${report.issueCount} mismatch(es) found:`);
+  for (const issue of report.issues) {
+    const location = issue.line === undefined ? issue.file : `${issue.file}:${issue.line}`;
+    console.log(`  ${location}${issue.address ? ` ${issue.address}` : ''}: ${issue.message}`);
+  }
+  if (report.issueCount > report.issues.length) {
+    console.log(`  ... and ${report.issueCount - report.issues.length} more`);
+  }
+}
+
+/**
+ * Usage: verify-airdrop <campaign dir>
+ */
+async function main(args: string[]) {
+  const dir = args[0];
+  if (!dir) {
+    throw new Error('Usage: verify-airdrop <campaign dir>');
+  }
+
+  const report = await verifyAirdropFiles(dir);
+  printVerificationReport(report);
+  if (!report.valid) {
+    process.exitCode = 1;
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  });
+}
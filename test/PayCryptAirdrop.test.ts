@@ -0,0 +1,215 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import { CLAIM_TYPES, getClaimDomain } from '../lib/relayedClaims';
+
+const CLAIM_DAYS = 30;
+
+describe('PayCryptAirdrop', () => {
+  async function deployAirdrop() {
+    const [owner, alice, bob, carol, relayer] = await ethers.getSigners();
+    const allocations = [
+      { signer: alice, amount: ethers.parseEther('100') },
+      { signer: bob, amount: ethers.parseEther('250') },
+      { signer: carol, amount: ethers.parseEther('50') }
+    ];
+
+    const builder = new AirdropTreeBuilder();
+    for (const { signer, amount } of allocations) builder.addWei(signer.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const claimPeriodEnd = (await time.latest()) + CLAIM_DAYS * 24 * 60 * 60;
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      claimPeriodEnd,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+
+    const claimOf = (signer: HardhatEthersSigner) => {
+      const index = allocations.findIndex(allocation => allocation.signer === signer);
+      return { amount: allocations[index].amount, proof: tree.getProof(index) };
+    };
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = getClaimDomain(chainId, await airdrop.getAddress());
+
+    return { airdrop, token, tree, claimPeriodEnd, claimOf, domain, owner, alice, bob, carol, relayer };
+  }
+
+  describe('claimTokensWithSignature', () => {
+    async function signedClaimFixture() {
+      const fixture = await loadFixture(deployAirdrop);
+      const { airdrop, domain } = fixture;
+
+      // Sign a claim with the claimer's current nonce unless told otherwise
+      const signClaim = async (
+        signer: HardhatEthersSigner,
+        message: { claimer: string; recipient: string; amount: bigint; nonce?: bigint; deadline?: bigint }
+      ) => {
+        const full = {
+          ...message,
+          nonce: message.nonce ?? (await airdrop.nonces(message.claimer)),
+          deadline: message.deadline ?? BigInt((await time.latest()) + 15 * 60)
+        };
+        return { ...full, signature: await signer.signTypedData(domain, CLAIM_TYPES, full) };
+      };
+      return { ...fixture, signClaim };
+    }
+
+    it('pays the claimer when a relayer submits a valid signature', async () => {
+      const { airdrop, token, alice, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: alice.address, amount });
+
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, alice.address, amount, proof, signed.deadline, signed.signature)
+      ).to.emit(airdrop, 'TokensClaimed').withArgs(alice.address, amount, (timestamp: bigint) => timestamp > 0n);
+
+      expect(await token.balanceOf(alice.address)).to.equal(amount);
+      expect(await token.balanceOf(relayer.address)).to.equal(0n);
+      expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+      expect(await airdrop.nonces(alice.address)).to.equal(1n);
+    });
+
+    it('sends the tokens to the recipient the claimer signed for', async () => {
+      const { airdrop, token, alice, carol, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: carol.address, amount });
+
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, carol.address, amount, proof, signed.deadline, signed.signature)
+      ).to.emit(airdrop, 'TokensRedirected').withArgs(alice.address, carol.address, amount);
+
+      expect(await token.balanceOf(carol.address)).to.equal(amount);
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+      expect(await airdrop.hasClaimed(carol.address)).to.equal(false);
+    });
+
+    it('rejects a relayer that changes the recipient', async () => {
+      const { airdrop, alice, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: alice.address, amount });
+
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, relayer.address, amount, proof, signed.deadline, signed.signature)
+      ).to.be.revertedWithCustomError(airdrop, 'InvalidSignature');
+    });
+
+    it('rejects a signature from anyone but the claimer', async () => {
+      const { airdrop, alice, bob, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(bob, { claimer: alice.address, recipient: bob.address, amount });
+
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, bob.address, amount, proof, signed.deadline, signed.signature)
+      ).to.be.revertedWithCustomError(airdrop, 'InvalidSignature');
+    });
+
+    it('rejects an expired deadline', async () => {
+      const { airdrop, alice, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: alice.address, amount });
+
+      await time.increaseTo(signed.deadline + 1n);
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, alice.address, amount, proof, signed.deadline, signed.signature)
+      ).to.be.revertedWithCustomError(airdrop, 'SignatureExpired');
+    });
+
+    it('does not accept the same signature twice', async () => {
+      const { airdrop, alice, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: alice.address, amount });
+      const args = [alice.address, alice.address, amount, proof, signed.deadline, signed.signature] as const;
+
+      await airdrop.connect(relayer).claimTokensWithSignature(...args);
+      // The nonce was consumed, so the replay no longer recovers to the claimer
+      await expect(airdrop.connect(relayer).claimTokensWithSignature(...args))
+        .to.be.revertedWithCustomError(airdrop, 'InvalidSignature');
+    });
+
+    it('rejects signatures made with an invalidated nonce', async () => {
+      const { airdrop, alice, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: relayer.address, amount });
+
+      await airdrop.connect(alice).invalidateNonce();
+      expect(await airdrop.nonces(alice.address)).to.equal(1n);
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, relayer.address, amount, proof, signed.deadline, signed.signature)
+      ).to.be.revertedWithCustomError(airdrop, 'InvalidSignature');
+
+      // A fresh signature with the new nonce still works
+      const fresh = await signClaim(alice, { claimer: alice.address, recipient: alice.address, amount });
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, alice.address, amount, proof, fresh.deadline, fresh.signature)
+      ).to.emit(airdrop, 'TokensClaimed');
+    });
+
+    it('still checks the Merkle proof of a signed claim', async () => {
+      const { airdrop, alice, relayer, claimOf, signClaim } = await loadFixture(signedClaimFixture);
+      const { amount, proof } = claimOf(alice);
+      const inflated = amount * 2n;
+      const signed = await signClaim(alice, { claimer: alice.address, recipient: alice.address, amount: inflated });
+
+      await expect(
+        airdrop.connect(relayer).claimTokensWithSignature(alice.address, alice.address, inflated, proof, signed.deadline, signed.signature)
+      ).to.be.revertedWithCustomError(airdrop, 'InvalidProof');
+    });
+  });
+
+  describe('claimTokensTo', () => {
+    it('sends the claim to another address and records the claimer', async () => {
+      const { airdrop, token, bob, carol, claimOf } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(bob);
+
+      await expect(airdrop.connect(bob).claimTokensTo(carol.address, amount, proof))
+        .to.emit(airdrop, 'TokensRedirected').withArgs(bob.address, carol.address, amount)
+        .and.to.emit(airdrop, 'TokensClaimed').withArgs(bob.address, amount, (timestamp: bigint) => timestamp > 0n);
+
+      expect(await token.balanceOf(carol.address)).to.equal(amount);
+      expect(await token.balanceOf(bob.address)).to.equal(0n);
+      expect(await airdrop.hasClaimed(bob.address)).to.equal(true);
+      expect(await airdrop.hasClaimed(carol.address)).to.equal(false);
+      expect(await airdrop.claimedAmount(bob.address)).to.equal(amount);
+
+      // The recipient's own allocation is untouched
+      const own = claimOf(carol);
+      await expect(airdrop.connect(carol).claimTokens(own.amount, own.proof)).not.to.emit(airdrop, 'TokensRedirected');
+      await expect(airdrop.connect(bob).claimTokensTo(carol.address, amount, proof)).to.be.revertedWithCustomError(airdrop, 'AlreadyClaimed');
+    });
+
+    it('does not emit a redirect when the claimer is the recipient', async () => {
+      const { airdrop, alice, claimOf } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(alice);
+
+      await expect(airdrop.connect(alice).claimTokensTo(alice.address, amount, proof))
+        .to.emit(airdrop, 'TokensClaimed')
+        .and.not.to.emit(airdrop, 'TokensRedirected');
+    });
+
+    it('rejects recipients that would lose the tokens', async () => {
+      const { airdrop, token, alice, claimOf } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(alice);
+
+      for (const recipient of [ethers.ZeroAddress, await airdrop.getAddress(), await token.getAddress()]) {
+        await expect(airdrop.connect(alice).claimTokensTo(recipient, amount, proof))
+          .to.be.revertedWithCustomError(airdrop, 'InvalidRecipient');
+      }
+      expect(await airdrop.hasClaimed(alice.address)).to.equal(false);
+    });
+
+    it('checks the proof against the caller, not the recipient', async () => {
+      const { airdrop, alice, carol, claimOf } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(carol);
+
+      await expect(airdrop.connect(alice).claimTokensTo(carol.address, amount, proof))
+        .to.be.revertedWithCustomError(airdrop, 'InvalidProof');
+    });
+  });
+});
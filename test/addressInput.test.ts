@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { AddressInputError, resolveAddressInput } from '../lib/addressInput';
+
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+describe('resolveAddressInput', () => {
+  const rejects = (input: string, message: string) =>
+    resolveAddressInput(input).then(
+      () => expect.fail(`expected "${message}"`),
+      err => {
+        expect(err).to.be.instanceOf(AddressInputError);
+        expect(err.message).to.equal(message);
+      }
+    );
+
+  it('checksums pasted addresses', async () => {
+    expect(await resolveAddressInput(`  ${CAROL.toLowerCase()}\n`)).to.deep.equal({ address: CAROL });
+    expect(await resolveAddressInput(CAROL.toUpperCase().replace('0X', '0x'))).to.deep.equal({ address: CAROL });
+    expect(await resolveAddressInput(CAROL)).to.deep.equal({ address: CAROL });
+  });
+
+  it('rejects input that is neither an address nor an ENS name', async () => {
+    await rejects('   ', 'Enter an address or ENS name');
+    await rejects(CAROL.replace('F79', 'f79'), 'Address checksum does not match, check it for typos');
+    await rejects(CAROL.slice(0, -1), 'Not a valid address or ENS name');
+    await rejects('carol', 'Not a valid address or ENS name');
+    await rejects('carol .eth', 'Not a valid address or ENS name');
+    await rejects('car\u0000ol.eth', '"car\u0000ol.eth" is not a valid ENS name');
+  });
+});
@@ -0,0 +1,166 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { CampaignSummary } from '../lib/campaigns';
+import {
+  AirdropState,
+  formatTokens,
+  readAirdropState,
+  reviewAirdropUpdate,
+  reviewExtension,
+  reviewWithdrawal,
+  suggestTotalClaimable
+} from '../lib/airdropAdmin';
+
+const NOW = 1_800_000_000;
+const DAY = 86400;
+const AIRDROP = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const ROOT = '0x' + '11'.repeat(32);
+const NEXT_ROOT = '0x' + '22'.repeat(32);
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+const STATE: AirdropState = {
+  contractAddress: AIRDROP,
+  owner: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  token: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  tokenSymbol: 'USDC',
+  decimals: 6,
+  merkleRoot: ROOT,
+  claimPeriodEnd: NOW + 10 * DAY,
+  totalClaimable: usdc('1000'),
+  totalClaimed: usdc('300'),
+  balance: usdc('700')
+};
+
+const campaign = (id: string, merkleRoot: string, total: string, extra: Partial<CampaignSummary> = {}): CampaignSummary => ({
+  id,
+  name: id,
+  version: 1,
+  chainId: 8453,
+  tokenSymbol: 'USDC',
+  merkleRoot,
+  totalUsers: 10,
+  totalTokensWei: usdc(total).toString(),
+  contractAddress: AIRDROP,
+  generatedAt: '2026-01-01T00:00:00.000Z',
+  ...extra
+});
+
+const CAMPAIGNS = [campaign('season-1', ROOT, '1000'), campaign('season-2', NEXT_ROOT, '500')];
+
+describe('airdropAdmin', () => {
+  it('formats amounts in the token\'s units', () => {
+    expect(formatTokens(STATE, usdc('1.5'))).to.equal('1.5 USDC');
+    expect(formatTokens(STATE, usdc('2'))).to.equal('2 USDC');
+    expect(formatTokens({ tokenSymbol: 'PCRYPT', decimals: 18 }, 1n)).to.equal('0.000000000000000001 PCRYPT');
+  });
+
+  it('adds a new round on top of what was already claimed', () => {
+    expect(suggestTotalClaimable(STATE, CAMPAIGNS[0])).to.equal(STATE.totalClaimable);
+    expect(suggestTotalClaimable(STATE, CAMPAIGNS[1])).to.equal(usdc('800'));
+  });
+
+  describe('reviewAirdropUpdate', () => {
+    it('matches the new root to its campaign', () => {
+      const review = reviewAirdropUpdate(
+        STATE,
+        { merkleRoot: NEXT_ROOT, claimPeriodEnd: NOW + 30 * DAY, totalClaimable: usdc('800') },
+        CAMPAIGNS,
+        8453,
+        NOW
+      );
+
+      expect(review.problems).to.deep.equal([]);
+      expect(review.campaign?.id).to.equal('season-2');
+      expect(review.warnings).to.deep.equal([
+        'Addresses that already claimed stay marked as claimed under the new root'
+      ]);
+      expect(review.effects).to.include('Still to be claimed: 700 USDC -> 500 USDC');
+    });
+
+    it('warns about a total the campaign does not suggest and a short balance', () => {
+      const review = reviewAirdropUpdate(
+        { ...STATE, balance: usdc('400') },
+        { merkleRoot: NEXT_ROOT.toUpperCase().replace('0X', '0x'), claimPeriodEnd: NOW + DAY, totalClaimable: usdc('900') },
+        [campaign('season-2', NEXT_ROOT, '500', { chainId: 137, contractAddress: STATE.token })],
+        8453,
+        NOW
+      );
+
+      expect(review.problems).to.deep.equal([]);
+      expect(review.warnings).to.deep.equal([
+        'Campaign "season-2" was generated for chain 137',
+        `Campaign "season-2" is recorded as deployed to ${STATE.token}`,
+        'Campaign "season-2" suggests a total claimable of 800 USDC',
+        'The contract holds 400 USDC, 200 USDC short of what can be claimed; fund it before announcing',
+        'Addresses that already claimed stay marked as claimed under the new root'
+      ]);
+    });
+
+    it('rejects updates the contract or the data would not support', () => {
+      expect(reviewAirdropUpdate(STATE, { merkleRoot: '0x1234', claimPeriodEnd: NOW + DAY, totalClaimable: 0n }, CAMPAIGNS, 8453, NOW).problems)
+        .to.deep.equal(['The Merkle root must be a 32-byte hex value']);
+
+      const review = reviewAirdropUpdate(
+        STATE,
+        { merkleRoot: '0x' + '33'.repeat(32), claimPeriodEnd: NOW, totalClaimable: usdc('200') },
+        CAMPAIGNS,
+        8453,
+        NOW
+      );
+      expect(review.problems).to.deep.equal([
+        'The claim end must be in the future',
+        'Total claimable is below the 300 USDC already claimed',
+        'The root does not match any generated campaign; regenerate the data or check the root'
+      ]);
+    });
+  });
+
+  it('reviews extending the claim window', () => {
+    expect(reviewExtension(STATE, STATE.claimPeriodEnd, NOW).problems).to.have.length(1);
+
+    const review = reviewExtension(STATE, STATE.claimPeriodEnd + 5 * DAY, NOW);
+    expect(review.problems).to.deep.equal([]);
+    expect(review.warnings).to.deep.equal([]);
+    expect(review.effects[0]).to.match(/\(5 more days\)$/);
+
+    // A closed window is reopened, and an underfunded contract is called out
+    const reopened = reviewExtension({ ...STATE, claimPeriodEnd: NOW - DAY, balance: usdc('100') }, NOW + DAY, NOW);
+    expect(reopened.warnings).to.deep.equal([
+      'Claims are closed now; this reopens them',
+      'The contract holds 100 USDC, less than the 700 USDC still to be claimed'
+    ]);
+  });
+
+  it('reviews withdrawing what is left', () => {
+    expect(reviewWithdrawal({ ...STATE, balance: 0n }, NOW).problems).to.have.length(2);
+
+    const review = reviewWithdrawal(STATE, STATE.claimPeriodEnd + 1);
+    expect(review.problems).to.deep.equal([]);
+    expect(review.warnings).to.deep.equal(['700 USDC was never claimed and can no longer be claimed once withdrawn']);
+    expect(review.effects).to.deep.equal([`Sends 700 USDC to the owner ${STATE.owner}`]);
+  });
+
+  it('reads the state of a deployed airdrop', async () => {
+    const [owner] = await ethers.getSigners();
+    const token = await ethers.deployContract('PayCryptToken');
+    const claimPeriodEnd = (await time.latest()) + 30 * DAY;
+    const totalClaimable = ethers.parseEther('1000');
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [await token.getAddress(), ROOT, claimPeriodEnd, totalClaimable]);
+    const address = await airdrop.getAddress();
+    await token.transfer(address, ethers.parseEther('600'));
+
+    expect(await readAirdropState(ethers.provider, address.toLowerCase())).to.deep.equal({
+      contractAddress: address,
+      owner: owner.address,
+      token: await token.getAddress(),
+      tokenSymbol: await token.symbol(),
+      decimals: 18,
+      merkleRoot: ROOT,
+      claimPeriodEnd,
+      totalClaimable,
+      totalClaimed: 0n,
+      balance: ethers.parseEther('600')
+    });
+  });
+});
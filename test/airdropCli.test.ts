@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../scripts/airdrop-cli';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NOT_ELIGIBLE = '0x0000000000000000000000000000000000000001';
+
+describe('airdrop CLI', () => {
+  let dataDir: string;
+  let inputFile: string;
+
+  // Run a command with --json and return its exit code and parsed stdout
+  const run = async (...args: string[]) => {
+    const output: string[] = [];
+    const { log, error } = console;
+    console.log = (...parts: unknown[]) => output.push(parts.join(' '));
+    console.error = () => {};
+    try {
+      const code = await runCli([...args, '--output', dataDir, '--json']);
+      return { code, data: output.length > 0 ? JSON.parse(output.join('\n')) : undefined };
+    } finally {
+      Object.assign(console, { log, error });
+    }
+  };
+
+  before(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-cli-'));
+    inputFile = path.join(dataDir, 'input.csv');
+    fs.writeFileSync(inputFile, `address,amount\n${ALICE},100\n0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC,250\n`);
+    expect((await run('generate', inputFile, '--campaign', 'season-1')).code).to.equal(0);
+  });
+
+  after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+  it('prints an eligible address with its proof', async () => {
+    const { code, data } = await run('proof', ALICE.toLowerCase(), '--campaign', 'season-1');
+    expect(code).to.equal(0);
+    expect(data).to.include({ address: ALICE, eligible: true, amount: '100', amountWei: '100000000000000000000' });
+    expect(data.proof).to.have.length(1);
+  });
+
+  it('exits with 1 for failed checks', async () => {
+    expect((await run('proof', NOT_ELIGIBLE, '--campaign', 'season-1')).code).to.equal(1);
+    expect((await run('verify', ALICE, '--amount', '101', '--campaign', 'season-1')).code).to.equal(1);
+    expect((await run('verify', ALICE, '--campaign', 'season-1')).data.valid).to.equal(true);
+  });
+
+  it('builds input trees with the requested leaf format', async () => {
+    const packed = await run('stats', inputFile);
+    const standard = await run('stats', inputFile, '--leaf-format', 'standard');
+    expect(packed.data.leafEncoding).to.equal('packed');
+    expect(standard.data.leafEncoding).to.equal('standard');
+    expect(standard.data.merkleRoot).not.to.equal(packed.data.merkleRoot);
+  });
+
+  it('exits with 2 for usage errors', async () => {
+    expect((await run('stats', inputFile, '--leaf-format', 'sorted')).code).to.equal(2);
+    expect((await run('proof', 'not-an-address')).code).to.equal(2);
+    expect((await run('launch')).code).to.equal(2);
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { AllocationRules, computeAllocations, loadAllocationRules } from '../scripts/allocation-rules';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const DAVE = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+
+const CATEGORIES: AllocationRules['categories'] = [
+  { name: 'Early user', when: [{ field: 'usage.firstSeen', before: '2024-01-01' }], amount: '100' },
+  { name: 'Activity', tiers: { field: 'usage.txCount', levels: [{ min: 10, amount: '50' }, { min: 100, amount: '200' }] } },
+  { name: 'Volume', formula: { field: 'usage.txCount', rate: '10', curve: 'sqrt' }, max: '100' },
+  { name: 'Moderator', when: [{ field: 'community.role', equals: 'moderator' }], amount: '25' }
+];
+
+describe('allocation rules', () => {
+  let dir: string;
+
+  // Write a rules file next to its datasets and load it
+  const loadRules = (rules: Partial<AllocationRules>) => {
+    const file = path.join(dir, 'rules.json');
+    fs.writeFileSync(file, JSON.stringify({
+      datasets: { usage: { file: 'usage.csv' }, community: { file: 'community.json', address: 'wallet' } },
+      categories: CATEGORIES,
+      ...rules
+    }));
+    return loadAllocationRules(file);
+  };
+  const amounts = (result: Awaited<ReturnType<typeof computeAllocations>>) =>
+    Object.fromEntries(result.users.map(user => [user.address, user.amount]));
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-rules-'));
+    fs.writeFileSync(path.join(dir, 'usage.csv'), [
+      'address,txCount,firstSeen',
+      `${ALICE},150,2023-01-10`,
+      `${BOB.toLowerCase()},20,2024-06-01`,
+      `${CAROL},4,2023-03-01`
+    ].join('\n'));
+    fs.writeFileSync(path.join(dir, 'community.json'), JSON.stringify([
+      { wallet: BOB, role: 'moderator' },
+      { wallet: DAVE, role: 'member' }
+    ]));
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('adds up fixed, tiered and formula categories per address', async () => {
+    const result = await computeAllocations(loadRules({}));
+
+    // Dave is only a member and matches no category
+    expect(amounts(result)).to.deep.equal({ [ALICE]: '400', [BOB]: '119.721359', [CAROL]: '120' });
+    expect(result.users.find(user => user.address === BOB)!.reason).to.equal('Activity, Volume, Moderator');
+    expect(result.summary).to.include({ addressesSeen: 4, addressesAllocated: 3, totalWei: ethers.parseEther('639.721359').toString() });
+    expect(result.summary.byCategory['Early user']).to.deep.equal({ addresses: 2, totalWei: ethers.parseEther('200').toString() });
+
+    const alice = result.allocations.find(allocation => allocation.address === ALICE)!;
+    expect(alice.steps.map(step => step.rule)).to.deep.equal(['Early user', 'Activity', 'Volume']);
+    expect(alice.steps[2].detail).to.contain('capped at 100');
+  });
+
+  it('applies per-address floors and caps before fitting the budget', async () => {
+    const result = await computeAllocations(loadRules({ perAddress: { min: '150', max: '300' }, budget: { total: '500' } }));
+
+    // Bob and Carol stay at the floor, so Alice absorbs the cut
+    expect(amounts(result)).to.deep.equal({ [ALICE]: '200', [BOB]: '150', [CAROL]: '150' });
+    expect(result.summary.totalWei).to.equal(ethers.parseEther('500').toString());
+    expect(result.allocations.find(allocation => allocation.address === BOB)!.steps.map(step => step.rule))
+      .to.deep.equal(['Activity', 'Volume', 'Moderator', 'floor']);
+  });
+
+  it('fills the budget when asked to', async () => {
+    const budgetWei = ethers.parseEther('1280');
+    const result = await computeAllocations(loadRules({ budget: { total: '1280', fill: true } }));
+    const totalWei = BigInt(result.summary.totalWei);
+
+    expect(totalWei <= budgetWei).to.equal(true);
+    expect(budgetWei - totalWei < 3n * 10n ** 12n).to.equal(true);
+    expect(result.summary.scale).to.be.closeTo(2, 0.001);
+  });
+
+  it('rejects malformed rules files', () => {
+    expect(() => loadRules({ categories: [] })).to.throw('"categories" must list at least one category');
+    expect(() => loadRules({ categories: [{ name: 'Both', amount: '1', formula: { field: 'usage.txCount', rate: '1' } }] }))
+      .to.throw('needs exactly one of');
+    expect(() => loadRules({ categories: [{ name: 'Unknown', when: [{ field: 'other.x', min: 1 }], amount: '1' }] }))
+      .to.throw('with a declared dataset');
+    expect(() => loadRules({ categories: [{ name: 'Curve', formula: { field: 'usage.txCount', rate: '1', curve: 'exp' as 'sqrt' } }] }))
+      .to.throw('unknown curve');
+  });
+});
@@ -0,0 +1,43 @@
+import { expect } from 'chai';
+import { formatTokenAmount } from '../scripts/amounts';
+import { AirdropMerkleTree } from '../scripts/generate-merkle';
+
+const ADDRESSES = [
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+];
+
+describe('token amounts', () => {
+  it('formats base units without a trailing .0', () => {
+    expect(formatTokenAmount(10n ** 18n * 1000n)).to.equal('1000');
+    expect(formatTokenAmount(12_500_000n, 6)).to.equal('12.5');
+    expect(formatTokenAmount(1n)).to.equal('0.000000000000000001');
+    expect(formatTokenAmount(0n, 0)).to.equal('0');
+  });
+
+  it('sums fractional amounts exactly', () => {
+    const users = ADDRESSES.map(address => ({ address, amount: '0.1' }));
+    const stats = new AirdropMerkleTree(users).getStats();
+
+    expect(stats.totalTokensWei).to.equal(3n * 10n ** 17n);
+    expect(stats.totalTokensToDistribute).to.equal('0.3');
+  });
+
+  it('keeps amounts beyond 2^53 exact', () => {
+    const users = [
+      { address: ADDRESSES[0], amount: '9007199254740993' },
+      { address: ADDRESSES[1], amount: '0.000000000000000001' }
+    ];
+    expect(new AirdropMerkleTree(users).getStats().totalTokensToDistribute).to.equal('9007199254740993.000000000000000001');
+  });
+
+  it('parses amounts with the configured token decimals', () => {
+    const users = [{ address: ADDRESSES[0], amount: '1.25' }, { address: ADDRESSES[1], amount: '2' }];
+    const tree = new AirdropMerkleTree(users, { decimals: 6 });
+
+    expect(tree.getStats()).to.include({ totalTokensWei: 3_250_000n, totalTokensToDistribute: '3.25', decimals: 6 });
+    expect(tree.verifyProof(ADDRESSES[0], 1_250_000n, tree.getProof(ADDRESSES[0], '1.25'))).to.equal(true);
+    expect(() => new AirdropMerkleTree([{ address: ADDRESSES[0], amount: '0.0000001' }], { decimals: 6 })).to.throw();
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { findCampaignClaim, loadCampaign, readCampaignIndex, recordDeployment } from '../scripts/campaigns';
+import { verifyAirdropFiles } from '../scripts/verify-airdrop';
+import { CampaignDeployment, getLatestDeployment } from '../lib/campaigns';
+
+const FIRST_ROUND = [
+  { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '100' },
+  { address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', amount: '250' }
+];
+const SECOND_ROUND = [...FIRST_ROUND, { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', amount: '75' }];
+
+describe('campaign versions', () => {
+  let dataDir: string;
+  const log = console.log;
+
+  const generate = (entries: typeof FIRST_ROUND) =>
+    generateAirdropData(entries, { dataDir, campaign: { id: 'season-1' } });
+
+  const deploy = (merkleRoot: string): CampaignDeployment => {
+    const deployment: CampaignDeployment = {
+      chainId: 8453,
+      network: 'base',
+      contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      tokenAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+      deployer: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      merkleRoot,
+      totalClaimable: '0',
+      claimPeriodEnd: new Date().toISOString(),
+      deployedAt: new Date().toISOString(),
+      blockNumber: 1,
+      transactionHash: '0x' + '11'.repeat(32)
+    };
+    recordDeployment(dataDir, loadCampaign(dataDir, 'season-1')!, deployment);
+    return deployment;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-campaigns-'));
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = log;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps the deployment when a regeneration produces the same root', async () => {
+    const first = await generate(FIRST_ROUND);
+    deploy(first.merkleRoot);
+
+    const second = await generate(FIRST_ROUND);
+    expect(second.campaign.version).to.equal(2);
+    expect(second.campaign.deployment?.merkleRoot).to.equal(first.merkleRoot);
+    expect(second.campaign.history[0].dir).to.equal(undefined);
+  });
+
+  it('archives the deployed version and drops its deployment when the root changes', async () => {
+    const first = await generate(FIRST_ROUND);
+    const deployment = deploy(first.merkleRoot);
+
+    const second = await generate(SECOND_ROUND);
+    const campaignDir = path.join(dataDir, 'season-1');
+    expect(second.merkleRoot).not.to.equal(first.merkleRoot);
+    expect(second.campaign.deployment).to.equal(undefined);
+    expect(second.campaign.history[0]).to.include({ version: 1, merkleRoot: first.merkleRoot, dir: path.join('versions', '1') });
+    expect(second.campaign.history[0].deployment).to.deep.equal(deployment);
+    expect(getLatestDeployment(second.campaign)).to.deep.equal(deployment);
+
+    // The deployed contract's proofs are still available and consistent with its root
+    const versionsDir = path.join(campaignDir, 'versions');
+    expect((await verifyAirdropFiles(path.join(versionsDir, '1'))).valid).to.equal(true);
+    expect(findCampaignClaim(versionsDir, '1', SECOND_ROUND[2].address)).to.equal(null);
+    expect(findCampaignClaim(dataDir, 'season-1', SECOND_ROUND[2].address)?.amount).to.equal('75000000000000000000');
+
+    // The index still points the frontend at the contract
+    const [summary] = readCampaignIndex(dataDir).campaigns;
+    expect(summary.merkleRoot).to.equal(second.merkleRoot);
+    expect(summary.contractAddress).to.equal(deployment.contractAddress);
+  });
+
+  it('does not archive versions that were never deployed', async () => {
+    await generate(FIRST_ROUND);
+    const second = await generate(SECOND_ROUND);
+
+    expect(second.campaign.history[0].dir).to.equal(undefined);
+    expect(fs.existsSync(path.join(dataDir, 'season-1', 'versions'))).to.equal(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import { CampaignSummary } from '../lib/campaigns';
+import { SUPPORTED_CHAINS, getChainConfig, getExplorerTxUrl, resolveDeployments, switchWalletChain } from '../lib/chains';
+
+const HASH = '0x' + 'ab'.repeat(32);
+
+const campaign = (id: string, chainId: number | undefined, contractAddress: string | undefined, generatedAt: string): CampaignSummary => ({
+  id,
+  name: id,
+  version: 1,
+  chainId,
+  tokenSymbol: 'PCRYPT',
+  merkleRoot: ethers.id(id),
+  totalUsers: 1,
+  totalTokensWei: '1',
+  contractAddress,
+  generatedAt
+});
+
+const CAMPAIGNS = [
+  campaign('season-1', 8453, '0x0000000000000000000000000000000000000001', '2026-01-01T00:00:00.000Z'),
+  campaign('season-2', 8453, '0x0000000000000000000000000000000000000002', '2026-03-01T00:00:00.000Z'),
+  campaign('season-3', 8453, undefined, '2026-05-01T00:00:00.000Z'),
+  campaign('polygon-1', 137, '0x0000000000000000000000000000000000000003', '2026-02-01T00:00:00.000Z'),
+  campaign('local', undefined, '0x0000000000000000000000000000000000000004', '2026-06-01T00:00:00.000Z')
+];
+
+describe('chains', () => {
+  // The env variables that pin deployments are unset in tests; pin chains per test instead
+  const pinned = SUPPORTED_CHAINS.map(({ contractAddress, round, proofsUrl }) => ({ contractAddress, round, proofsUrl }));
+  beforeEach(() => SUPPORTED_CHAINS.forEach(chain => Object.assign(chain, { contractAddress: undefined, round: undefined, proofsUrl: undefined })));
+  after(() => SUPPORTED_CHAINS.forEach((chain, i) => Object.assign(chain, pinned[i])));
+
+  const summarize = (preferredRound?: string) =>
+    resolveDeployments(CAMPAIGNS, preferredRound).map(({ chain, contractAddress, round }) => [chain.chainId, contractAddress, round]);
+
+  it('uses the newest deployed campaign on each chain', () => {
+    expect(summarize()).to.deep.equal([
+      [8453, '0x0000000000000000000000000000000000000002', 'season-2'],
+      [137, '0x0000000000000000000000000000000000000003', 'polygon-1']
+    ]);
+  });
+
+  it('prefers the requested round, then the round pinned for the chain', () => {
+    expect(summarize('season-1')[0]).to.deep.equal([8453, '0x0000000000000000000000000000000000000001', 'season-1']);
+
+    SUPPORTED_CHAINS[0].round = 'season-2';
+    expect(summarize('season-1')[0]).to.deep.equal([8453, '0x0000000000000000000000000000000000000002', 'season-2']);
+  });
+
+  it('lets a pinned contract override the campaign data', () => {
+    Object.assign(SUPPORTED_CHAINS[2], { contractAddress: '0x0000000000000000000000000000000000000005', proofsUrl: 'https://proofs.test/eth' });
+    expect(resolveDeployments(CAMPAIGNS).map(deployment => deployment.chain.chainId)).to.deep.equal([8453, 137, 1]);
+    expect(resolveDeployments(CAMPAIGNS)[2]).to.include({
+      contractAddress: '0x0000000000000000000000000000000000000005',
+      round: undefined,
+      proofsUrl: 'https://proofs.test/eth'
+    });
+  });
+
+  it('links transactions to the chain\'s explorer', () => {
+    expect(getChainConfig(137n)?.name).to.equal('Polygon');
+    expect(getChainConfig(undefined)).to.equal(undefined);
+    expect(getExplorerTxUrl(8453, HASH)).to.equal(`https://basescan.org/tx/${HASH}`);
+    expect(getExplorerTxUrl(31337, HASH)).to.equal(null);
+  });
+
+  it('adds the chain to the wallet when it does not know it', async () => {
+    const requests: string[] = [];
+    const wallet = {
+      request: async ({ method }: { method: string }) => {
+        requests.push(method);
+        if (method === 'wallet_switchEthereumChain' && requests.length === 1) throw Object.assign(new Error('Unrecognized chain'), { code: 4902 });
+        return null;
+      }
+    };
+
+    await switchWalletChain(wallet, SUPPORTED_CHAINS[1]);
+    expect(requests).to.deep.equal(['wallet_switchEthereumChain', 'wallet_addEthereumChain']);
+
+    const rejecting = { request: async () => { throw Object.assign(new Error('User rejected the request'), { code: 4001 }); } };
+    await switchWalletChain(rejecting, SUPPORTED_CHAINS[1]).then(
+      () => expect.fail('expected the rejection to propagate'),
+      err => expect(err.code).to.equal(4001)
+    );
+  });
+});
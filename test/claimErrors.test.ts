@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import {
+  AIRDROP_ERROR_ABI,
+  ClaimTransactionError,
+  WrongNetworkError,
+  decodeClaimError,
+  formatClaimError
+} from '../lib/claimErrors';
+
+const errorInterface = new ethers.Interface(AIRDROP_ERROR_ABI);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+// What ethers and wallets throw for a reverted call, with the revert data nested the usual ways
+const callException = (data: string) => ({ code: 'CALL_EXCEPTION', message: 'execution reverted', data });
+const revertString = (reason: string) => '0x08c379a0' + coder.encode(['string'], [reason]).slice(2);
+const panic = (code: number) => '0x4e487b71' + coder.encode(['uint256'], [code]).slice(2);
+
+describe('decodeClaimError', () => {
+  it('decodes custom errors from revert data', () => {
+    const decoded = decodeClaimError(callException(errorInterface.encodeErrorResult('InvalidProof', [])));
+    expect(decoded.kind).to.equal('contract');
+    expect(decoded.code).to.equal('InvalidProof');
+    expect(decoded.title).to.equal('Eligibility proof rejected');
+  });
+
+  it('finds revert data nested in provider errors', () => {
+    const data = errorInterface.encodeErrorResult('AlreadyClaimed', []);
+    const decoded = decodeClaimError({ code: -32603, message: 'Internal error', info: { error: { data: { data } } } });
+    expect(decoded.code).to.equal('AlreadyClaimed');
+  });
+
+  it('decodes errors with arguments and names reported by the relayer', () => {
+    const data = errorInterface.encodeErrorResult('OwnableUnauthorizedAccount', [ethers.ZeroAddress]);
+    expect(decodeClaimError(callException(data)).code).to.equal('OwnableUnauthorizedAccount');
+    expect(decodeClaimError({ reason: 'SignatureExpired' }).title).to.equal('Signature expired');
+  });
+
+  it('decodes a pause raised by the token during the transfer', async () => {
+    const [, claimer] = await ethers.getSigners();
+    const amount = ethers.parseEther('100');
+    const builder = new AirdropTreeBuilder();
+    builder.addWei(claimer.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      (await time.latest()) + 24 * 60 * 60,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+    await token.pause();
+
+    // The airdrop's ABI does not know the token's error, so only the raw revert data carries it
+    const decoded = await airdrop.connect(claimer).claimTokens(amount, tree.getProof(0)).then(
+      () => expect.fail('expected the claim to revert'),
+      decodeClaimError
+    );
+    expect(decoded).to.include({ kind: 'contract', code: 'EnforcedPause', title: 'Token transfers are paused' });
+  });
+
+  it('includes the reason of a plain revert', () => {
+    const decoded = decodeClaimError(callException(revertString('Claims are closed')));
+    expect(decoded.kind).to.equal('contract');
+    expect(decoded.code).to.equal('Error');
+    expect(decoded.message).to.contain('Claims are closed');
+    expect(formatClaimError(decoded)).not.to.contain('undefined');
+  });
+
+  it('describes panics', () => {
+    const decoded = decodeClaimError(callException(panic(0x11)));
+    expect(decoded.code).to.equal('Panic');
+    expect(decoded.message).to.contain('0x11');
+  });
+
+  it('falls back to the call exception for unknown selectors', () => {
+    const decoded = decodeClaimError(callException('0xdeadbeef'));
+    expect(decoded.code).to.equal('CallException');
+    expect(decoded.title).to.equal('Transaction would fail');
+    expect(decoded.message).to.contain('execution reverted');
+  });
+
+  it('recognises wallet rejections, missing gas funds and network failures', () => {
+    expect(decodeClaimError({ code: 'ACTION_REJECTED', message: 'user rejected action' }).kind).to.equal('rejected');
+    expect(decodeClaimError({ error: { code: 4001, message: 'User denied' } }).kind).to.equal('rejected');
+    expect(decodeClaimError({ code: 'INSUFFICIENT_FUNDS', message: 'insufficient funds' }).kind).to.equal('insufficient-funds');
+    expect(decodeClaimError(new Error('insufficient funds for gas * price + value')).kind).to.equal('insufficient-funds');
+    expect(decodeClaimError({ code: 'TIMEOUT', message: 'timeout' }).kind).to.equal('network');
+    expect(decodeClaimError(new TypeError('Failed to fetch')).kind).to.equal('network');
+  });
+
+  it('names the expected network for wrong network errors', () => {
+    const decoded = decodeClaimError(new WrongNetworkError(5, 8453));
+    expect(decoded.kind).to.equal('wrong-network');
+    expect(decoded.message).to.contain('chain 5');
+    expect(decoded.action).to.contain('Base');
+  });
+
+  it('maps tracked transaction outcomes', () => {
+    expect(decodeClaimError(new ClaimTransactionError('failed', '0x01')).code).to.equal('TransactionReverted');
+    expect(decodeClaimError(new ClaimTransactionError('cancelled', '0x01')).kind).to.equal('rejected');
+    expect(decodeClaimError(new ClaimTransactionError('dropped', '0x01')).kind).to.equal('network');
+  });
+
+  it('keeps the original message for anything else', () => {
+    const decoded = decodeClaimError(new Error('boom'));
+    expect(decoded.kind).to.equal('unknown');
+    expect(decoded.message).to.equal('boom');
+  });
+});
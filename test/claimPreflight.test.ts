@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import { runClaimPreflight } from '../lib/claimPreflight';
+
+describe('runClaimPreflight', () => {
+  async function deployAirdrop() {
+    const [, alice, bob] = await ethers.getSigners();
+    const amount = ethers.parseEther('100');
+    const builder = new AirdropTreeBuilder();
+    builder.addWei(alice.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const claimPeriodEnd = (await time.latest()) + 30 * 24 * 60 * 60;
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      claimPeriodEnd,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+
+    const claim = { recipient: alice.address, amount, proof: tree.getProof(0), relayed: false };
+    return { airdrop, alice, bob, claim, claimPeriodEnd, contractAddress: await airdrop.getAddress() };
+  }
+
+  it('estimates the fee of a claim that would go through', async () => {
+    const { alice, bob, claim, contractAddress } = await loadFixture(deployAirdrop);
+
+    const preflight = await runClaimPreflight(alice, contractAddress, claim);
+    expect(preflight?.blocker).to.equal(null);
+    expect(preflight?.gasCost).to.be.a('bigint').and.to.be.greaterThan(0n);
+
+    const toBob = await runClaimPreflight(alice, contractAddress, { ...claim, recipient: bob.address });
+    expect(toBob?.blocker).to.equal(null);
+  });
+
+  it('leaves out the fee when the relayer pays it', async () => {
+    const { alice, claim, contractAddress } = await loadFixture(deployAirdrop);
+    expect(await runClaimPreflight(alice, contractAddress, { ...claim, relayed: true })).to.deep.equal({ blocker: null });
+  });
+
+  it('blocks a claim with the reason it would revert', async () => {
+    const { airdrop, alice, bob, claim, claimPeriodEnd, contractAddress } = await loadFixture(deployAirdrop);
+
+    expect((await runClaimPreflight(alice, contractAddress, { ...claim, amount: claim.amount + 1n }))?.blocker?.code).to.equal('InvalidProof');
+    expect((await runClaimPreflight(bob, contractAddress, { ...claim, recipient: bob.address }))?.blocker?.code).to.equal('InvalidProof');
+
+    await airdrop.connect(alice).claimTokens(claim.amount, claim.proof);
+    const claimed = await runClaimPreflight(alice, contractAddress, { ...claim, relayed: true });
+    expect(claimed?.blocker).to.include({ kind: 'contract', code: 'AlreadyClaimed' });
+
+    await time.increaseTo(claimPeriodEnd + 1);
+    expect((await runClaimPreflight(bob, contractAddress, claim))?.blocker?.code).to.equal('ClaimPeriodEnded');
+  });
+
+  it('does not block claiming when the check itself fails', async () => {
+    const { alice, claim, contractAddress } = await loadFixture(deployAirdrop);
+    const unreachable = new ethers.JsonRpcProvider('http://127.0.0.1:9', 31337, { staticNetwork: true });
+    const error = console.error;
+    console.error = () => {};
+    try {
+      expect(await runClaimPreflight(new ethers.VoidSigner(alice.address, unreachable), contractAddress, claim)).to.equal(null);
+    } finally {
+      console.error = error;
+    }
+  });
+});
@@ -0,0 +1,212 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, mine, time } from '@nomicfoundation/hardhat-network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import {
+  ClaimTrackerOptions,
+  ClaimTrackingUpdate,
+  PendingClaim,
+  clearPendingClaim,
+  loadPendingClaim,
+  savePendingClaim,
+  watchClaim
+} from '../lib/claimTracker';
+
+describe('claimTracker', () => {
+  async function deployAirdrop() {
+    const [, alice, bob] = await ethers.getSigners();
+    const allocations = [
+      { signer: alice, amount: ethers.parseEther('100') },
+      { signer: bob, amount: ethers.parseEther('250') }
+    ];
+
+    const builder = new AirdropTreeBuilder();
+    for (const { signer, amount } of allocations) builder.addWei(signer.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      (await time.latest()) + 30 * 24 * 60 * 60,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+
+    const claimOf = (signer: HardhatEthersSigner) => {
+      const index = allocations.findIndex(allocation => allocation.signer === signer);
+      return { amount: allocations[index].amount, proof: tree.getProof(index) };
+    };
+    const { chainId } = await ethers.provider.getNetwork();
+    const pendingClaim = async (claimer: HardhatEthersSigner, hash: string, extra: Partial<PendingClaim> = {}): Promise<PendingClaim> => ({
+      hash,
+      chainId: Number(chainId),
+      claimer: claimer.address,
+      recipient: claimer.address,
+      contractAddress: await airdrop.getAddress(),
+      relayed: false,
+      startBlock: await ethers.provider.getBlockNumber(),
+      submittedAt: Date.now(),
+      ...extra
+    });
+
+    return { airdrop, claimOf, pendingClaim, alice, bob };
+  }
+
+  // Collect updates until the tracker reports a final status
+  const watchUntilSettled = (
+    claim: PendingClaim,
+    options: ClaimTrackerOptions = {},
+    onUpdate: (update: ClaimTrackingUpdate) => Promise<void> | void = () => {}
+  ) =>
+    new Promise<ClaimTrackingUpdate[]>((resolve, reject) => {
+      const updates: ClaimTrackingUpdate[] = [];
+      watchClaim(ethers.provider, claim, update => {
+        updates.push(update);
+        if (update.status === 'pending' || update.status === 'confirming') {
+          Promise.resolve(onUpdate(update)).catch(reject);
+        } else {
+          resolve(updates);
+        }
+      }, { pollIntervalMs: 10, ...options });
+    });
+
+  afterEach(async () => {
+    await ethers.provider.send('evm_setAutomine', [true]);
+  });
+
+  describe('watchClaim', () => {
+    it('reports confirmations until the claim is confirmed', async () => {
+      const { airdrop, alice, claimOf, pendingClaim } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(alice);
+      const tx = await airdrop.connect(alice).claimTokens(amount, proof);
+
+      const updates = await watchUntilSettled(await pendingClaim(alice, tx.hash), { confirmations: 3 }, () => mine());
+      expect(updates.map(update => [update.status, update.confirmations])).to.deep.equal([
+        ['confirming', 1],
+        ['confirming', 2],
+        ['confirmed', 3]
+      ]);
+      expect(updates.every(update => update.hash === tx.hash && !update.replaced)).to.equal(true);
+    });
+
+    it('reports a reverted claim as failed', async () => {
+      const { airdrop, alice, claimOf, pendingClaim } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(alice);
+
+      await ethers.provider.send('evm_setAutomine', [false]);
+      const tx = await airdrop.connect(alice).claimTokens(amount * 2n, proof, { gasLimit: 300_000 });
+      await mine();
+
+      const updates = await watchUntilSettled(await pendingClaim(alice, tx.hash), { confirmations: 1 });
+      expect(updates).to.deep.equal([{ status: 'failed', hash: tx.hash, confirmations: 1, replaced: false }]);
+    });
+
+    it('follows a claim that landed in another transaction', async () => {
+      const { airdrop, bob, claimOf, pendingClaim } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(bob);
+
+      // The tracked hash was never mined, but the claim went through anyway
+      const claim = await pendingClaim(bob, ethers.hexlify(ethers.randomBytes(32)));
+      const tx = await airdrop.connect(bob).claimTokens(amount, proof);
+
+      const updates = await watchUntilSettled(claim, { confirmations: 1 });
+      expect(updates).to.deep.equal([{ status: 'confirmed', hash: tx.hash, confirmations: 1, replaced: true }]);
+    });
+
+    it('reports a claim whose nonce was used by another transaction as cancelled', async () => {
+      const { airdrop, alice, claimOf, pendingClaim } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(alice);
+      const nonce = await alice.getNonce();
+      const fees = { maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'), maxFeePerGas: ethers.parseUnits('10', 'gwei') };
+
+      await ethers.provider.send('evm_setAutomine', [false]);
+      const tx = await airdrop.connect(alice).claimTokens(amount, proof, { nonce, gasLimit: 300_000, ...fees });
+      const claim = await pendingClaim(alice, tx.hash, { from: tx.from, nonce: tx.nonce });
+
+      // The wallet replaces the claim with a zero-value transfer at the same nonce
+      await alice.sendTransaction({ to: alice.address, nonce, maxPriorityFeePerGas: fees.maxPriorityFeePerGas * 2n, maxFeePerGas: fees.maxFeePerGas * 2n });
+      await mine();
+
+      const updates = await watchUntilSettled(claim);
+      expect(updates).to.deep.equal([{ status: 'cancelled', hash: tx.hash, confirmations: 0, replaced: true }]);
+    });
+
+    it('reports a transaction no node knows about as dropped', async () => {
+      const { alice, pendingClaim } = await loadFixture(deployAirdrop);
+      const claim = await pendingClaim(alice, ethers.hexlify(ethers.randomBytes(32)), { submittedAt: Date.now() - 1_000 });
+
+      const updates = await watchUntilSettled(claim, { droppedAfterMs: 500 });
+      expect(updates.map(update => update.status)).to.deep.equal(['dropped']);
+    });
+
+    it('stops reporting once stopped', async () => {
+      const { airdrop, alice, claimOf, pendingClaim } = await loadFixture(deployAirdrop);
+      const { amount, proof } = claimOf(alice);
+
+      await ethers.provider.send('evm_setAutomine', [false]);
+      const tx = await airdrop.connect(alice).claimTokens(amount, proof, { gasLimit: 300_000 });
+
+      const claim = await pendingClaim(alice, tx.hash);
+      const updates: ClaimTrackingUpdate[] = [];
+      await new Promise<void>(resolve => {
+        const stop = watchClaim(ethers.provider, claim, update => {
+          updates.push(update);
+          stop();
+          resolve();
+        }, { pollIntervalMs: 10 });
+      });
+      await mine();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(updates).to.deep.equal([{ status: 'pending', hash: tx.hash, confirmations: 0, replaced: false }]);
+    });
+  });
+
+  describe('pending claims', () => {
+    const { localStorage: storage } = globalThis;
+
+    beforeEach(() => {
+      const items = new Map<string, string>();
+      globalThis.localStorage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value)
+      } as Storage;
+    });
+
+    afterEach(() => {
+      globalThis.localStorage = storage;
+    });
+
+    it('keeps one pending claim per chain and claimer', async () => {
+      const { alice, bob, pendingClaim } = await loadFixture(deployAirdrop);
+      const aliceClaim = await pendingClaim(alice, '0x' + '11'.repeat(32));
+      const bobClaim = await pendingClaim(bob, '0x' + '22'.repeat(32));
+      savePendingClaim(aliceClaim);
+      savePendingClaim(bobClaim);
+
+      expect(loadPendingClaim(aliceClaim.chainId, alice.address.toLowerCase())).to.deep.equal(aliceClaim);
+      expect(loadPendingClaim(BigInt(bobClaim.chainId), bob.address)).to.deep.equal(bobClaim);
+      expect(loadPendingClaim(1, alice.address)).to.equal(null);
+
+      clearPendingClaim(aliceClaim.chainId, alice.address);
+      expect(loadPendingClaim(aliceClaim.chainId, alice.address)).to.equal(null);
+      expect(loadPendingClaim(bobClaim.chainId, bob.address)).to.deep.equal(bobClaim);
+    });
+
+    it('treats unreadable or unavailable storage as empty', async () => {
+      const { alice, pendingClaim } = await loadFixture(deployAirdrop);
+      globalThis.localStorage.setItem('paycrypt-airdrop:pending-claims', 'not json');
+      expect(loadPendingClaim(31337, alice.address)).to.equal(null);
+
+      // Private browsing can refuse writes; the claim is then only tracked in memory
+      globalThis.localStorage.setItem = () => {
+        throw new Error('QuotaExceededError');
+      };
+      const claim = await pendingClaim(alice, '0x' + '11'.repeat(32));
+      expect(() => savePendingClaim(claim)).not.to.throw();
+      expect(() => clearPendingClaim(claim.chainId, alice.address)).not.to.throw();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { loadCampaign } from '../scripts/campaigns';
+import { DeployOptions, deployCampaign } from '../scripts/deploy';
+
+describe('deployCampaign', () => {
+  const log = console.log;
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-deploy-'));
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = log;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function generateCampaign(options: Parameters<typeof generateAirdropData>[1] = {}) {
+    const [, alice, bob] = await ethers.getSigners();
+    await generateAirdropData(
+      [
+        { address: alice.address, amount: '100' },
+        { address: bob.address, amount: '250' }
+      ],
+      { dataDir, ...options, campaign: { id: 'season-1', ...options.campaign } }
+    );
+  }
+
+  const refuses = (options: DeployOptions, message: string) =>
+    deployCampaign({ dataDir, campaign: 'season-1', ...options }).then(
+      () => expect.fail(`expected "${message}"`),
+      err => expect(err.message).to.contain(message)
+    );
+
+  it('deploys, funds and records a campaign', async () => {
+    await generateCampaign();
+    const deployment = await deployCampaign({ dataDir, campaign: 'season-1', networkName: 'localhost' });
+
+    const airdrop = await ethers.getContractAt('PayCryptAirdrop', deployment.contractAddress);
+    const token = await ethers.getContractAt('PayCryptToken', deployment.tokenAddress);
+    expect(await token.balanceOf(deployment.contractAddress)).to.equal(ethers.parseEther('350'));
+    expect(await airdrop.totalClaimable()).to.equal(ethers.parseEther('350'));
+    expect(loadCampaign(dataDir, 'season-1')?.deployment).to.deep.equal(deployment);
+    expect(fs.existsSync(path.join(dataDir, 'season-1', 'deployments', 'localhost.json'))).to.equal(true);
+  });
+
+  it('does not record a deployment on the in-process network', async () => {
+    await generateCampaign();
+    await deployCampaign({ dataDir, campaign: 'season-1' });
+    expect(fs.existsSync(path.join(dataDir, 'season-1', 'deployments'))).to.equal(false);
+  });
+
+  it('refuses standard leaves, which the contract cannot verify', async () => {
+    await generateCampaign({ leafEncoding: 'standard' });
+    await refuses({}, 'PayCryptAirdrop verifies packed leaves, but this campaign uses "standard" leaves');
+  });
+
+  it('refuses a network on another chain than the campaign targets', async () => {
+    await generateCampaign({ campaign: { chainId: 8453 } });
+    await refuses({ networkName: 'base-testnet' }, 'Campaign targets chain 8453, but base-testnet is chain 31337');
+  });
+
+  it('refuses a network the campaign is already deployed on unless asked to redeploy', async () => {
+    await generateCampaign();
+    const first = await deployCampaign({ dataDir, campaign: 'season-1', networkName: 'localhost' });
+    await refuses({ networkName: 'localhost' }, `Campaign is already deployed on localhost at ${first.contractAddress}`);
+
+    const second = await deployCampaign({ dataDir, campaign: 'season-1', networkName: 'localhost', redeploy: true });
+    expect(second.contractAddress).not.to.equal(first.contractAddress);
+  });
+
+  it('refuses to deploy when the deployer cannot fund the airdrop', async () => {
+    await generateCampaign();
+    const [deployer, , , holder] = await ethers.getSigners();
+    const token = await ethers.deployContract('PayCryptToken');
+    await token.transfer(holder.address, (await token.balanceOf(deployer.address)) - ethers.parseEther('300'));
+    const tokenAddress = await token.getAddress();
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+    await refuses({ tokenAddress }, 'Deployer holds 300 tokens but the airdrop needs 350');
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+
+    // Left to the token holder, the airdrop is deployed without funds
+    const deployment = await deployCampaign({ dataDir, campaign: 'season-1', tokenAddress, skipFunding: true });
+    expect(await token.balanceOf(deployment.contractAddress)).to.equal(0n);
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { diffSnapshots, loadSnapshot, parseDiffArgs, runDiff } from '../scripts/diff-airdrop';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const DAVE = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+
+describe('airdrop diff', () => {
+  let dir: string;
+  let oldFile: string;
+  let newFile: string;
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-diff-'));
+    oldFile = write('old.csv', `address,amount\n${ALICE},100\n${BOB},250\n${CAROL},75\n`);
+    newFile = write('new.csv', `address,amount\n${ALICE},100\n${BOB.toLowerCase()},300\n${DAVE},1.5\n`);
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('lists added, removed and changed addresses with exact deltas', async () => {
+    const diff = diffSnapshots(await loadSnapshot(oldFile), await loadSnapshot(newFile));
+
+    expect(diff.rootChanged).to.equal(true);
+    expect(diff.added).to.deep.equal([{ address: DAVE, amountWei: '1500000000000000000', reason: undefined }]);
+    expect(diff.removed).to.deep.equal([{ address: CAROL, amountWei: '75000000000000000000', reason: undefined }]);
+    expect(diff.changed).to.deep.equal([{
+      address: BOB,
+      oldAmountWei: '250000000000000000000',
+      newAmountWei: '300000000000000000000',
+      deltaWei: '50000000000000000000'
+    }]);
+    expect(diff.unchanged).to.equal(1);
+    expect(diff.totalDeltaWei).to.equal('-23500000000000000000');
+  });
+
+  it('compares generator output with the input it was built from', async () => {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      const result = await generateAirdropData(
+        [{ address: ALICE, amount: '100' }, { address: BOB, amount: '250' }, { address: CAROL, amount: '75' }],
+        { dataDir: dir, campaign: { id: 'season-1' } }
+      );
+      const detailed = await loadSnapshot(path.join(result.outputDir, 'eligible-users-detailed.json'));
+      const diff = diffSnapshots(detailed, await loadSnapshot(oldFile));
+
+      expect(detailed.kind).to.equal('detailed');
+      expect(detailed.merkleRoot).to.equal(result.merkleRoot);
+      expect(diff.rootChanged).to.equal(false);
+      expect(diff.unchanged).to.equal(3);
+    } finally {
+      console.log = log;
+    }
+  });
+
+  it('warns about changes for addresses that already claimed', async () => {
+    const claimedFile = write('claimed.txt', `${BOB.toLowerCase()}\n${ALICE}\n`);
+    const outFile = path.join(dir, 'diff.json');
+    const diff = await runDiff(parseDiffArgs([oldFile, newFile, '--claimed', claimedFile, '--out', outFile]));
+
+    // Alice's amount did not change, so only Bob's claim is a problem
+    expect(diff.warnings).to.have.length(1);
+    expect(diff.warnings[0].address).to.equal(BOB);
+    expect(JSON.parse(fs.readFileSync(outFile, 'utf8')).warnings).to.deep.equal(diff.warnings);
+  });
+
+  it('rejects inputs that fail validation and bad usage', async () => {
+    const invalid = write('invalid.csv', `address,amount\n${ALICE},100\n${ALICE},5\n`);
+    await loadSnapshot(invalid).then(
+      () => expect.fail('expected a validation error'),
+      err => expect(err.message).to.contain('validation error')
+    );
+    expect((await loadSnapshot(invalid, { duplicates: 'merge' })).totalWei).to.equal(105n * 10n ** 18n);
+    expect(() => parseDiffArgs([oldFile])).to.throw('Usage');
+  });
+});
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EligibilityInputError,
+  loadEligibilityRecords,
+  loadEligibleUsers,
+  parseColumnMapping,
+  streamJsonElements
+} from '../scripts/eligibility-input';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('eligibility input files', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const expectInputError = (promise: Promise<unknown>, line: number, message: RegExp) =>
+    promise.then(
+      () => expect.fail('expected EligibilityInputError'),
+      err => {
+        expect(err).to.be.instanceOf(EligibilityInputError);
+        expect(err.line).to.equal(line);
+        expect(err.message).to.match(message);
+      }
+    );
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-input-'));
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  describe('CSV', () => {
+    it('reads rows with quoted fields, comments and blank lines', async () => {
+      const file = write('list.csv', [
+        '\uFEFFAddress,Amount,Reason',
+        '# early users',
+        `${ALICE},100,"Beta tester, round 1"`,
+        '',
+        `${BOB}, 250.5 ,"Said ""hi""`,
+        'on two lines"'
+      ].join('\n'));
+
+      const records = await loadEligibilityRecords(file);
+      expect(records).to.deep.equal([
+        { user: { address: ALICE, amount: '100', reason: 'Beta tester, round 1' }, line: 3 },
+        { user: { address: BOB, amount: '250.5', reason: 'Said "hi"\non two lines' }, line: 5 }
+      ]);
+    });
+
+    it('maps custom columns and delimiters', async () => {
+      const file = write('custom.txt', `wallet;tokens\n${ALICE};42\n`);
+      const users = await loadEligibleUsers(file, {
+        format: 'csv',
+        delimiter: ';',
+        columns: parseColumnMapping('address=wallet,amount=tokens')
+      });
+      expect(users).to.deep.equal([{ address: ALICE, amount: '42' }]);
+    });
+
+    it('points at the line of malformed rows', async () => {
+      await expectInputError(loadEligibleUsers(write('short.csv', `address,amount\n${ALICE},1\n${BOB}\n`)), 3, /expected 2 columns/);
+      await expectInputError(loadEligibleUsers(write('header.csv', `wallet,amount\n${ALICE},1\n`)), 1, /no "address" column/);
+      await expectInputError(loadEligibleUsers(write('amount.csv', `address,amount\n${ALICE},\n`)), 2, /missing amount/);
+    });
+  });
+
+  describe('JSON', () => {
+    it('streams an array of objects with their line numbers', async () => {
+      const file = write('list.json', JSON.stringify([
+        { address: ALICE, amount: '100' },
+        { address: BOB, amount: 250, reason: 'Contributor' }
+      ], null, 2));
+
+      const records = await loadEligibilityRecords(file);
+      expect(records).to.deep.equal([
+        { user: { address: ALICE, amount: '100' }, line: 2 },
+        { user: { address: BOB, amount: '250', reason: 'Contributor' }, line: 6 }
+      ]);
+    });
+
+    it('streams the values of a top-level object with their keys', async () => {
+      const file = write('rules.json', `{ "a": { "x": 1 }, "b \\"quoted\\"": { "y": [2] } }`);
+      const elements = [];
+      for await (const element of streamJsonElements(file, 'object')) elements.push(element);
+      expect(elements).to.deep.equal([
+        { key: 'a', value: { x: 1 }, line: 1 },
+        { key: 'b "quoted"', value: { y: [2] }, line: 1 }
+      ]);
+    });
+
+    it('rejects amounts that lose precision as numbers and truncated files', async () => {
+      await expectInputError(loadEligibleUsers(write('big.json', `[{"address":"${ALICE}","amount":1e21}]`)), 1, /quote it as a string/);
+      await expectInputError(loadEligibleUsers(write('cut.json', `[\n{"address":"${ALICE}","amount":"1"},\n`)), 3, /unexpected end of file/);
+      await expectInputError(loadEligibleUsers(write('scalar.json', '[1]')), 1, /unexpected "1"/);
+    });
+  });
+
+  it('requires a known format and an existing file', async () => {
+    const rejection = (promise: Promise<unknown>) =>
+      promise.then(() => expect.fail('expected an error'), (err: Error) => err.message);
+
+    expect(await rejection(loadEligibleUsers(path.join(dir, 'missing.csv')))).to.contain('Input file not found');
+    expect(await rejection(loadEligibleUsers(write('list.yaml', '')))).to.contain('Cannot detect input format');
+    expect(() => parseColumnMapping('wallet=address')).to.throw('Invalid column mapping');
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import { SUPPORTED_CHAINS } from '../lib/chains';
+import { AddressInputError } from '../lib/addressInput';
+import {
+  LookupSource,
+  fetchClaimData,
+  getSharedLookupUrl,
+  lookUpEligibility,
+  readSharedAddress
+} from '../lib/eligibilityLookup';
+
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+describe('eligibilityLookup', () => {
+  const { fetch } = globalThis;
+  afterEach(() => {
+    globalThis.fetch = fetch;
+  });
+
+  async function deployAirdrop() {
+    const [, alice, bob] = await ethers.getSigners();
+    const amount = ethers.parseEther('100');
+    const builder = new AirdropTreeBuilder();
+    builder.addWei(alice.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      (await time.latest()) + 30 * 24 * 60 * 60,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+
+    const source: LookupSource = {
+      deployment: { chain: SUPPORTED_CHAINS[0], contractAddress: await airdrop.getAddress() },
+      provider: ethers.provider,
+      round: 'season-1'
+    };
+    const claim = { address: alice.address, amount: amount.toString(), proof: tree.getProof(0), reason: 'early user' };
+    return { airdrop, alice, bob, tree, source, claim };
+  }
+
+  // The proof API, answering for alice only
+  const serveProofs = (claim: { address: string }, requests: string[] = []) => {
+    globalThis.fetch = (async (url: string) => {
+      requests.push(url);
+      return url.startsWith(`/api/proof/${claim.address}?`)
+        ? new Response(JSON.stringify(claim), { status: 200 })
+        : new Response(JSON.stringify({ error: 'Address not eligible' }), { status: 404 });
+    }) as typeof fetch;
+    return requests;
+  };
+
+  it('asks the proof API for the round and the root the contract verifies', async () => {
+    const { alice, tree, source, claim } = await loadFixture(deployAirdrop);
+    const requests = serveProofs(claim);
+
+    expect(await fetchClaimData(alice.address, source)).to.deep.equal(claim);
+    expect(requests).to.deep.equal([`/api/proof/${alice.address}?round=season-1&root=${tree.root}`]);
+  });
+
+  it('reports the allocation and the on-chain claim status', async () => {
+    const { airdrop, alice, bob, source, claim } = await loadFixture(deployAirdrop);
+    serveProofs(claim);
+
+    const unclaimed = await lookUpEligibility(alice.address.toLowerCase(), source);
+    expect(unclaimed).to.deep.equal({
+      address: alice.address,
+      claim,
+      status: { claimed: false, amount: '0', canStillClaim: true },
+      network: 'Base'
+    });
+
+    await airdrop.connect(alice).claimTokens(claim.amount, claim.proof);
+    expect((await lookUpEligibility(alice.address, source)).status).to.deep.equal({
+      claimed: true,
+      amount: claim.amount,
+      canStillClaim: false
+    });
+
+    expect((await lookUpEligibility(bob.address, source)).claim).to.equal(null);
+  });
+
+  it('keeps the allocation when the claim status cannot be read', async () => {
+    const { alice, source, claim } = await loadFixture(deployAirdrop);
+    serveProofs(claim);
+    const error = console.error;
+    console.error = () => {};
+    try {
+      const lookup = await lookUpEligibility(alice.address, { ...source, deployment: { ...source.deployment, contractAddress: CAROL } });
+      expect(lookup.claim).to.deep.equal(claim);
+      expect(lookup.status).to.equal(null);
+    } finally {
+      console.error = error;
+    }
+  });
+
+  it('rejects malformed input before fetching anything', async () => {
+    const { source, claim } = await loadFixture(deployAirdrop);
+    const requests = serveProofs(claim);
+
+    await lookUpEligibility('0x1234', source).then(
+      () => expect.fail('expected the input to be rejected'),
+      err => expect(err).to.be.instanceOf(AddressInputError)
+    );
+    expect(requests).to.deep.equal([]);
+  });
+
+  it('reads shared links and checks them before any lookup', () => {
+    expect(readSharedAddress('')).to.equal(null);
+    expect(readSharedAddress('?round=season-1')).to.equal(null);
+    expect(readSharedAddress(`?address=${CAROL}`)).to.deep.equal({ input: CAROL });
+    expect(readSharedAddress('?address=carol.eth')).to.deep.equal({ input: 'carol.eth' });
+
+    expect(readSharedAddress('?address=0x1234')).to.deep.equal({ input: '0x1234', error: 'Not a valid address or ENS name' });
+    expect(readSharedAddress('?address=')).to.deep.equal({ input: '', error: 'Enter an address or ENS name' });
+    expect(readSharedAddress(`?address=${CAROL.replace('F79', 'f79')}`)?.error).to.equal(
+      'Address checksum does not match, check it for typos'
+    );
+  });
+
+  it('points shared links at the ENS name when there is one', () => {
+    expect(getSharedLookupUrl('https://airdrop.test/?address=old.eth#faq', { address: CAROL })).to.equal(
+      `https://airdrop.test/?address=${CAROL}#faq`
+    );
+    expect(getSharedLookupUrl('https://airdrop.test/?round=season-1', { address: CAROL, ensName: 'carol.eth' })).to.equal(
+      'https://airdrop.test/?round=season-1&address=carol.eth'
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import {
+  AirdropTreeBuilder,
+  BuildProgress,
+  computeLeaf,
+  processProof,
+  verifyMerkleProof
+} from '../scripts/merkle-builder';
+
+// Deterministic addresses and amounts for trees of any size
+const entryAt = (i: number) => ({
+  address: ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(i + 1), 20)),
+  amountWei: BigInt(i + 1) * 10n ** 15n
+});
+
+// Straightforward sorted-pair tree (merkletreejs with sortPairs) to compare against
+const referenceRoot = (leaves: string[]): string => {
+  let layer = leaves;
+  while (layer.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 === layer.length ? layer[i] : processProof(layer[i], [layer[i + 1]]));
+    }
+    layer = next;
+  }
+  return layer[0];
+};
+
+const build = (count: number, leafEncoding: 'packed' | 'standard' = 'packed') => {
+  const builder = new AirdropTreeBuilder({ leafEncoding });
+  for (let i = 0; i < count; i++) builder.addWei(entryAt(i).address, entryAt(i).amountWei);
+  return builder.build();
+};
+
+describe('AirdropTreeBuilder', () => {
+  it('matches a sorted-pair reference tree for odd and even sizes', () => {
+    for (const count of [1, 2, 3, 4, 5, 7, 8, 13, 33]) {
+      const tree = build(count);
+      const leaves = Array.from({ length: count }, (_, i) => computeLeaf(entryAt(i).address, entryAt(i).amountWei));
+      expect(tree.root, `${count} entries`).to.equal(referenceRoot(leaves));
+    }
+  });
+
+  it('returns a valid proof for every entry in both layouts', () => {
+    for (const leafEncoding of ['packed', 'standard'] as const) {
+      for (const count of [1, 6, 17]) {
+        const tree = build(count, leafEncoding);
+        for (let i = 0; i < count; i++) {
+          const { address, amountWei } = entryAt(i);
+          const leaf = computeLeaf(address, amountWei, leafEncoding);
+          expect(tree.leaf(i)).to.equal(leaf);
+          expect(verifyMerkleProof(tree.root, leaf, tree.getProof(i)), `${leafEncoding} ${i}/${count}`).to.equal(true);
+          expect(tree.indexOf(address.toLowerCase(), amountWei)).to.equal(i);
+        }
+        expect(tree.indexOf(entryAt(0).address, 1n)).to.equal(-1);
+      }
+    }
+  });
+
+  it('keeps entries, reasons and totals in input order', () => {
+    const builder = new AirdropTreeBuilder({ decimals: 6 });
+    builder.add({ address: entryAt(0).address, amount: '1.5', reason: 'Beta tester' });
+    builder.add({ address: entryAt(1).address, amount: '2' });
+    builder.add({ address: entryAt(2).address, amount: '3', reason: 'Beta tester' });
+    const tree = builder.build();
+
+    expect(Array.from(tree.entries())).to.deep.equal([
+      { index: 0, address: entryAt(0).address, amountWei: 1_500_000n, reason: 'Beta tester' },
+      { index: 1, address: entryAt(1).address, amountWei: 2_000_000n },
+      { index: 2, address: entryAt(2).address, amountWei: 3_000_000n, reason: 'Beta tester' }
+    ]);
+    expect(tree.totalWei).to.equal(6_500_000n);
+    expect(tree.height).to.equal(2);
+  });
+
+  it('reports progress for leaves and nodes', () => {
+    const updates: BuildProgress[] = [];
+    const builder = new AirdropTreeBuilder({ onProgress: progress => updates.push(progress) });
+    for (let i = 0; i < 5; i++) builder.addWei(entryAt(i).address, entryAt(i).amountWei);
+    builder.build();
+
+    expect(updates).to.deep.include({ phase: 'leaves', done: 5, total: 5 });
+    expect(updates[updates.length - 1].phase).to.equal('nodes');
+  });
+
+  it('rejects entries the contract could not verify', () => {
+    const builder = new AirdropTreeBuilder();
+    expect(() => builder.build()).to.throw('without entries');
+    expect(() => builder.addWei('0x1234', 1n)).to.throw('Invalid address');
+    expect(() => builder.addWei(entryAt(0).address, -1n)).to.throw('does not fit in uint256');
+    expect(() => builder.addWei(entryAt(0).address, 2n ** 256n)).to.throw('does not fit in uint256');
+    expect(() => build(3, 'packed').standardNodes().next()).to.throw('only available with the "standard" leaf encoding');
+  });
+});
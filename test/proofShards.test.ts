@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { AirdropTreeBuilder, computeLeaf, verifyMerkleProof } from '../scripts/merkle-builder';
+import { writeProofShards } from '../scripts/proof-shards';
+import { fetchClaimFromShards, getShardKey } from '../lib/proofShards';
+
+const USERS = [
+  { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '100', reason: 'Beta tester' },
+  { address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', amount: '250' },
+  { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', amount: '75' },
+  { address: '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65', amount: '1' }
+];
+
+describe('proof shards', () => {
+  let dir: string;
+  const { fetch } = globalThis;
+  const tree = (() => {
+    const builder = new AirdropTreeBuilder();
+    USERS.forEach(user => builder.add(user));
+    return builder.build();
+  })();
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-shards-'));
+  });
+
+  after(() => {
+    globalThis.fetch = fetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('derives shard keys from the address or its hash', () => {
+    const [{ address }] = USERS;
+    expect(getShardKey(address, 'prefix', 2)).to.equal('70');
+    expect(getShardKey(address.toLowerCase(), 'prefix', 3)).to.equal('709');
+    expect(getShardKey(address, 'hash', 4)).to.equal(ethers.keccak256(address.toLowerCase()).slice(2, 6));
+  });
+
+  it('writes one file per shard and a manifest', async () => {
+    const shardDir = path.join(dir, 'prefix');
+    fs.mkdirSync(shardDir);
+    fs.writeFileSync(path.join(shardDir, 'ff.json'), '{}');
+    fs.writeFileSync(path.join(shardDir, 'README.md'), 'kept');
+
+    const manifest = await writeProofShards(tree, shardDir, { keyLength: 1 });
+    expect(manifest).to.include({ merkleRoot: tree.root, keyType: 'prefix', keyLength: 1, totalUsers: 4 });
+    expect(manifest.shards).to.deep.equal({
+      '1': { file: '1.json', entries: 1 },
+      '3': { file: '3.json', entries: 1 },
+      '7': { file: '7.json', entries: 1 },
+      '9': { file: '9.json', entries: 1 }
+    });
+
+    // Stale shards are replaced, unrelated files are left alone
+    expect(fs.readdirSync(shardDir).sort()).to.deep.equal(['1.json', '3.json', '7.json', '9.json', 'README.md', 'index.json']);
+
+    const shard = JSON.parse(fs.readFileSync(path.join(shardDir, '7.json'), 'utf8'));
+    expect(shard[USERS[0].address.toLowerCase()]).to.deep.equal({
+      amount: ethers.parseEther('100').toString(),
+      proof: tree.getProof(0),
+      reason: 'Beta tester'
+    });
+  });
+
+  it('rejects key lengths outside 1 to 6', async () => {
+    for (const keyLength of [0, 7, 1.5]) {
+      await writeProofShards(tree, path.join(dir, 'bad'), { keyLength }).then(
+        () => expect.fail(`expected key length ${keyLength} to be rejected`),
+        err => expect(err.message).to.contain('Shard key length')
+      );
+    }
+  });
+
+  it('looks up a claim by fetching only its shard', async () => {
+    const shardDir = path.join(dir, 'hash');
+    await writeProofShards(tree, shardDir, { keyType: 'hash', keyLength: 2 });
+
+    const requested: string[] = [];
+    globalThis.fetch = (async (url: string) => {
+      requested.push(url);
+      const file = path.join(shardDir, url.replace('https://proofs.test/', ''));
+      return fs.existsSync(file) ? new Response(fs.readFileSync(file)) : new Response('', { status: 404 });
+    }) as typeof fetch;
+
+    const claim = await fetchClaimFromShards('https://proofs.test', USERS[1].address.toLowerCase());
+    const amountWei = ethers.parseEther('250');
+    expect(claim).to.include({ address: USERS[1].address, amount: amountWei.toString() });
+    expect(verifyMerkleProof(tree.root, computeLeaf(USERS[1].address, amountWei), claim!.proof)).to.equal(true);
+
+    const shardKey = getShardKey(USERS[1].address, 'hash', 2);
+    expect(requested).to.deep.equal(['https://proofs.test/index.json', `https://proofs.test/${shardKey}.json`]);
+
+    // The manifest is fetched once per base URL
+    expect(await fetchClaimFromShards('https://proofs.test', '0x0000000000000000000000000000000000000001')).to.equal(null);
+    expect(await fetchClaimFromShards('https://proofs.test', 'not-an-address')).to.equal(null);
+    expect(requested.filter(url => url.endsWith('index.json'))).to.have.length(1);
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NextRequest } from 'next/server';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { loadCampaign, recordDeployment } from '../scripts/campaigns';
+import { verifyMerkleProof, computeLeaf } from '../scripts/merkle-builder';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+describe('proof lookups', () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-proofs-'));
+  let firstRoot: string;
+  let secondRoot: string;
+
+  // The store and the route read AIRDROP_DATA_DIR when they are loaded
+  let proofStore: typeof import('../lib/proofStore');
+  let route: typeof import('../app/api/proof/[address]/route');
+
+  const get = (address: string, query = '') =>
+    route.GET(new NextRequest(`http://localhost/api/proof/${address}${query}`), { params: { address } });
+
+  before(async () => {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      const first = await generateAirdropData(
+        [{ address: ALICE, amount: '100' }, { address: BOB, amount: '250' }],
+        { dataDir, campaign: { id: 'season-1' } }
+      );
+      recordDeployment(dataDir, loadCampaign(dataDir, 'season-1')!, {
+        chainId: 8453,
+        contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        tokenAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+        deployer: ALICE,
+        merkleRoot: first.merkleRoot,
+        totalClaimable: '350000000000000000000',
+        claimPeriodEnd: new Date().toISOString(),
+        deployedAt: new Date().toISOString(),
+        blockNumber: 1,
+        transactionHash: '0x' + '11'.repeat(32)
+      });
+      const second = await generateAirdropData(
+        [{ address: ALICE, amount: '120' }, { address: BOB, amount: '250' }, { address: CAROL, amount: '75' }],
+        { dataDir, campaign: { id: 'season-1' } }
+      );
+      firstRoot = first.merkleRoot;
+      secondRoot = second.merkleRoot;
+    } finally {
+      console.log = log;
+    }
+
+    process.env.AIRDROP_DATA_DIR = dataDir;
+    process.env.AIRDROP_DEFAULT_ROUND = 'season-1';
+    proofStore = require('../lib/proofStore');
+    route = require('../app/api/proof/[address]/route');
+  });
+
+  after(() => {
+    delete process.env.AIRDROP_DATA_DIR;
+    delete process.env.AIRDROP_DEFAULT_ROUND;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('findClaim', () => {
+    it('returns the current version by default', async () => {
+      const claim = await proofStore.findClaim('season-1', ALICE);
+      expect(claim).to.include({ amount: '120000000000000000000', round: 'season-1', merkleRoot: secondRoot });
+      expect(verifyMerkleProof(secondRoot, computeLeaf(ALICE, BigInt(claim!.amount)), claim!.proof)).to.equal(true);
+    });
+
+    it('serves the archived version for the root the contract still verifies', async () => {
+      const claim = await proofStore.findClaim('season-1', ALICE, firstRoot);
+      expect(claim).to.include({ amount: '100000000000000000000', merkleRoot: firstRoot });
+      expect(verifyMerkleProof(firstRoot, computeLeaf(ALICE, BigInt(claim!.amount)), claim!.proof)).to.equal(true);
+
+      // Carol was only added in the second version
+      expect(await proofStore.findClaim('season-1', CAROL, firstRoot)).to.equal(null);
+      expect(await proofStore.findClaim('season-1', CAROL, secondRoot)).not.to.equal(null);
+    });
+
+    it('rejects roots and rounds it has no data for', async () => {
+      const unknownRoot = '0x' + 'ab'.repeat(32);
+      await proofStore.findClaim('season-1', ALICE, unknownRoot).then(
+        () => expect.fail('expected UnknownRootError'),
+        err => expect(err).to.be.instanceOf(proofStore.UnknownRootError)
+      );
+      await proofStore.findClaim('season-9', ALICE).then(
+        () => expect.fail('expected UnknownRoundError'),
+        err => expect(err).to.be.instanceOf(proofStore.UnknownRoundError)
+      );
+      await proofStore.findClaim('../etc', ALICE).then(
+        () => expect.fail('expected UnknownRoundError'),
+        err => expect(err).to.be.instanceOf(proofStore.UnknownRoundError)
+      );
+    });
+  });
+
+  describe('GET /api/proof/:address', () => {
+    it('lets CDNs cache answers for a root', async () => {
+      const response = await get(ALICE.toLowerCase(), `?root=${firstRoot}`);
+      expect(response.status).to.equal(200);
+      expect(response.headers.get('Cache-Control')).to.contain('s-maxage');
+      expect(response.headers.get('ETag')).to.equal(`"${firstRoot}"`);
+
+      const body = await response.json();
+      expect(body).to.include({ address: ALICE, amount: '100000000000000000000', merkleRoot: firstRoot });
+    });
+
+    it('keeps answers without a root out of shared caches', async () => {
+      const response = await get(ALICE);
+      expect(response.status).to.equal(200);
+      expect(response.headers.get('Cache-Control')).to.equal('private, max-age=60');
+      expect((await response.json()).merkleRoot).to.equal(secondRoot);
+
+      const notEligible = await get('0x0000000000000000000000000000000000000001');
+      expect(notEligible.status).to.equal(404);
+      expect(notEligible.headers.get('Cache-Control')).not.to.contain('s-maxage');
+    });
+
+    it('rejects malformed input and unknown roots', async () => {
+      expect((await get('not-an-address')).status).to.equal(400);
+      expect((await get(ALICE, '?root=0x1234')).status).to.equal(400);
+
+      const unknown = await get(ALICE, `?root=0x${'ab'.repeat(32)}`);
+      expect(unknown.status).to.equal(404);
+      expect(unknown.headers.get('Cache-Control')).to.equal('no-store');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { findCampaignClaim, loadCampaign, recordDeployment } from '../scripts/campaigns';
+import { reconcileAirdrop } from '../scripts/reconcile-airdrop';
+import { loadEligibleUsers } from '../scripts/eligibility-input';
+
+describe('reconcileAirdrop', () => {
+  const log = console.log;
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-reconcile-'));
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = log;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function deployCampaign() {
+    const [owner, alice, bob, carol] = await ethers.getSigners();
+    const result = await generateAirdropData(
+      [
+        { address: alice.address, amount: '100', reason: 'Beta tester' },
+        { address: bob.address, amount: '250' },
+        { address: carol.address, amount: '50', reason: 'Contributor' }
+      ],
+      { dataDir, campaign: { id: 'season-1' } }
+    );
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const claimPeriodEnd = (await time.latest()) + 30 * 24 * 60 * 60;
+    const totalWei = BigInt(result.campaign.totalTokensWei);
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [await token.getAddress(), result.merkleRoot, claimPeriodEnd, totalWei]);
+    const receipt = await airdrop.deploymentTransaction()!.wait();
+    await token.transfer(await airdrop.getAddress(), totalWei);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    recordDeployment(dataDir, loadCampaign(dataDir, 'season-1')!, {
+      chainId: Number(chainId),
+      contractAddress: await airdrop.getAddress(),
+      tokenAddress: await token.getAddress(),
+      deployer: owner.address,
+      merkleRoot: result.merkleRoot,
+      totalClaimable: totalWei.toString(),
+      claimPeriodEnd: new Date(claimPeriodEnd * 1000).toISOString(),
+      deployedAt: new Date().toISOString(),
+      blockNumber: receipt!.blockNumber,
+      transactionHash: receipt!.hash
+    });
+
+    for (const claimer of [alice, bob]) {
+      const { amount, proof } = findCampaignClaim(dataDir, 'season-1', claimer.address)!;
+      await airdrop.connect(claimer).claimTokens(amount, proof);
+    }
+    return { claimPeriodEnd, alice, bob, carol };
+  }
+
+  it('splits the list into claimed and unclaimed and writes rollover input', async () => {
+    const { alice, bob, carol } = await deployCampaign();
+    const report = await reconcileAirdrop({ dataDir, campaign: 'season-1', provider: ethers.provider });
+
+    expect(report.claimed.map(claim => claim.address)).to.have.members([alice.address, bob.address]);
+    expect(report.unclaimed).to.deep.equal([
+      { address: carol.address, eligibleWei: ethers.parseEther('50').toString(), reason: 'Contributor' }
+    ]);
+    expect(report.unexpected).to.deep.equal([]);
+    expect(report.totals).to.include({
+      claimedUsers: 2,
+      claimedWei: ethers.parseEther('350').toString(),
+      unclaimedWei: ethers.parseEther('50').toString(),
+      contractBalanceWei: ethers.parseEther('50').toString()
+    });
+
+    // The window is still open, so the rollover is only provisional
+    expect(report.windowClosed).to.equal(false);
+    expect(report.warnings[0]).to.contain('Claim window is still open');
+
+    const rollover = await loadEligibleUsers(path.join(dataDir, 'season-1', 'reconciliation', 'rollover-eligibility.csv'));
+    expect(rollover).to.deep.equal([{ address: carol.address, amount: '50', reason: 'Unclaimed in season-1: Contributor' }]);
+  });
+
+  it('reports a closed window without warnings', async () => {
+    const { claimPeriodEnd } = await deployCampaign();
+    await time.increaseTo(claimPeriodEnd + 1);
+
+    const report = await reconcileAirdrop({ dataDir, campaign: 'season-1', provider: ethers.provider });
+    expect(report.windowClosed).to.equal(true);
+    expect(report.warnings).to.deep.equal([]);
+  });
+
+  it('needs a provider and a deployment', async () => {
+    await generateAirdropData([{ address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '1' }], {
+      dataDir,
+      campaign: { id: 'season-1' }
+    });
+
+    for (const [options, message] of [
+      [{}, 'An RPC endpoint is required'],
+      [{ provider: ethers.provider }, 'has no recorded deployment']
+    ] as const) {
+      await reconcileAirdrop({ dataDir, campaign: 'season-1', ...options }).then(
+        () => expect.fail(`expected "${message}"`),
+        err => expect(err.message).to.contain(message)
+      );
+    }
+  });
+});
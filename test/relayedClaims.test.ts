@@ -0,0 +1,171 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import {
+  RelayedClaimRequest,
+  RelayerRejectedError,
+  RelayerUnavailableError,
+  findRelayedClaim,
+  relayClaim
+} from '../lib/relayedClaims';
+
+const RELAYER_URL = 'http://relayer.test';
+
+type FetchStub = (url: string, init?: RequestInit) => Promise<Response>;
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+const refused = () => Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+const timedOut = () => new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+
+describe('relayedClaims', () => {
+  const originalFetch = globalThis.fetch;
+  const originalNow = Date.now;
+
+  // Other tests move the chain ahead of the wall clock; deadlines are signed against the chain
+  before(async () => {
+    const offset = (await time.latest()) * 1000 - originalNow();
+    if (offset > 0) Date.now = () => originalNow() + offset;
+  });
+  after(() => {
+    Date.now = originalNow;
+  });
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const stubFetch = (claim: FetchStub, health: FetchStub = async () => json(200, { status: 'ok' })) => {
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      return url.endsWith('/health') ? health(url, init) : claim(url, init);
+    }) as typeof fetch;
+  };
+
+  async function deployAirdrop() {
+    const [, alice, relayer] = await ethers.getSigners();
+    const amount = ethers.parseEther('100');
+    const builder = new AirdropTreeBuilder();
+    builder.addWei(alice.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      (await time.latest()) + 30 * 24 * 60 * 60,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+
+    const params = {
+      relayerUrl: RELAYER_URL,
+      contractAddress: await airdrop.getAddress(),
+      recipient: alice.address,
+      amount,
+      proof: tree.getProof(0),
+      fromBlock: await ethers.provider.getBlockNumber()
+    };
+    // What the relayer does with a request: submit it from its own account
+    const submit = async (init?: RequestInit) => {
+      const request: RelayedClaimRequest = JSON.parse(String(init?.body));
+      const tx = await airdrop.connect(relayer).claimTokensWithSignature(
+        request.claimer,
+        request.recipient,
+        request.amount,
+        request.proof,
+        request.deadline,
+        request.signature
+      );
+      return tx.hash;
+    };
+    return { airdrop, alice, params, submit };
+  }
+
+  it('returns the transaction the relayer sent', async () => {
+    const { airdrop, alice, params, submit } = await loadFixture(deployAirdrop);
+    stubFetch(async (_url, init) => json(202, { transactionHash: await submit(init) }));
+
+    const hash = await relayClaim(alice, params);
+    expect((await ethers.provider.getTransaction(hash))?.to).to.equal(params.contractAddress);
+    expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+  });
+
+  it('follows a claim the relayer sent without answering', async () => {
+    const { airdrop, alice, params, submit } = await loadFixture(deployAirdrop);
+    let sentHash = '';
+    stubFetch(async (_url, init) => {
+      sentHash = await submit(init);
+      throw timedOut();
+    });
+
+    expect(await relayClaim(alice, params)).to.equal(sentHash);
+    expect(await airdrop.nonces(alice.address)).to.equal(1n);
+  });
+
+  it('falls back when the relayer failed without sending the claim', async () => {
+    const { alice, params } = await loadFixture(deployAirdrop);
+
+    for (const claim of [
+      async () => json(503, { error: 'Relayer is out of funds' }),
+      async () => new Response('<html>Bad gateway</html>', { status: 502 }),
+      async () => { throw timedOut(); }
+    ]) {
+      stubFetch(claim);
+      await relayClaim(alice, params).then(
+        () => expect.fail('expected the relayer to be reported unavailable'),
+        err => {
+          expect(err).to.be.instanceOf(RelayerUnavailableError);
+          expect(err.message).to.contain('the claim has not been sent');
+        }
+      );
+    }
+  });
+
+  it('falls back when the relayer refuses before accepting the request', async () => {
+    const { alice, params } = await loadFixture(deployAirdrop);
+    let claimRequests = 0;
+    const claim = async () => {
+      claimRequests++;
+      return json(202, { transactionHash: ethers.ZeroHash });
+    };
+
+    stubFetch(claim, async () => { throw refused(); });
+    await relayClaim(alice, params).then(() => expect.fail('expected the health check to fail'), err => expect(err).to.be.instanceOf(RelayerUnavailableError));
+    stubFetch(claim, async () => json(503, { status: 'low-balance' }));
+    await relayClaim(alice, params).then(() => expect.fail('expected the health check to fail'), err => expect(err).to.be.instanceOf(RelayerUnavailableError));
+    expect(claimRequests).to.equal(0);
+
+    stubFetch(async () => { throw refused(); });
+    await relayClaim(alice, params).then(() => expect.fail('expected the claim to be refused'), err => expect(err).to.be.instanceOf(RelayerUnavailableError));
+    stubFetch(async () => json(429, { error: 'Too many relayed claims for this address' }));
+    await relayClaim(alice, params).then(
+      () => expect.fail('expected the claim to be rate limited'),
+      err => {
+        expect(err).to.be.instanceOf(RelayerUnavailableError);
+        expect(err.message).to.equal('Too many relayed claims for this address');
+      }
+    );
+  });
+
+  it('does not fall back when the relayer rejects the claim itself', async () => {
+    const { alice, params } = await loadFixture(deployAirdrop);
+    stubFetch(async () => json(422, { error: 'The proof does not match', reason: 'InvalidProof' }));
+
+    await relayClaim(alice, params).then(
+      () => expect.fail('expected the claim to be rejected'),
+      err => {
+        expect(err).to.be.instanceOf(RelayerRejectedError);
+        expect(err.reason).to.equal('InvalidProof');
+      }
+    );
+  });
+
+  it('finds nothing when the signed nonce was invalidated instead of used', async () => {
+    const { airdrop, alice, params } = await loadFixture(deployAirdrop);
+    expect(await findRelayedClaim(ethers.provider, params.contractAddress, alice.address, 0n, params.fromBlock)).to.equal(null);
+
+    await airdrop.connect(alice).invalidateNonce();
+    expect(await findRelayedClaim(ethers.provider, params.contractAddress, alice.address, 0n, params.fromBlock)).to.equal(null);
+  });
+});
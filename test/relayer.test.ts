@@ -0,0 +1,227 @@
+import { expect } from 'chai';
+import * as http from 'http';
+import { Readable } from 'stream';
+import { ethers } from 'hardhat';
+import { loadFixture, mine, setBalance, time } from '@nomicfoundation/hardhat-network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { AirdropTreeBuilder } from '../scripts/merkle-builder';
+import { CLAIM_TYPES, RelayedClaimRequest, getClaimDomain } from '../lib/relayedClaims';
+import { RateLimiter, RelayerContext, createRelayerContext, handleClaim, parseClaimRequest } from '../scripts/relayer';
+
+interface RelayerAnswer {
+  status: number;
+  headers: Record<string, string>;
+  body: Record<string, string>;
+}
+
+/**
+ * Run one POST /claim through the handler, answering refusals the way the server does
+ */
+async function postClaim(context: RelayerContext, request: RelayedClaimRequest): Promise<RelayerAnswer> {
+  const answer: RelayerAnswer = { status: 0, headers: {}, body: {} };
+  const req = Readable.from([Buffer.from(JSON.stringify(request))]) as unknown as http.IncomingMessage;
+  const res = {
+    writeHead(status: number, headers: Record<string, string>) {
+      Object.assign(answer, { status, headers });
+      return res;
+    },
+    end(body: string) {
+      answer.body = JSON.parse(body);
+    }
+  } as unknown as http.ServerResponse;
+
+  try {
+    await handleClaim(context, req, res);
+  } catch (err) {
+    const { status, message, reason } = err as { status?: number; message: string; reason?: string };
+    if (!status) throw err;
+    Object.assign(answer, { status, body: { error: message, reason } });
+  }
+  return answer;
+}
+
+describe('relayer', () => {
+  const originalNow = Date.now;
+  const { log, error } = console;
+
+  // Other tests move the chain ahead of the wall clock; deadlines are checked against both
+  before(async () => {
+    const offset = (await time.latest()) * 1000 - originalNow();
+    if (offset > 0) Date.now = () => originalNow() + offset;
+    console.log = () => {};
+    console.error = () => {};
+  });
+  after(() => {
+    Date.now = originalNow;
+    Object.assign(console, { log, error });
+  });
+
+  async function deployAirdrop() {
+    const [, alice, bob] = await ethers.getSigners();
+    const allocations = [
+      { signer: alice, amount: ethers.parseEther('100') },
+      { signer: bob, amount: ethers.parseEther('250') }
+    ];
+    const builder = new AirdropTreeBuilder();
+    for (const { signer, amount } of allocations) builder.addWei(signer.address, amount);
+    const tree = builder.build();
+
+    const token = await ethers.deployContract('PayCryptToken');
+    const airdrop = await ethers.deployContract('PayCryptAirdrop', [
+      await token.getAddress(),
+      tree.root,
+      (await time.latest()) + 30 * 24 * 60 * 60,
+      tree.totalWei
+    ]);
+    await token.transfer(await airdrop.getAddress(), tree.totalWei);
+    const contractAddress = await airdrop.getAddress();
+    const { chainId } = await ethers.provider.getNetwork();
+
+    // A relayer account of its own, so tests can leave it without funds
+    const wallet = ethers.Wallet.createRandom(ethers.provider);
+    await setBalance(wallet.address, ethers.parseEther('1'));
+    const createContext = (maxClaimsPerAddress = 3) => createRelayerContext(wallet, contractAddress, { maxClaimsPerAddress });
+
+    // Sign alice's or bob's claim, with an amount other than their allocation if asked
+    const signRequest = async (signer: HardhatEthersSigner, amount?: bigint, claimer = signer.address): Promise<RelayedClaimRequest> => {
+      const index = allocations.findIndex(allocation => allocation.signer.address === claimer);
+      const message = {
+        claimer,
+        recipient: claimer,
+        amount: amount ?? allocations[index].amount,
+        nonce: await airdrop.nonces(claimer),
+        deadline: Math.floor(Date.now() / 1000) + 10 * 60
+      };
+      const signature = await signer.signTypedData(getClaimDomain(chainId, contractAddress), CLAIM_TYPES, message);
+      const { nonce, ...signed } = message;
+      return { ...signed, amount: signed.amount.toString(), proof: tree.getProof(index), signature };
+    };
+
+    return { airdrop, alice, bob, wallet, createContext, signRequest };
+  }
+
+  it('relays a valid claim from the relayer account', async () => {
+    const { airdrop, alice, wallet, createContext, signRequest } = await loadFixture(deployAirdrop);
+    const answer = await postClaim(await createContext(), await signRequest(alice));
+
+    expect(answer.status).to.equal(202);
+    expect((await ethers.provider.getTransaction(answer.body.transactionHash))?.from).to.equal(wallet.address);
+    expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+  });
+
+  it('counts a claim that would revert against the limit and answers the retry with 429', async () => {
+    const { airdrop, alice, createContext, signRequest } = await loadFixture(deployAirdrop);
+    const context = await createContext(1);
+
+    const rejected = await postClaim(context, await signRequest(alice, ethers.parseEther('1000')));
+    expect(rejected.status).to.equal(422);
+    expect(rejected.body.reason).to.equal('InvalidProof');
+
+    const retry = await postClaim(context, await signRequest(alice));
+    expect(retry.status).to.equal(429);
+    expect(Number(retry.headers['Retry-After'])).to.be.greaterThan(0);
+    expect(await airdrop.hasClaimed(alice.address)).to.equal(false);
+  });
+
+  it('refuses a second claim for an address while the first is pending', async () => {
+    const { airdrop, alice, createContext, signRequest } = await loadFixture(deployAirdrop);
+    const context = await createContext();
+    const request = await signRequest(alice);
+
+    await ethers.provider.send('evm_setAutomine', [false]);
+    try {
+      const answers = await Promise.all([postClaim(context, request), postClaim(context, request)]);
+      expect(answers.map(answer => answer.status).sort()).to.deep.equal([202, 409]);
+      await mine();
+    } finally {
+      await ethers.provider.send('evm_setAutomine', [true]);
+    }
+    expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+  });
+
+  it('rejects a bad signature before the per-address limit counts it', async () => {
+    const { airdrop, alice, bob, createContext, signRequest } = await loadFixture(deployAirdrop);
+    const context = await createContext(1);
+
+    // Bob signs a claim for alice's address
+    const forged = await postClaim(context, await signRequest(bob, undefined, alice.address));
+    expect(forged.status).to.equal(400);
+    expect(forged.body.reason).to.equal('InvalidSignature');
+
+    expect((await postClaim(context, await signRequest(alice))).status).to.equal(202);
+    expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+  });
+
+  it('reuses the transaction nonce of a send that failed', async () => {
+    const { airdrop, alice, wallet, createContext, signRequest } = await loadFixture(deployAirdrop);
+    const context = await createContext();
+    const request = await signRequest(alice);
+
+    await setBalance(wallet.address, 0n);
+    await postClaim(context, request).then(
+      () => expect.fail('expected the send to fail'),
+      err => expect(err.message).to.match(/enough funds/)
+    );
+
+    // Had the failed send kept its nonce, this one would leave a gap no node mines past
+    await setBalance(wallet.address, ethers.parseEther('1'));
+    const answer = await postClaim(context, request);
+    expect(answer.status).to.equal(202);
+    expect((await ethers.provider.getTransaction(answer.body.transactionHash))?.nonce).to.equal(0);
+    expect(await airdrop.hasClaimed(alice.address)).to.equal(true);
+  });
+
+  describe('RateLimiter', () => {
+    it('allows a number of hits per window and says when the next one frees up', () => {
+      const limiter = new RateLimiter(2, 60_000);
+      expect(limiter.take('a', 0)).to.equal(0);
+      expect(limiter.take('a', 10_000)).to.equal(0);
+      expect(limiter.take('a', 20_000)).to.equal(40);
+      expect(limiter.take('b', 20_000)).to.equal(0);
+      expect(limiter.take('a', 60_001)).to.equal(0);
+    });
+
+    it('forgets keys without hits in the window', () => {
+      const limiter = new RateLimiter(1, 60_000);
+      limiter.take('a', 0);
+      limiter.sweep(30_000);
+      expect(limiter.take('a', 30_000)).to.equal(30);
+      limiter.sweep(60_000);
+      expect(limiter.take('a', 60_000)).to.equal(0);
+    });
+  });
+
+  describe('parseClaimRequest', () => {
+    const valid = {
+      claimer: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+      recipient: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      amount: '1000',
+      proof: ['0x' + '11'.repeat(32)],
+      deadline: 1_800_000_000,
+      signature: '0x' + '22'.repeat(65)
+    };
+
+    it('checksums the addresses of a well-formed request', () => {
+      expect(parseClaimRequest(valid).claimer).to.equal('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+    });
+
+    it('names the first malformed field', () => {
+      const messageFor = (body: unknown) => {
+        try {
+          parseClaimRequest(body);
+        } catch (err) {
+          return (err as { status: number; message: string }).status + ' ' + (err as Error).message;
+        }
+        return expect.fail('expected the request to be rejected');
+      };
+
+      expect(messageFor(null)).to.equal('400 Expected a JSON object');
+      expect(messageFor({ ...valid, claimer: '0x1234' })).to.equal('400 claimer must be an address');
+      expect(messageFor({ ...valid, amount: '0' })).to.equal('400 amount must be a positive whole number of wei');
+      expect(messageFor({ ...valid, amount: 1000 })).to.equal('400 amount must be a positive whole number of wei');
+      expect(messageFor({ ...valid, proof: ['0x1234'] })).to.equal('400 proof must be an array of 32-byte hex strings');
+      expect(messageFor({ ...valid, deadline: '1800000000' })).to.equal('400 deadline must be a Unix timestamp');
+      expect(messageFor({ ...valid, signature: '0x1234' })).to.equal('400 signature must be a 65-byte hex string');
+    });
+  });
+});
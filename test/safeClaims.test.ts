@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { generateSafeClaimBatches, parseSafeClaimArgs } from '../scripts/safe-claims';
+
+const [ALICE, BOB, CAROL] = [
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+];
+const OUTSIDER = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+const AIRDROP = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('generateSafeClaimBatches', () => {
+  const log = console.log;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-safe-'));
+    console.log = () => {};
+    await generateAirdropData(
+      [{ address: ALICE, amount: '100' }, { address: BOB, amount: '250' }, { address: CAROL, amount: '50' }],
+      { dataDir, campaign: { id: 'season-1' } }
+    );
+  });
+
+  afterEach(() => {
+    console.log = log;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('writes a batch per eligible address and explains the ones it skips', async () => {
+    const inputFile = path.join(dataDir, 'safes.csv');
+    fs.writeFileSync(inputFile, `address,recipient\n${BOB.toLowerCase()},${CAROL}\n${CAROL},${CAROL.toLowerCase()}\n${OUTSIDER},\n`);
+
+    const report = await generateSafeClaimBatches({
+      dataDir,
+      campaign: 'season-1',
+      addresses: [ALICE, ALICE.toLowerCase(), 'not-an-address'],
+      inputFile,
+      contractAddress: AIRDROP,
+      chainId: 8453
+    });
+
+    expect(report).to.include({ campaign: 'season-1', chainId: 8453, contractAddress: AIRDROP, checkedOnChain: false });
+    // A recipient equal to the Safe itself is a plain claim
+    expect(report.generated.map(({ address, recipient }) => [address, recipient])).to.deep.equal([
+      [ALICE, undefined],
+      [BOB, CAROL],
+      [CAROL, undefined]
+    ]);
+    expect(report.skipped).to.deep.equal([
+      { address: 'not-an-address', reason: 'invalid address' },
+      { address: OUTSIDER, reason: 'not eligible in this campaign' }
+    ]);
+
+    const batch = JSON.parse(fs.readFileSync(path.join(report.outputDir, `${BOB}.json`), 'utf8'));
+    expect(batch.chainId).to.equal('8453');
+    expect(batch.transactions[0].contractMethod.name).to.equal('claimTokensTo');
+    expect(batch.transactions[0].contractInputsValues.recipient).to.equal(CAROL);
+    expect(JSON.parse(fs.readFileSync(path.join(report.outputDir, 'index.json'), 'utf8')).generated).to.have.length(3);
+  });
+
+  it('needs a deployment, a chain and addresses', async () => {
+    for (const [options, message] of [
+      [{}, 'has no recorded deployment'],
+      [{ contractAddress: AIRDROP }, 'has no chain'],
+      [{ contractAddress: AIRDROP, chainId: 8453 }, 'No addresses given'],
+      [{ contractAddress: AIRDROP, chainId: 8453, detect: true }, '--detect needs an RPC endpoint']
+    ] as const) {
+      await generateSafeClaimBatches({ dataDir, campaign: 'season-1', ...options }).then(
+        () => expect.fail(`expected "${message}"`),
+        err => expect(err.message).to.contain(message)
+      );
+    }
+  });
+
+  it('parses command line arguments', () => {
+    const rpcUrl = process.env.AIRDROP_RPC_URL;
+    delete process.env.AIRDROP_RPC_URL;
+    try {
+      expect(parseSafeClaimArgs(['--campaign', 'season-1', ALICE, '--chain-id', '137', '--input', 'safes.csv', BOB])).to.deep.equal({
+        addresses: [ALICE, BOB],
+        campaign: 'season-1',
+        chainId: 137,
+        inputFile: 'safes.csv',
+        rpcUrl: undefined
+      });
+      expect(() => parseSafeClaimArgs(['--chain-id', 'base'])).to.throw('--chain-id must be a whole number');
+      expect(() => parseSafeClaimArgs(['--safe', ALICE])).to.throw('Unknown argument "--safe"');
+    } finally {
+      if (rpcUrl !== undefined) process.env.AIRDROP_RPC_URL = rpcUrl;
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import { buildSafeClaimBatch } from '../lib/safeTransactions';
+
+const SAFE = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+const RECIPIENT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const AIRDROP = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const PROOF = ['0x' + '11'.repeat(32), '0x' + '22'.repeat(32)];
+
+describe('buildSafeClaimBatch', () => {
+  const build = (overrides: Partial<Parameters<typeof buildSafeClaimBatch>[0]> = {}) =>
+    buildSafeClaimBatch({
+      chainId: 8453n,
+      airdropAddress: AIRDROP,
+      safeAddress: SAFE,
+      amount: ethers.parseUnits('1250.5', 6).toString(),
+      proof: PROOF,
+      symbol: 'USDP',
+      decimals: 6,
+      ...overrides
+    });
+
+  it('claims to the Safe itself and describes the amount in the token\'s units', () => {
+    const batch = build();
+    const [transaction] = batch.transactions;
+
+    expect(batch.chainId).to.equal('8453');
+    expect(batch.meta.description).to.equal(`Claim 1250.5 USDP for ${ethers.getAddress(SAFE)}`);
+    expect(batch.meta.createdFromSafeAddress).to.equal(ethers.getAddress(SAFE));
+    expect(transaction.contractMethod?.name).to.equal('claimTokens');
+    expect(transaction.contractInputsValues).to.deep.equal({
+      amount: '1250500000',
+      merkleProof: `[${PROOF.join(',')}]`
+    });
+  });
+
+  it('uses claimTokensTo for another recipient', () => {
+    const batch = build({ recipient: RECIPIENT.toLowerCase(), amount: ethers.parseEther('100').toString(), decimals: 18 });
+    const [transaction] = batch.transactions;
+
+    expect(batch.meta.description).to.equal(`Claim 100 USDP for ${ethers.getAddress(SAFE)} and send it to ${RECIPIENT}`);
+    expect(transaction.contractMethod?.name).to.equal('claimTokensTo');
+    expect(transaction.contractInputsValues?.recipient).to.equal(RECIPIENT);
+  });
+});
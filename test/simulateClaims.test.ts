@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { simulateClaims } from '../scripts/simulate-claims';
+
+describe('simulateClaims', () => {
+  const log = console.log;
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-simulate-'));
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = log;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function generateCampaign() {
+    const [, alice, bob, carol] = await ethers.getSigners();
+    await generateAirdropData(
+      [
+        { address: alice.address, amount: '100' },
+        { address: bob.address, amount: '250' },
+        { address: carol.address, amount: '50' }
+      ],
+      { dataDir, campaign: { id: 'season-1' } }
+    );
+    return { alice, bob, carol, campaignDir: path.join(dataDir, 'season-1') };
+  }
+
+  it('claims every entry of a campaign', async () => {
+    await generateCampaign();
+    const report = await simulateClaims({ dataDir, campaign: 'season-1' });
+
+    expect(report).to.include({ attempted: 3, claimed: 3, failed: 0, passed: true });
+    expect(report.checks.every(check => check.passed)).to.equal(true);
+    expect(report.stats).to.include({ totalClaimed: ethers.parseEther('400').toString(), remainingTokens: '0', isActive: true });
+  });
+
+  it('reports a corrupted proof and an underfunded total', async () => {
+    const { alice, bob, carol, campaignDir } = await generateCampaign();
+
+    // Break bob's proof in the shard the claim page would serve
+    const proofsDir = path.join(campaignDir, 'proofs');
+    for (const file of fs.readdirSync(proofsDir).filter(name => name !== 'index.json')) {
+      const shard = JSON.parse(fs.readFileSync(path.join(proofsDir, file), 'utf8'));
+      const key = Object.keys(shard).find(address => address.toLowerCase() === bob.address.toLowerCase());
+      if (!key) continue;
+      shard[key].proof[0] = ethers.ZeroHash;
+      fs.writeFileSync(path.join(proofsDir, file), JSON.stringify(shard));
+    }
+
+    // Fund less than alice and carol claim together
+    const configFile = path.join(campaignDir, 'deployment-config.json');
+    const config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    const totalWei = ethers.parseEther('120');
+    fs.writeFileSync(configFile, JSON.stringify({ ...config, totalTokensWei: totalWei.toString() }));
+
+    const report = await simulateClaims({ dataDir, campaign: 'season-1' });
+    expect(report).to.include({ attempted: 3, claimed: 1, failed: 2, passed: false });
+    expect(report.failuresByError).to.deep.equal({ InvalidProof: 1, InsufficientTokens: 1 });
+    expect(report.claims.find(claim => claim.address === bob.address)?.error).to.equal('InvalidProof');
+
+    // Whichever of alice and carol claimed first was paid; the other found the total used up
+    const paid = report.claims.find(claim => claim.status === 'claimed')!;
+    expect([alice.address, carol.address]).to.include(paid.address);
+    expect(report.gas).to.deep.equal({ min: paid.gasUsed, max: paid.gasUsed, average: paid.gasUsed, total: paid.gasUsed });
+    expect(report.gas!.total).to.be.greaterThan(21000);
+    expect(report.gasByProofLength).to.deep.equal({ [paid.proofLength]: report.gas });
+
+    expect(report.stats).to.deep.include({
+      totalClaimable: totalWei.toString(),
+      totalClaimed: paid.amountWei,
+      remainingTokens: (totalWei - BigInt(paid.amountWei)).toString(),
+      isActive: true
+    });
+    expect(report.checks.map(check => [check.name, check.passed])).to.deep.equal([
+      ['second claim is refused', true],
+      ['totalClaimed matches successful claims', true],
+      ['contract balance covers the remainder', true],
+      ['every address in the campaign was found in the proof shards', true],
+      ['nothing remains unclaimed', false]
+    ]);
+  });
+
+  it('claims only up to the limit', async () => {
+    await generateCampaign();
+    const report = await simulateClaims({ dataDir, campaign: 'season-1', limit: 2 });
+    expect(report).to.include({ limit: 2, attempted: 2, claimed: 2, passed: true });
+  });
+
+  it('rejects a limit that is not a positive whole number', async () => {
+    await generateCampaign();
+    for (const limit of [0, -1, 1.5, NaN]) {
+      await simulateClaims({ dataDir, campaign: 'season-1', limit }).then(
+        () => expect.fail(`expected a limit of ${limit} to be rejected`),
+        err => expect(err.message).to.contain('AIRDROP_SIMULATION_LIMIT must be a positive whole number')
+      );
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree';
+import { AirdropMerkleTree, generateAirdropData } from '../scripts/generate-merkle';
+import { computeLeaf, verifyMerkleProof } from '../scripts/merkle-builder';
+
+const USERS = [
+  { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '100' },
+  { address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', amount: '250' },
+  { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', amount: '75.5' },
+  { address: '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65', amount: '1' },
+  { address: '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc', amount: '0.000000000000000001' }
+];
+
+describe('standard leaf encoding', () => {
+  const values = USERS.map(({ address, amount }) => [address, ethers.parseEther(amount).toString()]);
+  const reference = StandardMerkleTree.of(values, ['address', 'uint256']);
+  const tree = new AirdropMerkleTree(USERS, { leafEncoding: 'standard' });
+
+  it('builds the same root and proofs as StandardMerkleTree', () => {
+    expect(tree.getMerkleRoot()).to.equal(reference.root);
+    values.forEach(([address, amountWei], i) => {
+      expect(tree.getProof(address, BigInt(amountWei))).to.deep.equal(reference.getProof(i));
+      expect(computeLeaf(address, BigInt(amountWei), 'standard')).to.equal(reference.leafHash([address, amountWei]));
+    });
+  });
+
+  it('dumps a tree StandardMerkleTree can load and verify', () => {
+    const dump = tree.dump();
+    expect(dump).to.deep.equal(reference.dump());
+
+    const loaded = StandardMerkleTree.load(dump);
+    for (const [i, value] of loaded.entries()) {
+      expect(StandardMerkleTree.verify(loaded.root, ['address', 'uint256'], value, loaded.getProof(i))).to.equal(true);
+    }
+    expect(AirdropMerkleTree.fromStandardDump(dump).getMerkleRoot()).to.equal(reference.root);
+  });
+
+  it('rejects dumps that were tampered with', () => {
+    const dump = tree.dump();
+    const tampered = { ...dump, values: dump.values.map((entry, i) => (i === 0 ? { ...entry, value: [entry.value[0], '1'] } : entry)) };
+    expect(() => AirdropMerkleTree.fromStandardDump(tampered as typeof dump)).to.throw();
+    expect(() => AirdropMerkleTree.fromStandardDump({ ...dump, leafEncoding: ['address', 'uint128'] } as typeof dump))
+      .to.throw('Unsupported leaf encoding');
+  });
+
+  it('keeps standard and packed roots apart', () => {
+    const packed = new AirdropMerkleTree(USERS);
+    expect(packed.getMerkleRoot()).not.to.equal(tree.getMerkleRoot());
+
+    const [address, amountWei] = values[0];
+    const proof = tree.getProof(address, BigInt(amountWei));
+    expect(verifyMerkleProof(tree.getMerkleRoot(), computeLeaf(address, BigInt(amountWei), 'packed'), proof)).to.equal(false);
+  });
+
+  it('writes merkle-tree.json when generating with the standard encoding', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-standard-'));
+    const log = console.log;
+    console.log = () => {};
+    try {
+      const result = await generateAirdropData(USERS, { dataDir, leafEncoding: 'standard' });
+      const dump = JSON.parse(fs.readFileSync(path.join(result.outputDir, 'merkle-tree.json'), 'utf8'));
+      expect(StandardMerkleTree.load(dump).root).to.equal(reference.root);
+      expect(result.merkleRoot).to.equal(reference.root);
+    } finally {
+      console.log = log;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
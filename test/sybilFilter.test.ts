@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SybilConfig, applySybilFilters, loadSybilFilters, registerSybilFilter } from '../scripts/sybil-filter';
+
+const [U1, U2, U3, U4, U5, U6] = [
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+  '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc',
+  '0x976EA74026E726554dB657fA54763abd0C3a0aa9'
+];
+const FUNDER = '0xa0Ee7A142d267C1f36714E4a8F75612F20a79720';
+const DEPOSIT = '0x14dC79964da2C08b23698B3D3cc7Ca32193d9955';
+
+const USERS = [
+  { address: U1, amount: '100' },
+  { address: U2, amount: '300' },
+  { address: U3, amount: '50' },
+  { address: U4, amount: '10' },
+  { address: U5, amount: '20' },
+  { address: U6, amount: '5' }
+];
+
+describe('sybil filters', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) => fs.writeFileSync(path.join(dir, name), content);
+  const loadFilters = (config: SybilConfig) => {
+    write('sybil.json', JSON.stringify(config));
+    return loadSybilFilters(path.join(dir, 'sybil.json'));
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-sybil-'));
+    // U3 was funded by U2, so the chain links it to the shared funder too
+    write('funders.csv', `address,funder\n${U1},${FUNDER}\n${U2},${FUNDER}\n${U3},${U2.toLowerCase()}\n`);
+    write('deposits.csv', `wallet,deposit\n${U4},${DEPOSIT}\n${U5},${DEPOSIT}\n`);
+    write('created.csv', `address,created\n${U6},2024-05-30T00:00:00Z\n${U4},1600000000\n`);
+    write('denied.txt', `${U5.toLowerCase()}\n`);
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('removes and flags addresses found by each filter', async () => {
+    const filters = loadFilters({
+      filters: {
+        denylist: { files: ['denied.txt'] },
+        fundingSource: { file: 'funders.csv', maxClusterSize: 2, keepOne: true },
+        sharedDeposit: { file: 'deposits.csv', action: 'flag', columns: { address: 'wallet' } },
+        walletAge: { file: 'created.csv', minAgeDays: 30, asOf: '2024-06-01T00:00:00Z' }
+      }
+    });
+    const { users, report } = await applySybilFilters(USERS, filters);
+
+    // The largest allocation of the funding cluster is kept
+    expect(users.map(user => user.address)).to.deep.equal([U2, U4]);
+    expect(report.removed.map(user => user.address)).to.deep.equal([U1, U3, U5, U6]);
+    expect(report.removed.find(user => user.address === U5)!.reasons).to.deep.equal(['denylist: listed in denied.txt']);
+    expect(report.removed.find(user => user.address === U1)!.reasons[0]).to.match(/^fundingSource: 3 eligible addresses share funding sources/);
+    expect(report.flagged).to.deep.equal([
+      { address: U4, amount: '10', reasons: [`sharedDeposit: 2 eligible addresses share deposit address ${DEPOSIT.toLowerCase()}`] }
+    ]);
+    expect(report.totals).to.deep.equal({ checked: 6, removed: 4, flagged: 1, removedTokens: '175', remainingTokens: '310' });
+    expect(report.filters.map(({ name, action, addresses }) => [name, action, addresses])).to.deep.equal([
+      ['denylist', 'remove', 1],
+      ['fundingSource', 'remove', 2],
+      ['sharedDeposit', 'flag', 2],
+      ['walletAge', 'remove', 1]
+    ]);
+  });
+
+  it('finds wallets created in a burst', async () => {
+    const base = Date.parse('2024-01-01T00:00:00Z') / 1000;
+    write('burst.csv', ['address,created', ...[U1, U2, U3].map((address, i) => `${address},${base + i * 120}`), `${U4},${base + 86400}`].join('\n'));
+
+    const filters = loadFilters({ action: 'flag', filters: { walletAge: { file: 'burst.csv', burstSize: 3, burstWindowMinutes: 5 } } });
+    const { users, report } = await applySybilFilters(USERS, filters);
+
+    expect(users).to.have.length(USERS.length);
+    expect(report.findings).to.have.length(1);
+    expect(report.findings[0].addresses).to.deep.equal([U1, U2, U3]);
+    expect(report.findings[0].reason).to.contain('3 wallets created in a burst');
+  });
+
+  it('runs filters registered by name', async () => {
+    registerSybilFilter('smallAllocations', (config, _baseDir, defaults) => ({
+      name: 'smallAllocations',
+      action: config.action || defaults.action,
+      run: async users => users
+        .filter(user => Number(user.amount) < Number(config.below))
+        .map(user => ({ filter: 'smallAllocations', addresses: [user.address], reason: `below ${config.below}` }))
+    }));
+
+    const { report } = await applySybilFilters(USERS, loadFilters({ filters: { smallAllocations: { below: 11 } } }));
+    expect(report.removed.map(user => user.address)).to.deep.equal([U4, U6]);
+  });
+
+  it('rejects unusable configs', () => {
+    expect(() => loadFilters({ filters: {} })).to.throw('must configure at least one filter');
+    expect(() => loadFilters({ filters: { lookalike: {} } })).to.throw('unknown sybil filter "lookalike"');
+    expect(() => loadFilters({ filters: { fundingSource: { file: 'funders.csv', maxClusterSize: 0 } } })).to.throw('maxClusterSize');
+    expect(() => loadFilters({ filters: { denylist: { files: ['denied.txt'], action: 'ban' as 'flag' } } })).to.throw('action must be remove or flag');
+  });
+});
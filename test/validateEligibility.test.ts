@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { validateEligibleUsers } from '../scripts/validate-eligibility';
+import { ELIGIBLE_USERS } from '../scripts/generate-merkle';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('validateEligibleUsers', () => {
+  const codes = (result: ReturnType<typeof validateEligibleUsers>) => result.report.issues.map(issue => issue.code);
+
+  it('accepts the built-in sample list', () => {
+    const { users, report } = validateEligibleUsers(ELIGIBLE_USERS);
+
+    expect(report.valid).to.equal(true);
+    expect(report.totals).to.include({ entries: 5, accepted: 5, rejected: 0 });
+    expect(users).to.have.length(5);
+  });
+
+  it('rejects malformed addresses and bad checksums', () => {
+    const { users, report } = validateEligibleUsers([
+      { address: '0x742d35Cc6661C0532108D3CE8c8FCfb4F88CA7C5', amount: '1000' },
+      { address: '0x8ba1f109551bD432803012645Hac136c', amount: '500' },
+      { address: ALICE, amount: '1' }
+    ]);
+
+    expect(report.valid).to.equal(false);
+    expect(report.issues.map(({ code, address }) => ({ code, address }))).to.deep.equal([
+      { code: 'BAD_CHECKSUM', address: '0x742d35Cc6661C0532108D3CE8c8FCfb4F88CA7C5' },
+      { code: 'INVALID_ADDRESS', address: '0x8ba1f109551bD432803012645Hac136c' }
+    ]);
+    expect(users.map(user => user.address)).to.deep.equal([ALICE]);
+  });
+
+  it('normalizes addresses and checks amounts against the token decimals', () => {
+    const result = validateEligibleUsers(
+      [
+        { address: ALICE.toLowerCase(), amount: '1.5' },
+        { address: BOB, amount: '0.0000001' },
+        { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', amount: '0' },
+        { address: '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65', amount: '-3' }
+      ],
+      { decimals: 6 }
+    );
+
+    expect(result.users.map(user => user.address)).to.deep.equal([ALICE]);
+    expect(codes(result)).to.deep.equal(['TOO_MANY_DECIMALS', 'ZERO_AMOUNT', 'NEGATIVE_AMOUNT']);
+  });
+
+  it('handles duplicates with the chosen strategy', () => {
+    const entries = [
+      { address: ALICE, amount: '100' },
+      { address: ALICE.toLowerCase(), amount: '50' }
+    ];
+
+    expect(codes(validateEligibleUsers(entries))).to.deep.equal(['DUPLICATE_ADDRESS']);
+    expect(validateEligibleUsers(entries).report.valid).to.equal(false);
+
+    const merged = validateEligibleUsers(entries, { duplicates: 'merge' });
+    expect(merged.report.valid).to.equal(true);
+    expect(merged.users).to.have.length(1);
+    expect(merged.users[0].amount).to.equal('150');
+
+    const first = validateEligibleUsers(entries, { duplicates: 'keep-first' });
+    expect(first.users.map(user => user.amount)).to.deep.equal(['100']);
+  });
+
+  it('flags known contract addresses', () => {
+    const result = validateEligibleUsers([{ address: ALICE, amount: '100' }], { contractAddresses: [ALICE.toLowerCase()] });
+    expect(codes(result)).to.deep.equal(['CONTRACT_ADDRESS']);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateAirdropData } from '../scripts/generate-merkle';
+import { verifyAirdropFiles } from '../scripts/verify-airdrop';
+
+const USERS = [
+  { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '100' },
+  { address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', amount: '250' },
+  { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', amount: '75' }
+];
+
+describe('verifyAirdropFiles', () => {
+  let dataDir: string;
+  let campaignDir: string;
+  const log = console.log;
+
+  const readJson = (file: string) => JSON.parse(fs.readFileSync(path.join(campaignDir, file), 'utf8'));
+  const writeJson = (file: string, data: unknown) => fs.writeFileSync(path.join(campaignDir, file), JSON.stringify(data, null, 2));
+
+  // Generation and verification both log progress
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-verify-'));
+    console.log = () => {};
+    campaignDir = (await generateAirdropData(USERS, { dataDir, leafEncoding: 'standard' })).outputDir;
+  });
+
+  afterEach(() => {
+    console.log = log;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('accepts the files the generator wrote', async () => {
+    const report = await verifyAirdropFiles(campaignDir);
+    expect(report.valid).to.equal(true);
+    expect(report.rebuiltRoot).to.equal(report.merkleRoot);
+    expect(report).to.include({ totalUsers: 3, totalTokensWei: '425000000000000000000', issueCount: 0 });
+    expect(report.checked).to.include({ detailedEntries: 3, addressEntries: 3, shardEntries: 3 });
+  });
+
+  it('reports an edited amount in the frontend lookup file', async () => {
+    const addresses = readJson('eligible-addresses.json');
+    const key = USERS[1].address.toLowerCase();
+    addresses[key].amount = '1' + addresses[key].amount;
+    writeJson('eligible-addresses.json', addresses);
+
+    const report = await verifyAirdropFiles(campaignDir);
+    expect(report.valid).to.equal(false);
+    expect(report.issues).to.have.length(1);
+    expect(report.issues[0]).to.include({ file: 'eligible-addresses.json' });
+    expect(report.issues[0].message).to.contain('does not match');
+  });
+
+  it('reports a recorded root that the files do not produce', async () => {
+    const config = readJson('deployment-config.json');
+    writeJson('deployment-config.json', { ...config, merkleRoot: '0x' + 'ab'.repeat(32) });
+
+    const report = await verifyAirdropFiles(campaignDir);
+    expect(report.valid).to.equal(false);
+    expect(report.rebuiltRoot).not.to.equal(report.merkleRoot);
+  });
+
+  it('reports a missing proof shard', async () => {
+    const shardDir = path.join(campaignDir, 'proofs');
+    const shard = fs.readdirSync(shardDir).find(file => file !== 'index.json')!;
+    fs.unlinkSync(path.join(shardDir, shard));
+
+    const report = await verifyAirdropFiles(campaignDir);
+    expect(report.valid).to.equal(false);
+    expect(report.issues.map(issue => issue.message)).to.deep.equal([
+      'proof shard listed in the manifest is missing',
+      '1 address(es) are missing from the proof shards'
+    ]);
+  });
+});